@@ -5,11 +5,19 @@ import { Layout } from './components/Layout'
 import { Login } from './pages/Login'
 import { Dashboard } from './pages/Dashboard'
 import { Alerts } from './pages/Alerts'
+import { AlertCalendar } from './pages/AlertCalendar'
+import { AlertTemplates } from './pages/AlertTemplates'
+import { AlertApprovals } from './pages/AlertApprovals'
+import { TagTaxonomy } from './pages/TagTaxonomy'
+import { TickerRegistry } from './pages/TickerRegistry'
 import { Users } from './pages/Users'
 import { TokenRequests } from './pages/TokenRequests'
 import { AuditLog } from './pages/AuditLog'
 import { Settings } from './pages/Settings'
 import { NewsFeed } from './pages/NewsFeed'
+import { NewsSources } from './pages/NewsSources'
+import { WatchRules } from './pages/WatchRules'
+import { AlertDraftRules } from './pages/AlertDraftRules'
 
 const queryClient = new QueryClient()
 
@@ -44,6 +52,56 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/calendar"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <AlertCalendar />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/approvals"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <AlertApprovals />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/templates"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <AlertTemplates />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/tags"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <TagTaxonomy />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/tickers"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <TickerRegistry />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/news"
             element={
@@ -54,6 +112,36 @@ function App() {
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/news/sources"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <NewsSources />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/news/watch-rules"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <WatchRules />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/news/draft-rules"
+            element={
+              <ProtectedRoute>
+                <Layout>
+                  <AlertDraftRules />
+                </Layout>
+              </ProtectedRoute>
+            }
+          />
           <Route
             path="/users"
             element={
@@ -0,0 +1,339 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Archive, CalendarClock, CheckCircle, Download, Minus, Plus, Trash2, X, XCircle } from 'lucide-react'
+import { bulkAlertAction, fetchApprovalPolicy } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY } from '../lib/alertApproval'
+import { describeBulkAction, previewBulkAction } from '../lib/alertBulkActions'
+import { alertsToCsv, downloadFile, exportTimestamp } from '../lib/alertExport'
+import { parseTags } from '../lib/alertImport'
+import type { ExistingAlert } from '../lib/alertDiff'
+import type { AlertBulkAction, AlertStatus } from '../types'
+
+type BulkAlert = ExistingAlert & { status?: AlertStatus }
+
+interface AlertBulkActionsProps {
+  selectedCount: number
+  resolveSelection: () => Promise<BulkAlert[]>   // Loads every selected alert, including ones on other pages
+  onClear: () => void
+}
+
+interface PendingAction {
+  action: AlertBulkAction
+  alerts: BulkAlert[]
+}
+
+interface ReportRow {
+  alert: BulkAlert
+  outcome: 'success' | 'failed' | 'skipped'
+  message?: string
+}
+
+const OUTCOME_STYLES: Record<ReportRow['outcome'], string> = {
+  success: 'text-green-700',
+  failed: 'text-red-700',
+  skipped: 'text-gray-500',
+}
+
+export function AlertBulkActions({ selectedCount, resolveSelection, onClear }: AlertBulkActionsProps) {
+  const queryClient = useQueryClient()
+  const [severity, setSeverity] = useState<'critical' | 'warning' | 'info'>('warning')
+  const [tagInput, setTagInput] = useState('')
+  const [shiftDays, setShiftDays] = useState(7)
+  const [isResolving, setIsResolving] = useState(false)
+  const [resolveError, setResolveError] = useState('')
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [report, setReport] = useState<ReportRow[] | null>(null)
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+
+  const loadSelection = async (): Promise<BulkAlert[] | null> => {
+    setIsResolving(true)
+    setResolveError('')
+    try {
+      return await resolveSelection()
+    } catch (error) {
+      setResolveError(error instanceof Error ? error.message : 'Failed to load selected alerts')
+      return null
+    } finally {
+      setIsResolving(false)
+    }
+  }
+
+  const startAction = async (action: AlertBulkAction) => {
+    const alerts = await loadSelection()
+    if (alerts) {
+      setPending({ action, alerts })
+    }
+  }
+
+  const handleExport = async () => {
+    const alerts = await loadSelection()
+    if (alerts) {
+      downloadFile(`alerts-${exportTimestamp()}.csv`, alertsToCsv(alerts), 'text/csv')
+    }
+  }
+
+  const runMutation = useMutation({
+    mutationFn: async ({ action, alerts }: PendingAction): Promise<ReportRow[]> => {
+      const previews = new Map(alerts.map(alert => [alert.id, previewBulkAction(alert, action, approvalPolicy)]))
+      const ids = alerts.filter(alert => !previews.get(alert.id)?.skipReason).map(alert => alert.id)
+
+      let results: Awaited<ReturnType<typeof bulkAlertAction>> = []
+      let requestError = ''
+      if (ids.length > 0) {
+        try {
+          results = await bulkAlertAction(ids, action)
+        } catch (error: unknown) {
+          const err = error as { response?: { data?: { error?: string } } }
+          requestError = err.response?.data?.error || 'Request failed'
+        }
+      }
+      const resultById = new Map(results.map(result => [String(result.id), result]))
+
+      return alerts.map(alert => {
+        const skipReason = previews.get(alert.id)?.skipReason
+        if (skipReason) return { alert, outcome: 'skipped', message: skipReason }
+        const result = resultById.get(String(alert.id))
+        if (result?.ok) return { alert, outcome: 'success' }
+        return { alert, outcome: 'failed', message: result?.error || requestError || 'No result returned' }
+      })
+    },
+    onSuccess: (rows) => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      setPending(null)
+      setReport(rows)
+    },
+  })
+
+  const closeReport = () => {
+    setReport(null)
+    onClear()
+  }
+
+  const tags = parseTags(tagInput)
+  const buttonClass = 'flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <>
+      {/* Toolbar */}
+      <div className="bg-primary-50 border border-primary-200 rounded-lg p-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-primary-900">{selectedCount} selected</span>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={severity}
+            onChange={(e) => setSeverity(e.target.value as typeof severity)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          >
+            <option value="critical">Critical</option>
+            <option value="warning">Warning</option>
+            <option value="info">Info</option>
+          </select>
+          <button
+            onClick={() => startAction({ type: 'severity', severity })}
+            disabled={isResolving}
+            className={buttonClass}
+          >
+            Set severity
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            placeholder="tag1, tag2"
+            className="w-32 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => startAction({ type: 'add_tags', tags })}
+            disabled={isResolving || tags.length === 0}
+            className={buttonClass}
+            title="Add tags"
+          >
+            <Plus className="w-4 h-4" />
+            Tags
+          </button>
+          <button
+            onClick={() => startAction({ type: 'remove_tags', tags })}
+            disabled={isResolving || tags.length === 0}
+            className={buttonClass}
+            title="Remove tags"
+          >
+            <Minus className="w-4 h-4" />
+            Tags
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(Number(e.target.value))}
+            title="Days to shift (negative moves earlier)"
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => startAction({ type: 'shift_deadline', days: shiftDays })}
+            disabled={isResolving || !Number.isInteger(shiftDays) || shiftDays === 0}
+            className={buttonClass}
+          >
+            <CalendarClock className="w-4 h-4" />
+            Shift deadlines
+          </button>
+        </div>
+
+        <button onClick={() => startAction({ type: 'archive' })} disabled={isResolving} className={buttonClass}>
+          <Archive className="w-4 h-4" />
+          Archive
+        </button>
+        <button onClick={handleExport} disabled={isResolving} className={buttonClass}>
+          <Download className="w-4 h-4" />
+          Export
+        </button>
+        <button
+          onClick={() => startAction({ type: 'delete' })}
+          disabled={isResolving}
+          className={`${buttonClass} text-red-700 border-red-300 hover:bg-red-50`}
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+
+        {isResolving && <span className="text-sm text-gray-500">Loading selection...</span>}
+        {resolveError && <span className="text-sm text-red-600">{resolveError}</span>}
+
+        <button onClick={onClear} className="ml-auto flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <X className="w-4 h-4" />
+          Clear selection
+        </button>
+      </div>
+
+      {/* Confirmation */}
+      {pending && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Confirm Bulk Action</h2>
+              <button onClick={() => setPending(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {(() => {
+              const previews = pending.alerts.map(alert => ({ alert, preview: previewBulkAction(alert, pending.action, approvalPolicy) }))
+              const skipped = previews.filter(({ preview }) => preview.skipReason).length
+              return (
+                <>
+                  <div className="px-6 py-4 space-y-2">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{describeBulkAction(pending.action)}</span> on{' '}
+                      {pending.alerts.length - skipped} alert{pending.alerts.length - skipped === 1 ? '' : 's'}
+                    </p>
+                    {skipped > 0 && (
+                      <p className="text-sm text-gray-500">{skipped} selected alerts are unaffected and will be skipped</p>
+                    )}
+                    {pending.action.type === 'delete' && (
+                      <p className="text-sm text-red-600">Deleted alerts cannot be recovered.</p>
+                    )}
+                  </div>
+
+                  <div className="px-6 overflow-y-auto flex-1">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Alert</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {previews.map(({ alert, preview }) => (
+                          <tr key={alert.id} className={preview.skipReason ? 'text-gray-400' : 'text-gray-700'}>
+                            <td className="px-3 py-2">
+                              <span className="font-medium">{alert.token}</span> · {alert.title}
+                            </td>
+                            <td className="px-3 py-2">{preview.before}</td>
+                            <td className="px-3 py-2">{preview.skipReason || preview.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+                    <button
+                      onClick={() => setPending(null)}
+                      className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => runMutation.mutate(pending)}
+                      disabled={runMutation.isPending || skipped === pending.alerts.length}
+                      className={`px-4 py-2 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                        pending.action.type === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                      }`}
+                    >
+                      {runMutation.isPending ? 'Applying...' : `Apply to ${pending.alerts.length - skipped} alerts`}
+                    </button>
+                  </div>
+                </>
+              )
+            })()}
+          </div>
+        </div>
+      )}
+
+      {/* Result report */}
+      {report && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Bulk Action Results</h2>
+              <button onClick={closeReport} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 flex gap-6 text-sm">
+              <span className="text-green-700">Succeeded: {report.filter(row => row.outcome === 'success').length}</span>
+              <span className="text-red-700">Failed: {report.filter(row => row.outcome === 'failed').length}</span>
+              <span className="text-gray-500">Skipped: {report.filter(row => row.outcome === 'skipped').length}</span>
+            </div>
+
+            <div className="px-6 pb-4 overflow-y-auto flex-1">
+              <ul className="divide-y divide-gray-200 text-sm">
+                {report.map(row => (
+                  <li key={row.alert.id} className="py-2 flex items-start gap-2">
+                    {row.outcome === 'failed'
+                      ? <XCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+                      : <CheckCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${row.outcome === 'success' ? 'text-green-600' : 'text-gray-300'}`} />}
+                    <div className="flex-1">
+                      <span className="font-medium text-gray-900">{row.alert.token}</span>{' '}
+                      <span className="text-gray-700">{row.alert.title}</span>
+                      {row.message && <div className={`text-xs ${OUTCOME_STYLES[row.outcome]}`}>{row.message}</div>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="border-t border-gray-200 px-6 py-4 flex justify-end">
+              <button
+                onClick={closeReport}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react'
+import { ChevronDown, Copy, Download, Rss } from 'lucide-react'
+import { fetchAllAlerts } from '../lib/api'
+import { copyOrShow } from '../lib/clipboard'
+import { EXPORT_FORMATS, PUBLIC_FEED_URLS, downloadFile, exportAlerts, exportTimestamp, type ExportAlert, type ExportFormat } from '../lib/alertExport'
+import type { AlertQuery } from '../lib/alertQuery'
+
+interface AlertExportMenuProps {
+  query: AlertQuery           // Current filters; every matching alert is exported, not just the visible page
+}
+
+const FEED_LINKS = [
+  { key: 'ics', label: 'iCalendar' },
+  { key: 'rss', label: 'RSS' },
+  { key: 'atom', label: 'Atom' },
+] as const
+
+export function AlertExportMenu({ query }: AlertExportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+  const [copied, setCopied] = useState<string | null>(null)
+
+  const handleExport = async (format: ExportFormat) => {
+    const { extension, mimeType } = EXPORT_FORMATS.find(f => f.key === format)!
+    setExporting(format)
+    try {
+      const alerts = await fetchAllAlerts<ExportAlert>({ ...query, page: 1 })
+      downloadFile(`alerts-${exportTimestamp()}.${extension}`, exportAlerts(alerts, format), mimeType)
+      setOpen(false)
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { error?: string } } }
+      alert(err.response?.data?.error || 'Failed to export alerts')
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  const handleCopy = async (key: string, url: string) => {
+    if (!(await copyOrShow(url, 'feed URL'))) return
+    setCopied(key)
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg border border-gray-300 transition"
+      >
+        <Download className="w-5 h-5" />
+        Export
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          <div className="p-2">
+            <p className="px-2 py-1 text-xs text-gray-500">Download alerts matching the current filters</p>
+            {EXPORT_FORMATS.map(format => (
+              <button
+                key={format.key}
+                onClick={() => handleExport(format.key)}
+                disabled={exporting !== null}
+                className="w-full flex items-center justify-between px-2 py-1.5 text-sm text-gray-700 rounded hover:bg-gray-100 disabled:opacity-50"
+              >
+                {format.label}
+                <span className="text-xs text-gray-400">
+                  {exporting === format.key ? 'Exporting...' : `${format.publishedOnly ? 'published only, ' : ''}.${format.extension}`}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          {/* Partner feeds are public and only list published alerts, regardless of filters */}
+          <div className="p-2 border-t border-gray-200">
+            <p className="flex items-center gap-1 px-2 py-1 text-xs text-gray-500">
+              <Rss className="w-3 h-3 text-orange-500" />
+              Public feeds (published alerts only)
+            </p>
+            {FEED_LINKS.map(feed => (
+              <div key={feed.key} className="flex items-center gap-2 px-2 py-1 text-sm">
+                <span className="w-16 text-gray-700">{feed.label}</span>
+                <code className="flex-1 text-xs text-gray-500 truncate">{PUBLIC_FEED_URLS[feed.key]}</code>
+                <button
+                  onClick={() => handleCopy(feed.key, PUBLIC_FEED_URLS[feed.key])}
+                  className="flex items-center gap-1 text-xs text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  <Copy className="w-3 h-3" />
+                  {copied === feed.key ? 'Copied' : 'Copy'}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { History, RotateCcw, User, X } from 'lucide-react'
+import { fetchAlertRevisions, revertAlert } from '../lib/api'
+import { diffRevisions } from '../lib/alertRevisions'
+
+interface AlertHistoryModalProps {
+  alertId: string | number
+  alertTitle: string
+  onClose: () => void
+}
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function AlertHistoryModal({ alertId, alertTitle, onClose }: AlertHistoryModalProps) {
+  const queryClient = useQueryClient()
+  const [fromId, setFromId] = useState<number | null>(null)
+  const [toId, setToId] = useState<number | null>(null)
+
+  const { data: revisions = [], isLoading, error } = useQuery({
+    queryKey: ['alert-revisions', alertId],
+    queryFn: () => fetchAlertRevisions(alertId),
+  })
+
+  const revertMutation = useMutation({
+    mutationFn: (revisionId: number) => revertAlert(alertId, revisionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['alert-revisions', alertId] })
+      setFromId(null)
+      setToId(null)
+    },
+    onError: () => {
+      alert('Failed to revert alert. Please try again.')
+    },
+  })
+
+  // Default comparison: the previous revision against the current one
+  const latest = revisions[0]
+  const to = revisions.find(r => r.id === toId) || latest
+  const from = revisions.find(r => r.id === fromId) || revisions[1] || latest
+  const fieldDiffs = from && to ? diffRevisions(from, to) : []
+
+  const handleRevert = (revisionId: number, revision: number) => {
+    if (confirm(`Revert this alert to revision ${revision}? The current version stays in the history.`)) {
+      revertMutation.mutate(revisionId)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <History className="w-6 h-6 text-gray-500" />
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Revision History</h2>
+              <p className="text-sm text-gray-500">{alertTitle}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error ? (
+            <div className="text-center text-red-600">Failed to load revisions</div>
+          ) : isLoading ? (
+            <div className="text-center text-gray-500">Loading revisions...</div>
+          ) : revisions.length === 0 ? (
+            <div className="text-center text-gray-500">No revisions recorded for this alert yet</div>
+          ) : (
+            <>
+              {/* Comparison */}
+              <div className="space-y-3">
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="text-gray-600">Compare</span>
+                  <select
+                    value={from?.id}
+                    onChange={(e) => setFromId(Number(e.target.value))}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    {revisions.map(r => (
+                      <option key={r.id} value={r.id}>Revision {r.revision}</option>
+                    ))}
+                  </select>
+                  <span className="text-gray-600">with</span>
+                  <select
+                    value={to?.id}
+                    onChange={(e) => setToId(Number(e.target.value))}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    {revisions.map(r => (
+                      <option key={r.id} value={r.id}>Revision {r.revision}{r.id === latest.id ? ' (current)' : ''}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="border border-gray-200 rounded-lg overflow-hidden">
+                  <table className="w-full text-sm table-fixed">
+                    <thead className="bg-gray-50 border-b border-gray-200">
+                      <tr>
+                        <th className="w-28 px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Field</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Revision {from?.revision}
+                        </th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          Revision {to?.revision}
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {fieldDiffs.map(diff => (
+                        <tr key={diff.key} className={diff.changed ? 'bg-yellow-50/50' : ''}>
+                          <td className="px-4 py-3 align-top font-medium text-gray-700">{diff.label}</td>
+                          <td className="px-4 py-3 align-top text-gray-700 whitespace-pre-wrap break-words">
+                            {diff.parts.filter(part => part.type !== 'added').map((part, i) => (
+                              <span key={i} className={part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : ''}>
+                                {part.text}
+                              </span>
+                            ))}
+                            {!diff.before && <span className="text-gray-400 italic">empty</span>}
+                          </td>
+                          <td className="px-4 py-3 align-top text-gray-700 whitespace-pre-wrap break-words">
+                            {diff.parts.filter(part => part.type !== 'removed').map((part, i) => (
+                              <span key={i} className={part.type === 'added' ? 'bg-green-100 text-green-800' : ''}>
+                                {part.text}
+                              </span>
+                            ))}
+                            {!diff.after && <span className="text-gray-400 italic">empty</span>}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Revision List */}
+              <div>
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">All Revisions</h3>
+                <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                  {revisions.map(r => (
+                    <div key={r.id} className="flex items-center justify-between px-4 py-3">
+                      <div>
+                        <div className="text-sm font-medium text-gray-900">
+                          Revision {r.revision}
+                          {r.id === latest.id && (
+                            <span className="ml-2 px-2 py-0.5 text-xs font-medium rounded-full bg-green-100 text-green-800">current</span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                          <span className="flex items-center gap-1">
+                            <User className="w-3 h-3" />
+                            {r.edited_by || 'Unknown admin'}
+                          </span>
+                          <span>{formatDateTime(r.created_at)}</span>
+                          <span className="truncate max-w-xs">{r.snapshot.severity} · {r.snapshot.title}</span>
+                        </div>
+                      </div>
+                      {r.id !== latest.id && (
+                        <button
+                          onClick={() => handleRevert(r.id, r.revision)}
+                          disabled={revertMutation.isPending}
+                          className="flex items-center gap-2 px-3 py-1.5 text-sm text-primary-600 hover:text-primary-700 hover:bg-gray-50 rounded-lg transition disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Revert
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
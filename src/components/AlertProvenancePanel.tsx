@@ -0,0 +1,146 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ExternalLink, Link2, Newspaper, X } from 'lucide-react'
+import { fetchAlertSources, fetchNewsCache, linkAlertSources, unlinkAlertSource } from '../lib/api'
+
+interface AlertProvenancePanelProps {
+  alertId: string | number
+  token: string               // Primary token; articles mentioning it are offered as sources
+}
+
+const SENTIMENT_STYLES = {
+  positive: 'text-green-600',
+  neutral: 'text-gray-600',
+  negative: 'text-red-600',
+}
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+
+/**
+ * The news articles an alert was based on, with controls to link more or remove one
+ */
+export function AlertProvenancePanel({ alertId, token }: AlertProvenancePanelProps) {
+  const queryClient = useQueryClient()
+  const [articleUrl, setArticleUrl] = useState('')
+
+  const { data: sources = [], isLoading, error } = useQuery({
+    queryKey: ['alert-sources', alertId],
+    queryFn: () => fetchAlertSources(alertId),
+  })
+
+  // Same key and window as the News Feed, so the cache is shared
+  const { data: articles = [] } = useQuery({
+    queryKey: ['news-cache', token],
+    queryFn: () => fetchNewsCache({ token, days: 120 }),
+    enabled: Boolean(token),
+  })
+  const linkedUrls = new Set(sources.map(source => source.article_url))
+  const candidates = articles.filter(article => !linkedUrls.has(article.article_url))
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['alert-sources', alertId] })
+    queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+  }
+
+  const linkMutation = useMutation({
+    mutationFn: (url: string) => linkAlertSources(alertId, [url]),
+    onSuccess: () => {
+      invalidate()
+      setArticleUrl('')
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to link article')
+    },
+  })
+
+  const unlinkMutation = useMutation({
+    mutationFn: (url: string) => unlinkAlertSource(alertId, url),
+    onSuccess: invalidate,
+  })
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">
+        <Newspaper className="w-4 h-4 text-gray-500" />
+        Sources
+        <span className="text-gray-500 font-normal">({sources.length})</span>
+      </div>
+
+      <div className="p-4 space-y-3">
+        {error ? (
+          <p className="text-sm text-red-600">Error loading sources</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Loading sources...</p>
+        ) : sources.length === 0 ? (
+          <p className="text-sm text-gray-500">Not linked to any news article</p>
+        ) : (
+          <ul className="space-y-2">
+            {sources.map(source => (
+              <li key={source.article_url} className="flex items-start gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <a
+                    href={source.article_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 font-medium text-gray-900 hover:text-primary-600"
+                  >
+                    <span className="truncate">{source.title}</span>
+                    <ExternalLink className="w-3 h-3 flex-shrink-0" />
+                  </a>
+                  <div className="flex items-center gap-2 text-xs text-gray-500 mt-0.5">
+                    <span>{source.source_name}</span>
+                    <span>•</span>
+                    <span>{formatDate(source.date)}</span>
+                    {source.sentiment && (
+                      <>
+                        <span>•</span>
+                        <span className={`font-medium ${SENTIMENT_STYLES[source.sentiment]}`}>{source.sentiment}</span>
+                      </>
+                    )}
+                    {!source.in_cache && <span className="text-gray-400">(no longer in news cache)</span>}
+                    {source.linked_by && <span className="text-gray-400">linked by {source.linked_by}</span>}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => unlinkMutation.mutate(source.article_url)}
+                  disabled={unlinkMutation.isPending}
+                  className="text-gray-400 hover:text-red-600"
+                  title="Remove source"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={articleUrl}
+            onChange={(e) => setArticleUrl(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          >
+            <option value="">{candidates.length > 0 ? `Link a ${token} article...` : `No other ${token} articles in the news cache`}</option>
+            {candidates.map(article => (
+              <option key={article.article_url} value={article.article_url}>
+                {formatDate(article.date)} · {article.source_name} · {article.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => linkMutation.mutate(articleUrl)}
+            disabled={!articleUrl || linkMutation.isPending}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Link2 className="w-4 h-4" />
+            Link
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, Bell, Smartphone, Users } from 'lucide-react'
+import { fetchAdminStats, fetchAdminUsers } from '../lib/api'
+import { ALERT_DISPLAY_LIMITS, computeAlertReach, truncateForDisplay } from '../lib/alertReach'
+import { markdownToPlainText } from '../lib/markdown'
+import { MarkdownPreview } from './MarkdownEditor'
+
+interface AlertReachPanelProps {
+  tokens: string[]            // Primary first
+  title: string
+  body: string                // Markdown
+  severity: 'critical' | 'warning' | 'info'
+}
+
+const SEVERITY_CARD_STYLES = {
+  critical: 'border-red-500 bg-red-50',
+  warning: 'border-yellow-500 bg-yellow-50',
+  info: 'border-blue-500 bg-blue-50',
+}
+
+export function AlertReachPanel({ tokens, title, body, severity }: AlertReachPanelProps) {
+  const { data: stats, isLoading } = useQuery({
+    queryKey: ['admin-stats'],
+    queryFn: fetchAdminStats,
+  })
+  // Only needed for the Google/anonymous split; reach totals still show if it fails
+  const { data: usersData } = useQuery({
+    queryKey: ['users'],
+    queryFn: fetchAdminUsers,
+  })
+
+  const reach = computeAlertReach(tokens, stats?.users.watchlistTokens || {}, usersData?.users)
+  const unwatched = reach.tokens.filter(t => t.watchers === 0).map(t => t.token)
+
+  const pushTitle = truncateForDisplay(tokens.length > 0 ? `${tokens[0]}: ${title}` : title, ALERT_DISPLAY_LIMITS.push.title)
+  // Push notifications can't render Markdown, so they get the plain-text fallback
+  const plainBody = markdownToPlainText(body)
+  const pushBody = truncateForDisplay(plainBody, ALERT_DISPLAY_LIMITS.push.body)
+  const cardTitle = truncateForDisplay(title, ALERT_DISPLAY_LIMITS.card.title)
+  const cardBody = truncateForDisplay(plainBody, ALERT_DISPLAY_LIMITS.card.body)
+
+  return (
+    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+      {/* Reach */}
+      <div className="p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <Users className="w-4 h-4 text-gray-500" />
+          Audience Reach
+          {reach.unique && (
+            <span className="ml-auto text-gray-600 font-normal">
+              {reach.unique.total} unique users ({reach.unique.google} Google, {reach.unique.anonymous} anonymous)
+            </span>
+          )}
+        </div>
+
+        {tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">Add a token to see who will receive this alert</p>
+        ) : isLoading ? (
+          <p className="text-sm text-gray-500">Loading watchlist stats...</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 uppercase">
+                <th className="text-left font-medium py-1">Token</th>
+                <th className="text-right font-medium py-1">Watchers</th>
+                <th className="text-right font-medium py-1">Google</th>
+                <th className="text-right font-medium py-1">Anonymous</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reach.tokens.map(t => (
+                <tr key={t.token} className={t.watchers === 0 ? 'text-gray-400' : 'text-gray-700'}>
+                  <td className="py-1 font-medium">{t.token}</td>
+                  <td className="py-1 text-right">{t.watchers}</td>
+                  <td className="py-1 text-right">{t.google ?? '–'}</td>
+                  <td className="py-1 text-right">{t.anonymous ?? '–'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {severity === 'critical' && !isLoading && unwatched.length > 0 && (
+          <div className="flex items-start gap-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>
+              Critical alert targets {unwatched.join(', ')}, which no user watches. Nobody will be notified about
+              {unwatched.length === 1 ? ' this token' : ' these tokens'}.
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Previews */}
+      <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <div className="flex items-center gap-1 text-xs font-medium text-gray-500 uppercase mb-2">
+            <Smartphone className="w-3 h-3" />
+            Push Notification
+          </div>
+          <div className="p-3 bg-gray-100 rounded-xl shadow-sm">
+            <div className="flex items-center gap-2 text-xs text-gray-500 mb-1">
+              <Bell className="w-3 h-3" />
+              CLG · now
+            </div>
+            <div className="text-sm font-semibold text-gray-900 break-words">{pushTitle.text || 'Alert title'}</div>
+            {pushBody.text && <div className="text-sm text-gray-700 break-words">{pushBody.text}</div>}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs font-medium text-gray-500 uppercase mb-2">In-App Card</div>
+          <div className={`p-3 rounded-lg border-l-4 ${SEVERITY_CARD_STYLES[severity]}`}>
+            <div className="flex items-center gap-1 mb-1">
+              {tokens.map(token => (
+                <span key={token} className="px-1.5 py-0.5 bg-white text-gray-700 text-xs font-medium rounded">{token}</span>
+              ))}
+              <span className="ml-auto text-xs uppercase text-gray-500">{severity}</span>
+            </div>
+            <div className="text-sm font-semibold text-gray-900 break-words">{cardTitle.text || 'Alert title'}</div>
+            {cardBody.text && (
+              <div className="mt-1">
+                {cardBody.truncated
+                  ? <div className="text-sm text-gray-700 break-words">{cardBody.text}</div>
+                  : <MarkdownPreview source={body} />}
+              </div>
+            )}
+          </div>
+        </div>
+        {(pushTitle.truncated || pushBody.truncated || cardTitle.truncated || cardBody.truncated) && (
+          <p className="md:col-span-2 text-xs text-amber-700">
+            Text is cut off on devices: push shows {ALERT_DISPLAY_LIMITS.push.title}/{ALERT_DISPLAY_LIMITS.push.body} characters
+            of title/body, the in-app card {ALERT_DISPLAY_LIMITS.card.title}/{ALERT_DISPLAY_LIMITS.card.body}.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,60 @@
+import { useQuery } from '@tanstack/react-query'
+import { CheckCircle, MessageSquareWarning, Send } from 'lucide-react'
+import { fetchAlertApprovals } from '../lib/api'
+import type { AlertApprovalDecision } from '../types'
+
+interface ApprovalHistoryProps {
+  alertId: string | number
+}
+
+const DECISION_STYLES: Record<AlertApprovalDecision['decision'], { label: string; icon: typeof Send; color: string }> = {
+  submitted: { label: 'submitted for approval', icon: Send, color: 'text-gray-500' },
+  approved: { label: 'approved', icon: CheckCircle, color: 'text-green-600' },
+  changes_requested: { label: 'requested changes', icon: MessageSquareWarning, color: 'text-rose-600' },
+}
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Every submission and review decision on an alert, oldest first
+ */
+export function ApprovalHistory({ alertId }: ApprovalHistoryProps) {
+  const { data: decisions = [], isLoading, error } = useQuery({
+    queryKey: ['alert-approvals', alertId],
+    queryFn: () => fetchAlertApprovals(alertId),
+  })
+
+  if (error) return <p className="text-sm text-red-600">Error loading review history</p>
+  if (isLoading) return <p className="text-sm text-gray-500">Loading review history...</p>
+  if (decisions.length === 0) return <p className="text-sm text-gray-500">No review history yet</p>
+
+  return (
+    <ol className="space-y-2">
+      {decisions.map(decision => {
+        const style = DECISION_STYLES[decision.decision]
+        const Icon = style.icon
+        return (
+          <li key={decision.id} className="flex items-start gap-2 text-sm">
+            <Icon className={`w-4 h-4 mt-0.5 flex-shrink-0 ${style.color}`} />
+            <div>
+              <span className="font-medium text-gray-900">{decision.decided_by}</span>{' '}
+              <span className="text-gray-600">{style.label}</span>{' '}
+              <span className="text-xs text-gray-400">{formatDateTime(decision.created_at)}</span>
+              {decision.comment && (
+                <p className="mt-0.5 text-gray-700 whitespace-pre-wrap">{decision.comment}</p>
+              )}
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
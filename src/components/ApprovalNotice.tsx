@@ -0,0 +1,28 @@
+import { ShieldCheck } from 'lucide-react'
+
+interface ApprovalNoticeProps {
+  severity?: 'critical' | 'warning' | 'info'
+  count?: number              // Replaces the severity when saving several alerts at once
+}
+
+/**
+ * Shown in alert forms when saving will submit the alert for approval instead of publishing it
+ */
+export function ApprovalNotice({ severity, count }: ApprovalNoticeProps) {
+  return (
+    <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+      <ShieldCheck className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      {count !== undefined ? (
+        <span>
+          {count === 1 ? '1 alert needs' : `${count} alerts need`} a second admin's approval.
+          Saving submits {count === 1 ? 'it' : 'them'} to the review queue; {count === 1 ? 'it goes' : 'they go'} live once another admin approves.
+        </span>
+      ) : (
+        <span>
+          {severity === 'critical' ? 'Critical' : 'Warning'} alerts need a second admin's approval.
+          Saving submits this alert to the review queue; it goes live once another admin approves it.
+        </span>
+      )}
+    </div>
+  )
+}
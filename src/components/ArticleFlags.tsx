@@ -0,0 +1,27 @@
+import { Link } from 'react-router-dom'
+import { Flag } from 'lucide-react'
+import type { ArticleFlag } from '../types'
+
+/**
+ * Watch rules an article matched, each linking to the feed filtered by that rule
+ */
+export function ArticleFlags({ flags }: { flags: ArticleFlag[] }) {
+  if (flags.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-2">
+      {flags.map(flag => (
+        <Link
+          key={flag.rule_id}
+          to={`/news?flagged=${flag.rule_id}&status=all`}
+          onClick={(e) => e.stopPropagation()}
+          title={`Matched ${flag.matched.join(', ')}`}
+          className="inline-flex items-center gap-1 px-2 py-0.5 text-xs font-medium bg-amber-50 text-amber-800 border border-amber-200 rounded hover:bg-amber-100"
+        >
+          <Flag className="w-3 h-3" />
+          {flag.rule_name}
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,662 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { AlertCircle, ArrowLeft, ArrowRight, CheckCircle, Download, FileText, Info, X } from 'lucide-react'
+import { api, fetchApprovalPolicy } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY, resolveSubmitStatus } from '../lib/alertApproval'
+import { markdownToPlainText } from '../lib/markdown'
+import {
+  ALERT_IMPORT_FIELDS,
+  buildImportRows,
+  guessColumnMapping,
+  readImportTable,
+  toAlertPayload,
+  validateImportRow,
+  type AlertImportField,
+  type AlertImportPayload,
+  type ColumnMapping,
+  type ImportRow,
+  type ImportTable,
+} from '../lib/alertImport'
+import { diffAlerts, mergeIntoExisting, retargetEntry, type AlertDiffEntry, type DiffStatus, type ExistingAlert } from '../lib/alertDiff'
+import { ApprovalNotice } from './ApprovalNotice'
+
+interface BulkUploadModalProps {
+  onClose: () => void
+  onDownloadTemplate: () => void
+}
+
+type Step = 'select' | 'map' | 'preview' | 'diff'
+
+// The stored plain-text body has to follow any change to the description
+type AlertUpdate = ExistingAlert & { body_plain: string }
+
+const DIFF_STATUS_STYLES: Record<DiffStatus, { label: string; badge: string }> = {
+  created: { label: 'New', badge: 'bg-green-100 text-green-800' },
+  updated: { label: 'Changed', badge: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', badge: 'bg-gray-100 text-gray-700' },
+  conflict: { label: 'Conflict', badge: 'bg-red-100 text-red-800' },
+}
+
+export function BulkUploadModal({ onClose, onDownloadTemplate }: BulkUploadModalProps) {
+  const queryClient = useQueryClient()
+  const [step, setStep] = useState<Step>('select')
+  const [uploadFile, setUploadFile] = useState<File | null>(null)
+  const [table, setTable] = useState<ImportTable | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>([])
+  const [rows, setRows] = useState<ImportRow[]>([])
+  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle')
+  const [uploadMessage, setUploadMessage] = useState('')
+  const [dryRun, setDryRun] = useState(true)
+  const [diff, setDiff] = useState<AlertDiffEntry[]>([])
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set())
+  const [diffFilter, setDiffFilter] = useState<DiffStatus | 'all'>('all')
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+
+  // Imported alerts go live straight away unless their severity needs approval
+  const toCreate = (payload: AlertImportPayload): AlertImportPayload => ({
+    ...payload,
+    status: resolveSubmitStatus({ severity: payload.severity, status: 'published' }, approvalPolicy),
+  })
+  // An update keeps the alert's status unless it raises a live alert into a severity that needs approval
+  const toUpdate = (existing: ExistingAlert, payload: AlertImportPayload): AlertUpdate => {
+    const merged = mergeIntoExisting(existing, payload)
+    return {
+      ...merged,
+      body_plain: markdownToPlainText(merged.description || ''),
+      status: resolveSubmitStatus({ severity: merged.severity, status: existing.status || 'published' }, approvalPolicy, existing),
+    }
+  }
+
+  const bulkUploadMutation = useMutation({
+    mutationFn: async (alerts: AlertImportPayload[]) => {
+      const { data } = await api.post('/api/alerts/bulk', { alerts })
+      return data
+    },
+    onSuccess: (data) => {
+      setUploadStatus('success')
+      setUploadMessage(`Successfully imported ${data.imported} alerts`)
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      setTimeout(onClose, 3000)
+    },
+    onError: (error: { response?: { data?: { error?: string } } }) => {
+      setUploadStatus('error')
+      setUploadMessage(error.response?.data?.error || 'Failed to upload alerts')
+    },
+  })
+
+  // Commits the rows chosen in the dry run: new alerts go through the bulk
+  // endpoint, changed ones are updated in place
+  const commitDiffMutation = useMutation({
+    mutationFn: async ({ creates, updates }: { creates: AlertImportPayload[]; updates: AlertUpdate[] }) => {
+      let created = 0
+      if (creates.length > 0) {
+        const { data } = await api.post('/api/alerts/bulk', { alerts: creates })
+        created = data.imported ?? creates.length
+      }
+      const results = await Promise.allSettled(updates.map(alert => api.put(`/api/alerts/${alert.id}`, alert)))
+      const failed = results.filter(result => result.status === 'rejected').length
+      return { created, updated: updates.length - failed, failed }
+    },
+    onSuccess: ({ created, updated, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      if (failed > 0) {
+        setUploadStatus('error')
+        setUploadMessage(`Created ${created} and updated ${updated} alerts; ${failed} updates failed`)
+        return
+      }
+      setUploadStatus('success')
+      setUploadMessage(`Created ${created} and updated ${updated} alerts`)
+      setTimeout(onClose, 3000)
+    },
+    onError: (error: { response?: { data?: { error?: string } } }) => {
+      setUploadStatus('error')
+      setUploadMessage(error.response?.data?.error || 'Failed to commit alerts')
+    },
+  })
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setUploadFile(file)
+      setUploadStatus('idle')
+      setUploadMessage('')
+    }
+  }
+
+  const handleReadFile = async () => {
+    if (!uploadFile) return
+
+    try {
+      const parsed = readImportTable(uploadFile.name, await uploadFile.text())
+      if (parsed.records.length === 0) {
+        setUploadStatus('error')
+        setUploadMessage('The file does not contain any alert rows')
+        return
+      }
+      setTable(parsed)
+      setMapping(guessColumnMapping(parsed.headers))
+      setUploadStatus('idle')
+      setStep('map')
+    } catch (error) {
+      setUploadStatus('error')
+      setUploadMessage(error instanceof Error ? `Failed to parse file: ${error.message}` : 'Failed to parse file')
+    }
+  }
+
+  const handleMappingChange = (column: number, field: AlertImportField | null) => {
+    // A field can only be fed by one column, so release it from any other column
+    setMapping(mapping.map((current, index) => {
+      if (index === column) return field
+      return field && current === field ? null : current
+    }))
+  }
+
+  const missingRequired = ALERT_IMPORT_FIELDS.filter(field => field.required && !mapping.includes(field.key))
+
+  const handleConfirmMapping = () => {
+    if (!table) return
+    setRows(buildImportRows(table, mapping))
+    setStep('preview')
+  }
+
+  const updateRow = (line: number, changes: Partial<ImportRow>) => {
+    setRows(rows.map(row => row.line === line ? { ...row, ...changes } : row))
+  }
+
+  const updateCell = (row: ImportRow, field: AlertImportField, value: string) => {
+    updateRow(row.line, { values: { ...row.values, [field]: value } })
+  }
+
+  const rowErrors = new Map(rows.map(row => [row.line, validateImportRow(row.values)]))
+  const isValid = (row: ImportRow) => Object.keys(rowErrors.get(row.line) || {}).length === 0
+  const invalidRows = rows.filter(row => !isValid(row))
+  const uploadableRows = rows.filter(row => !row.skip && isValid(row))
+  const blockingRows = rows.filter(row => !row.skip && !isValid(row))
+  const previewFields = ALERT_IMPORT_FIELDS.filter(field => field.required || mapping.includes(field.key))
+
+  const handleSkipInvalid = () => {
+    setRows(rows.map(row => isValid(row) ? row : { ...row, skip: true }))
+  }
+
+  const handleUpload = () => {
+    if (uploadableRows.length === 0 || blockingRows.length > 0) return
+    setUploadStatus('uploading')
+    setUploadMessage('')
+    bulkUploadMutation.mutate(uploadableRows.map(row => toCreate(toAlertPayload(row.values))))
+  }
+
+  const handleDryRun = async () => {
+    if (uploadableRows.length === 0 || blockingRows.length > 0) return
+    setUploadStatus('uploading')
+    setUploadMessage('Comparing with existing alerts...')
+
+    try {
+      // The comparison needs every alert, not the current table page
+      const existing = await queryClient.fetchQuery({
+        queryKey: ['alerts', 'all'],
+        queryFn: async () => {
+          const { data } = await api.get('/api/alerts')
+          return data as ExistingAlert[]
+        },
+      })
+      const entries = diffAlerts(
+        uploadableRows.map(row => ({ line: row.line, payload: toAlertPayload(row.values) })),
+        existing
+      )
+      setDiff(entries)
+      // New and changed rows are committed by default; conflicts need an explicit opt-in and unchanged rows are never rewritten
+      setSelectedLines(new Set(entries.filter(entry => entry.status === 'created' || entry.status === 'updated').map(entry => entry.line)))
+      setDiffFilter('all')
+      setUploadStatus('idle')
+      setUploadMessage('')
+      setStep('diff')
+    } catch (error) {
+      setUploadStatus('error')
+      setUploadMessage(error instanceof Error ? `Failed to load existing alerts: ${error.message}` : 'Failed to load existing alerts')
+    }
+  }
+
+  const toggleLine = (line: number, selected: boolean) => {
+    const next = new Set(selectedLines)
+    if (selected) {
+      next.add(line)
+    } else {
+      next.delete(line)
+    }
+    setSelectedLines(next)
+  }
+
+  // Turn a new row into an update of the near-duplicate the admin picked
+  const handleUseExisting = (entry: AlertDiffEntry, existing: ExistingAlert) => {
+    const retargeted = retargetEntry(entry, existing)
+    setDiff(diff.map(e => e.line === entry.line ? retargeted : e))
+    toggleLine(entry.line, retargeted.status === 'updated')
+  }
+
+  const diffCounts = diff.reduce((counts, entry) => {
+    counts[entry.status] += 1
+    return counts
+  }, { created: 0, updated: 0, unchanged: 0, conflict: 0 } as Record<DiffStatus, number>)
+  const visibleDiff = diffFilter === 'all' ? diff : diff.filter(entry => entry.status === diffFilter)
+  const selectedDiff = diff.filter(entry => selectedLines.has(entry.line))
+
+  // Conflicting rows are only ever created as new alerts, never merged into an ambiguous match
+  const diffCreates = selectedDiff
+    .filter(entry => entry.status === 'created' || entry.status === 'conflict')
+    .map(entry => toCreate(entry.payload))
+  const diffUpdates = selectedDiff
+    .filter(entry => entry.status === 'updated' && entry.existing)
+    .map(entry => toUpdate(entry.existing!, entry.payload))
+  const pendingApprovalCount = step === 'diff'
+    ? [...diffCreates, ...diffUpdates].filter(alert => alert.status === 'pending_approval').length
+    : dryRun ? 0 : uploadableRows.filter(row => toCreate(toAlertPayload(row.values)).status === 'pending_approval').length
+
+  const handleCommitDiff = () => {
+    if (selectedDiff.length === 0) return
+    setUploadStatus('uploading')
+    setUploadMessage('')
+    commitDiffMutation.mutate({ creates: diffCreates, updates: diffUpdates })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className={`bg-white rounded-lg shadow-xl w-full max-h-[90vh] overflow-y-auto ${step === 'preview' || step === 'diff' ? 'max-w-6xl' : 'max-w-2xl'}`}>
+        <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Bulk Upload Alerts</h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {step === 'select' && `Step 1 of ${dryRun ? 4 : 3}: Choose a file`}
+              {step === 'map' && `Step 2 of ${dryRun ? 4 : 3}: Map columns to alert fields`}
+              {step === 'preview' && `Step 3 of ${dryRun ? 4 : 3}: Review and fix rows`}
+              {step === 'diff' && 'Step 4 of 4: Dry run against existing alerts'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {step === 'select' && (
+            <>
+              {/* Instructions */}
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                <div className="flex gap-3">
+                  <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+                  <div className="text-sm text-blue-900">
+                    <p className="font-medium mb-2">Upload Format Requirements:</p>
+                    <ul className="list-disc list-inside space-y-1 text-blue-800">
+                      <li><strong>JSON:</strong> Array of alert objects</li>
+                      <li><strong>CSV:</strong> Header row followed by one alert per row; quoted fields may contain commas, quotes and line breaks</li>
+                      <li><strong>Columns:</strong> Any names; you map them to primary token, tokens, title, description, severity, tags and deadline in the next step</li>
+                      <li><strong>Severity:</strong> Must be one of: info, warning, critical</li>
+                      <li><strong>Tags:</strong> Separated by commas, semicolons or pipes</li>
+                      <li><strong>Deadline:</strong> ISO 8601 date format (YYYY-MM-DDTHH:mm:ss.sssZ)</li>
+                    </ul>
+                  </div>
+                </div>
+              </div>
+
+              {/* Sample Download */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Download Sample Template
+                </label>
+                <button
+                  onClick={onDownloadTemplate}
+                  className="flex items-center gap-2 text-primary-600 hover:text-primary-700 font-medium"
+                >
+                  <Download className="w-4 h-4" />
+                  Download current alerts as CSV template
+                </button>
+              </div>
+
+              {/* File Upload */}
+              <div>
+                <label htmlFor="file-upload" className="block text-sm font-medium text-gray-700 mb-2">
+                  Select File
+                </label>
+                <label
+                  htmlFor="file-upload"
+                  className="flex items-center justify-center gap-2 px-4 py-8 border-2 border-dashed border-gray-300 rounded-lg hover:border-primary-500 cursor-pointer transition"
+                >
+                  <FileText className="w-8 h-8 text-gray-400" />
+                  <div className="text-center">
+                    <span className="text-gray-600">
+                      {uploadFile ? uploadFile.name : 'Choose a JSON or CSV file'}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      or drag and drop
+                    </p>
+                  </div>
+                  <input
+                    id="file-upload"
+                    type="file"
+                    accept=".json,.csv"
+                    onChange={handleFileChange}
+                    className="sr-only"
+                  />
+                </label>
+              </div>
+            </>
+          )}
+
+          {step === 'map' && table && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Found {table.headers.length} columns and {table.records.length} rows in <strong>{uploadFile?.name}</strong>.
+                Choose which alert field each column fills, or ignore it.
+              </p>
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {table.headers.map((header, column) => (
+                  <div key={column} className="flex items-center justify-between gap-4 px-4 py-3">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900">{header || `Column ${column + 1}`}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        e.g. {table.records[0]?.[column] || '(empty)'}
+                      </div>
+                    </div>
+                    <select
+                      value={mapping[column] || ''}
+                      onChange={(e) => handleMappingChange(column, (e.target.value || null) as AlertImportField | null)}
+                      className="w-48 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Ignore column</option>
+                      {ALERT_IMPORT_FIELDS.map(field => (
+                        <option key={field.key} value={field.key}>
+                          {field.label}{field.required ? ' *' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <div className="p-4 rounded-lg flex items-center gap-3 bg-yellow-50 text-yellow-800">
+                  <AlertCircle className="w-5 h-5" />
+                  <span className="text-sm font-medium">
+                    Not mapped: {missingRequired.map(field => field.label).join(', ')}. You can fill these in on the next step.
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === 'preview' && (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-6 text-sm text-gray-600">
+                  <span>Rows: {rows.length}</span>
+                  <span className="text-green-700">Ready: {uploadableRows.length}</span>
+                  <span className="text-red-700">Invalid: {invalidRows.length}</span>
+                  <span>Skipped: {rows.filter(row => row.skip).length}</span>
+                </div>
+                {blockingRows.length > 0 && (
+                  <button
+                    onClick={handleSkipInvalid}
+                    className="text-sm text-primary-600 hover:text-primary-700 font-medium"
+                  >
+                    Skip all invalid rows
+                  </button>
+                )}
+              </div>
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b border-gray-200">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Skip</th>
+                      {previewFields.map(field => (
+                        <th key={field.key} className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {field.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {rows.map(row => {
+                      const errors = rowErrors.get(row.line) || {}
+                      return (
+                        <tr key={row.line} className={row.skip ? 'bg-gray-50 opacity-60' : isValid(row) ? '' : 'bg-red-50'}>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                            <div className="flex items-center gap-1">
+                              {isValid(row)
+                                ? <CheckCircle className="w-4 h-4 text-green-600" />
+                                : <AlertCircle className="w-4 h-4 text-red-600" />}
+                              {row.line}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={row.skip}
+                              onChange={(e) => updateRow(row.line, { skip: e.target.checked })}
+                              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                            />
+                          </td>
+                          {previewFields.map(field => (
+                            <td key={field.key} className="px-3 py-2 align-top">
+                              <input
+                                type="text"
+                                value={row.values[field.key] || ''}
+                                onChange={(e) => updateCell(row, field.key, e.target.value)}
+                                disabled={row.skip}
+                                title={errors[field.key]}
+                                className={`w-full min-w-[8rem] px-2 py-1 border rounded focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none ${
+                                  errors[field.key] ? 'border-red-400 bg-red-50' : 'border-gray-300'
+                                }`}
+                              />
+                              {errors[field.key] && !row.skip && (
+                                <p className="text-xs text-red-600 mt-1">{errors[field.key]}</p>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Dry run: compare with existing alerts before anything is written
+              </label>
+            </div>
+          )}
+
+          {step === 'diff' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setDiffFilter('all')}
+                  className={`px-3 py-1 text-sm rounded-full border ${diffFilter === 'all' ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                >
+                  All ({diff.length})
+                </button>
+                {(Object.keys(DIFF_STATUS_STYLES) as DiffStatus[]).map(status => (
+                  <button
+                    key={status}
+                    onClick={() => setDiffFilter(status)}
+                    className={`px-3 py-1 text-sm rounded-full border ${diffFilter === status ? 'bg-gray-900 text-white border-gray-900' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                  >
+                    {DIFF_STATUS_STYLES[status].label} ({diffCounts[status]})
+                  </button>
+                ))}
+                <span className="ml-auto text-sm text-gray-600">{selectedDiff.length} selected to commit</span>
+              </div>
+
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                {visibleDiff.length === 0 ? (
+                  <div className="p-6 text-center text-sm text-gray-500">No rows in this group</div>
+                ) : visibleDiff.map(entry => (
+                  <div key={entry.line} className="p-4 flex gap-4">
+                    <input
+                      type="checkbox"
+                      checked={selectedLines.has(entry.line)}
+                      onChange={(e) => toggleLine(entry.line, e.target.checked)}
+                      disabled={entry.status === 'unchanged'}
+                      className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${DIFF_STATUS_STYLES[entry.status].badge}`}>
+                          {DIFF_STATUS_STYLES[entry.status].label}
+                        </span>
+                        <span className="text-xs text-gray-500">Row {entry.line}</span>
+                        <span className="text-sm font-medium text-gray-900">{entry.payload.token}</span>
+                        <span className="text-sm text-gray-700 truncate">{entry.payload.title}</span>
+                      </div>
+                      {entry.reason && (
+                        <p className="text-xs text-red-700">
+                          {entry.reason}. Committing this row creates a new alert.
+                        </p>
+                      )}
+                      {entry.duplicates && entry.duplicates.length > 0 && (
+                        <div className="p-2 bg-amber-50 border border-amber-200 rounded text-xs space-y-1">
+                          <p className="font-medium text-amber-900">Possible duplicate of a recent alert</p>
+                          {entry.duplicates.slice(0, 3).map(({ alert, score }) => (
+                            <div key={alert.id} className="flex items-center gap-2 text-amber-900">
+                              <span className="flex-1 truncate">
+                                #{alert.id} {alert.token} · {alert.title} ({Math.round(score * 100)}% similar)
+                              </span>
+                              <button
+                                onClick={() => handleUseExisting(entry, alert)}
+                                className="px-2 py-0.5 bg-white border border-amber-300 rounded hover:bg-amber-100 whitespace-nowrap"
+                              >
+                                Update #{alert.id} instead
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                      {entry.status === 'unchanged' && (
+                        <p className="text-xs text-gray-500">Matches existing alert #{entry.existing?.id} exactly</p>
+                      )}
+                      {entry.changes.length > 0 && (
+                        <div className="grid grid-cols-[8rem_1fr_auto_1fr] gap-x-3 gap-y-1 text-xs">
+                          <span className="font-medium text-gray-500 uppercase">Field</span>
+                          <span className="font-medium text-gray-500 uppercase">Existing #{entry.existing?.id}</span>
+                          <span />
+                          <span className="font-medium text-gray-500 uppercase">From file</span>
+                          {entry.changes.map(change => (
+                            <div key={change.field} className="contents">
+                              <span className="text-gray-700">{change.field}</span>
+                              <span className="text-red-700 bg-red-50 px-1 rounded break-words">{change.before || '(empty)'}</span>
+                              <ArrowRight className="w-3 h-3 text-gray-400 mt-0.5" />
+                              <span className="text-green-700 bg-green-50 px-1 rounded break-words">{change.after}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {(step === 'preview' || step === 'diff') && pendingApprovalCount > 0 && uploadStatus !== 'success' && (
+            <ApprovalNotice count={pendingApprovalCount} />
+          )}
+
+          {/* Status Message */}
+          {uploadStatus !== 'idle' && (
+            <div className={`p-4 rounded-lg flex items-center gap-3 ${
+              uploadStatus === 'success' ? 'bg-green-50 text-green-800' :
+              uploadStatus === 'error' ? 'bg-red-50 text-red-800' :
+              'bg-blue-50 text-blue-800'
+            }`}>
+              {uploadStatus === 'success' && <Info className="w-5 h-5" />}
+              {uploadStatus === 'error' && <AlertCircle className="w-5 h-5" />}
+              {uploadStatus === 'uploading' && (
+                <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+              )}
+              <span className="font-medium">{uploadMessage || 'Processing...'}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex items-center justify-between gap-3 pt-4 border-t border-gray-200">
+            <div>
+              {step !== 'select' && (
+                <button
+                  type="button"
+                  onClick={() => setStep(step === 'diff' ? 'preview' : step === 'preview' ? 'map' : 'select')}
+                  disabled={uploadStatus === 'uploading'}
+                  className="flex items-center gap-2 px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                  Back
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition"
+              >
+                Cancel
+              </button>
+              {step === 'select' && (
+                <button
+                  onClick={handleReadFile}
+                  disabled={!uploadFile}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Next: Map Columns
+                </button>
+              )}
+              {step === 'map' && (
+                <button
+                  onClick={handleConfirmMapping}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition"
+                >
+                  Next: Preview Rows
+                </button>
+              )}
+              {step === 'preview' && dryRun && (
+                <button
+                  onClick={handleDryRun}
+                  disabled={uploadableRows.length === 0 || blockingRows.length > 0 || uploadStatus === 'uploading'}
+                  title={blockingRows.length > 0 ? 'Fix or skip invalid rows first' : undefined}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {uploadStatus === 'uploading' ? 'Comparing...' : `Next: Dry Run ${uploadableRows.length} Rows`}
+                </button>
+              )}
+              {step === 'diff' && (
+                <button
+                  onClick={handleCommitDiff}
+                  disabled={selectedDiff.length === 0 || uploadStatus === 'uploading' || uploadStatus === 'success'}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {uploadStatus === 'uploading' ? 'Committing...' : `Commit ${selectedDiff.length} Selected`}
+                </button>
+              )}
+              {step === 'preview' && !dryRun && (
+                <button
+                  onClick={handleUpload}
+                  disabled={uploadableRows.length === 0 || blockingRows.length > 0 || uploadStatus === 'uploading' || uploadStatus === 'success'}
+                  title={blockingRows.length > 0 ? 'Fix or skip invalid rows first' : undefined}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {uploadStatus === 'uploading' ? 'Uploading...' : `Upload ${uploadableRows.length} Alerts`}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
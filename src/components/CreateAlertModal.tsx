@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Bell, X } from 'lucide-react'
+import { createAlert, fetchApprovalPolicy, findDuplicateAlerts } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY, resolveSubmitStatus } from '../lib/alertApproval'
+import { withPrimaryToken } from '../lib/alertTokens'
+import { findLinkIssues, markdownToPlainText, sanitiseMarkdown } from '../lib/markdown'
+import { TokenPicker } from './TokenPicker'
+import { TagInput } from './TagInput'
+import { TemplatePicker } from './TemplatePicker'
+import { DuplicateAlertsPanel } from './DuplicateAlertsPanel'
+import { AlertReachPanel } from './AlertReachPanel'
+import { ApprovalNotice } from './ApprovalNotice'
+import { MarkdownEditor } from './MarkdownEditor'
+import type { DuplicateCandidate } from '../lib/alertDuplicates'
+
+interface CreateAlertModalProps {
+  initialDeadline?: string    // datetime-local value, e.g. 2025-11-02T09:00
+  onClose: () => void
+}
+
+export function CreateAlertModal({ initialDeadline = '', onClose }: CreateAlertModalProps) {
+  const queryClient = useQueryClient()
+  const [error, setError] = useState('')
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[] | null>(null)
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false)
+  const [form, setForm] = useState({
+    token: '',
+    tokens: [] as string[],
+    title: '',
+    body: '',
+    severity: 'info' as 'critical' | 'warning' | 'info',
+    tags: [] as string[],
+    deadline: initialDeadline,
+    status: 'published' as 'draft' | 'scheduled' | 'published',
+    publish_at: '',
+  })
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+  const submitStatus = resolveSubmitStatus(form, approvalPolicy)
+
+  const createAlertMutation = useMutation({
+    mutationFn: createAlert,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      onClose()
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setError(error.response?.data?.error || 'Failed to create alert')
+    },
+  })
+
+  const canSave = Boolean(form.token && form.title)
+    && (form.status !== 'scheduled' || Boolean(form.publish_at))
+    && findLinkIssues(form.body).length === 0
+
+  const draft = {
+    token: form.token,
+    tokens: withPrimaryToken(form.tokens, form.token),
+    title: form.title,
+    body: sanitiseMarkdown(form.body),
+    severity: form.severity,
+    tags: form.tags,
+    deadline: form.deadline ? new Date(form.deadline).toISOString() : undefined,
+  }
+
+  const handleSave = async (skipDuplicateCheck = false) => {
+    if (!canSave) return
+    setError('')
+    if (!skipDuplicateCheck) {
+      setIsCheckingDuplicates(true)
+      // A failed check shouldn't block creating the alert
+      const found = await findDuplicateAlerts(draft).catch(() => [])
+      setIsCheckingDuplicates(false)
+      if (found.length > 0) {
+        setDuplicates(found)
+        return
+      }
+    }
+    setDuplicates(null)
+    createAlertMutation.mutate({
+      ...draft,
+      body_plain: markdownToPlainText(draft.body),
+      status: submitStatus,
+      publish_at: form.status === 'scheduled' ? new Date(form.publish_at).toISOString() : undefined,
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Create Alert</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {duplicates ? (
+          <div className="p-6">
+            <DuplicateAlertsPanel
+              draft={draft}
+              candidates={duplicates}
+              onResolved={onClose}
+              onCreateAnyway={() => handleSave(true)}
+              onBack={() => setDuplicates(null)}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="p-6 space-y-4">
+              <TemplatePicker
+                defaults={{ token: form.token, date: form.deadline.slice(0, 10) }}
+                onApply={(fields) => setForm({ ...form, ...fields })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tokens <span className="text-red-500">*</span>
+                </label>
+                <TokenPicker
+                  tokens={form.tokens}
+                  primary={form.token}
+                  onChange={(tokens, token) => setForm({ ...form, tokens, token })}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Starred token is the primary token
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Alert Title <span className="text-red-500">*</span>
+                </label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Alert Body</label>
+                <MarkdownEditor
+                  value={form.body}
+                  onChange={(body) => setForm({ ...form, body })}
+                  rows={6}
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Severity</label>
+                  <select
+                    value={form.severity}
+                    onChange={(e) => setForm({ ...form, severity: e.target.value as typeof form.severity })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="info">Info</option>
+                    <option value="warning">Warning</option>
+                    <option value="critical">Critical</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Deadline</label>
+                  <input
+                    type="datetime-local"
+                    value={form.deadline}
+                    onChange={(e) => setForm({ ...form, deadline: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Tags
+                </label>
+                <TagInput
+                  tags={form.tags}
+                  onChange={(tags) => setForm({ ...form, tags })}
+                  placeholder="migration, deadline, action-required..."
+                />
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Publishing</label>
+                  <select
+                    value={form.status}
+                    onChange={(e) => setForm({ ...form, status: e.target.value as typeof form.status })}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="published">Publish now</option>
+                    <option value="scheduled">Schedule</option>
+                    <option value="draft">Save as draft</option>
+                  </select>
+                </div>
+                {form.status === 'scheduled' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Publish At <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={form.publish_at}
+                      onChange={(e) => setForm({ ...form, publish_at: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                )}
+              </div>
+              <AlertReachPanel
+                tokens={draft.tokens}
+                title={form.title}
+                body={form.body}
+                severity={form.severity}
+              />
+              {submitStatus === 'pending_approval' && <ApprovalNotice severity={form.severity} />}
+              {error && <div className="text-sm text-red-600">{error}</div>}
+            </div>
+
+            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => handleSave()}
+                disabled={createAlertMutation.isPending || isCheckingDuplicates || !canSave}
+                className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+              >
+                <Bell className="w-4 h-4" />
+                {isCheckingDuplicates
+                  ? 'Checking for duplicates...'
+                  : submitStatus === 'pending_approval' ? 'Submit for Approval'
+                  : form.status === 'draft' ? 'Save Draft' : form.status === 'scheduled' ? 'Schedule Alert' : 'Create Alert'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Copy, GitMerge, RefreshCw } from 'lucide-react'
+import { api, fetchApprovalPolicy, linkAlertSources } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY, resolveSubmitStatus } from '../lib/alertApproval'
+import { markdownToPlainText } from '../lib/markdown'
+import { mergeDraftIntoAlert, updateAlertWithDraft, type AlertDraft, type DuplicateCandidate, type DuplicateSource } from '../lib/alertDuplicates'
+import { ApprovalNotice } from './ApprovalNotice'
+
+interface DuplicateAlertsPanelProps {
+  draft: AlertDraft
+  candidates: DuplicateCandidate[]
+  sourceUrls?: string[]       // News articles the draft came from; linked to whichever alert it is folded into
+  onResolved: (message: string) => void   // The draft was folded into an existing alert
+  onCreateAnyway: () => void
+  onBack: () => void
+}
+
+const formatDate = (dateStr?: string) => dateStr
+  ? new Date(dateStr).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+  : 'Unknown date'
+
+export function DuplicateAlertsPanel({ draft, candidates, sourceUrls = [], onResolved, onCreateAnyway, onBack }: DuplicateAlertsPanelProps) {
+  const queryClient = useQueryClient()
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+
+  // Both modes can raise a live alert's severity, which sends it back through approval
+  const buildUpdate = (alert: DuplicateSource, mode: 'merge' | 'update') => {
+    const updated = mode === 'merge' ? mergeDraftIntoAlert(alert, draft) : updateAlertWithDraft(alert, draft)
+    return {
+      ...updated,
+      body_plain: markdownToPlainText(updated.description || ''),
+      status: resolveSubmitStatus({ severity: updated.severity, status: alert.status || 'published' }, approvalPolicy, alert),
+    }
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ alert, mode }: { alert: DuplicateSource; mode: 'merge' | 'update' }) => {
+      const updated = buildUpdate(alert, mode)
+      await api.put(`/api/alerts/${alert.id}`, updated)
+      if (sourceUrls.length > 0) {
+        await linkAlertSources(alert.id, sourceUrls)
+      }
+      return updated.status
+    },
+    onSuccess: (status, { alert, mode }) => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['alert-revisions', alert.id] })
+      queryClient.invalidateQueries({ queryKey: ['alert-sources', alert.id] })
+      queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      const message = mode === 'merge' ? `Merged into alert #${alert.id}` : `Updated alert #${alert.id}`
+      onResolved(status === 'pending_approval' ? `${message} and submitted it for approval` : message)
+    },
+  })
+
+  return (
+    <div className="space-y-4">
+      <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+        <p className="font-medium text-amber-900">
+          {candidates.length === 1 ? 'A similar alert' : `${candidates.length} similar alerts`} already exist for this token
+        </p>
+        <p className="text-sm text-amber-800 mt-1">
+          Merge the new details into an existing alert, replace its content, or create a separate alert anyway.
+        </p>
+      </div>
+
+      <ul className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {candidates.map(({ alert, score, sharedTokens }) => (
+          <li key={alert.id} className="p-4 space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="font-medium text-gray-900">#{alert.id}</span>
+              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                {Math.round(score * 100)}% similar
+              </span>
+              <span className="text-xs text-gray-500">
+                {sharedTokens.join(', ')} · {alert.severity} · created {formatDate(alert.created_at)}
+              </span>
+            </div>
+            <div className="text-sm font-medium text-gray-900">{alert.title}</div>
+            {(alert.description ?? alert.body) && (
+              <div className="text-sm text-gray-600 line-clamp-2">{alert.description ?? alert.body}</div>
+            )}
+            {(['merge', 'update'] as const).some(mode => buildUpdate(alert, mode).status === 'pending_approval') && (
+              <ApprovalNotice severity={draft.severity} />
+            )}
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate({ alert, mode: 'merge' })}
+                disabled={saveMutation.isPending}
+                title="Keep its wording, add new tokens and tags, append the new body as an update"
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <GitMerge className="w-4 h-4" />
+                Merge into #{alert.id}
+              </button>
+              <button
+                type="button"
+                onClick={() => saveMutation.mutate({ alert, mode: 'update' })}
+                disabled={saveMutation.isPending}
+                title="Replace its title, body, severity, tags and deadline with the new alert"
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Update #{alert.id}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {saveMutation.isError && (
+        <div className="text-sm text-red-600">Failed to update the existing alert</div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+        >
+          Back to Edit
+        </button>
+        <button
+          type="button"
+          onClick={onCreateAnyway}
+          disabled={saveMutation.isPending}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-900 text-white rounded-lg hover:bg-gray-800 disabled:opacity-50"
+        >
+          <Copy className="w-4 h-4" />
+          Create Anyway
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import type { ReactNode } from 'react'
 import { Link, useLocation } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
 import { 
   LayoutDashboard, 
   Bell, 
@@ -8,9 +9,18 @@ import {
   Activity, 
   Settings, 
   LogOut,
-  Newspaper
+  Newspaper,
+  CalendarDays,
+  LayoutTemplate,
+  Tags,
+  ShieldCheck,
+  Rss,
+  Coins,
+  Flag,
+  FilePen
 } from 'lucide-react'
 import { useAuthStore } from '../store/authStore'
+import { fetchUntriagedNewsCount } from '../lib/api'
 
 interface LayoutProps {
   children: ReactNode
@@ -20,10 +30,25 @@ export function Layout({ children }: LayoutProps) {
   const location = useLocation()
   const { logout } = useAuthStore()
 
-  const navigation = [
+  // Polled so the counter picks up articles from feed refreshes
+  const { data: untriagedCount = 0 } = useQuery({
+    queryKey: ['news-untriaged-count'],
+    queryFn: fetchUntriagedNewsCount,
+    refetchInterval: 60000,
+  })
+
+  const navigation: Array<{ name: string; href: string; icon: typeof Bell; badge?: number }> = [
     { name: 'Dashboard', href: '/', icon: LayoutDashboard },
     { name: 'Alerts', href: '/alerts', icon: Bell },
-    { name: 'News Feed', href: '/news', icon: Newspaper },
+    { name: 'Calendar', href: '/calendar', icon: CalendarDays },
+    { name: 'Approvals', href: '/approvals', icon: ShieldCheck },
+    { name: 'Templates', href: '/templates', icon: LayoutTemplate },
+    { name: 'Tags', href: '/tags', icon: Tags },
+    { name: 'Tickers', href: '/tickers', icon: Coins },
+    { name: 'News Feed', href: '/news', icon: Newspaper, badge: untriagedCount },
+    { name: 'News Sources', href: '/news/sources', icon: Rss },
+    { name: 'Watch Rules', href: '/news/watch-rules', icon: Flag },
+    { name: 'Draft Rules', href: '/news/draft-rules', icon: FilePen },
     { name: 'Users', href: '/users', icon: Users },
     { name: 'Token Requests', href: '/token-requests', icon: FileText },
     { name: 'Audit Log', href: '/audit-log', icon: Activity },
@@ -59,6 +84,14 @@ export function Layout({ children }: LayoutProps) {
                 >
                   <Icon className="w-5 h-5" />
                   {item.name}
+                  {item.badge ? (
+                    <span
+                      className="ml-auto px-2 py-0.5 text-xs font-medium bg-primary-100 text-primary-700 rounded-full"
+                      title={`${item.badge} untriaged`}
+                    >
+                      {item.badge > 999 ? '999+' : item.badge}
+                    </span>
+                  ) : null}
                 </Link>
               )
             })}
@@ -0,0 +1,43 @@
+import { Link } from 'react-router-dom'
+import { Bell, CheckCircle2 } from 'lucide-react'
+import type { NewsArticle } from '../types'
+
+const SEVERITY_LINK_STYLES = {
+  critical: 'bg-red-50 text-red-700 border-red-200 hover:bg-red-100',
+  warning: 'bg-yellow-50 text-yellow-800 border-yellow-200 hover:bg-yellow-100',
+  info: 'bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100',
+}
+
+/**
+ * Links from a news article to the alerts that cite it as a source
+ */
+export function LinkedAlerts({ article }: { article: Pick<NewsArticle, 'alert_created' | 'linked_alerts'> }) {
+  const links = article.linked_alerts || []
+
+  // Older backends only report that some alert was created
+  if (links.length === 0) {
+    return article.alert_created ? (
+      <span className="inline-flex items-center gap-1 text-xs text-green-700">
+        <CheckCircle2 className="w-3 h-3" />
+        Alert created
+      </span>
+    ) : null
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {links.map(link => (
+        <Link
+          key={link.id}
+          to={`/alerts?alert=${link.id}`}
+          onClick={(e) => e.stopPropagation()}
+          title={`${link.severity} · ${link.status}`}
+          className={`inline-flex items-center gap-1 max-w-xs px-2 py-0.5 text-xs border rounded ${SEVERITY_LINK_STYLES[link.severity]}`}
+        >
+          <Bell className="w-3 h-3 flex-shrink-0" />
+          <span className="truncate">#{link.id} {link.title}</span>
+        </Link>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,186 @@
+import { useRef, useState } from 'react'
+import { Bold, Columns2, Eye, Heading, Italic, Link2, List, ListOrdered, Pencil, AlertCircle } from 'lucide-react'
+import { findLinkIssues, markdownToPlainText, parseMarkdown, type MdInline } from '../lib/markdown'
+
+interface MarkdownEditorProps {
+  id?: string
+  value: string
+  onChange: (value: string) => void
+  rows?: number
+  placeholder?: string
+}
+
+type EditorMode = 'write' | 'split' | 'preview'
+
+function renderInline(nodes: MdInline[]): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return node.text
+      case 'code':
+        return <code key={i} className="px-1 bg-gray-100 rounded text-xs">{node.text}</code>
+      case 'strong':
+        return <strong key={i}>{renderInline(node.children)}</strong>
+      case 'em':
+        return <em key={i}>{renderInline(node.children)}</em>
+      case 'link':
+        return node.error
+          ? <span key={i} className="text-red-600 underline decoration-wavy" title={node.error}>{renderInline(node.children)}</span>
+          : <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-primary-600 underline">{renderInline(node.children)}</a>
+    }
+  })
+}
+
+/**
+ * Render an alert body. Output is built from React elements only, never raw HTML.
+ */
+export function MarkdownPreview({ source }: { source: string }) {
+  const blocks = parseMarkdown(source)
+  if (blocks.length === 0) {
+    return <p className="text-sm text-gray-400">Nothing to preview</p>
+  }
+  return (
+    <div className="space-y-2 text-sm text-gray-800 break-words">
+      {blocks.map((block, i) => {
+        if (block.type === 'heading') {
+          const size = block.level === 1 ? 'text-lg' : block.level === 2 ? 'text-base' : 'text-sm'
+          return <p key={i} className={`${size} font-semibold text-gray-900`}>{renderInline(block.children)}</p>
+        }
+        if (block.type === 'list') {
+          const ListTag = block.ordered ? 'ol' : 'ul'
+          return (
+            <ListTag key={i} className={`pl-5 space-y-0.5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, j) => <li key={j}>{renderInline(item)}</li>)}
+            </ListTag>
+          )
+        }
+        return (
+          <p key={i}>
+            {block.lines.map((line, j) => (
+              <span key={j}>
+                {j > 0 && <br />}
+                {renderInline(line)}
+              </span>
+            ))}
+          </p>
+        )
+      })}
+    </div>
+  )
+}
+
+export function MarkdownEditor({ id, value, onChange, rows = 8, placeholder }: MarkdownEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mode, setMode] = useState<EditorMode>('split')
+  const [showPlainText, setShowPlainText] = useState(false)
+  const linkIssues = findLinkIssues(value)
+
+  // Wrap the selection (or a placeholder word) in inline markers
+  const wrapSelection = (before: string, after: string, fallback: string) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const { selectionStart, selectionEnd } = textarea
+    const selected = value.slice(selectionStart, selectionEnd) || fallback
+    onChange(value.slice(0, selectionStart) + before + selected + after + value.slice(selectionEnd))
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(selectionStart + before.length, selectionStart + before.length + selected.length)
+    })
+  }
+
+  // Prefix every selected line, e.g. to turn lines into a list
+  const prefixLines = (prefix: (index: number) => string) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const lineStart = value.lastIndexOf('\n', textarea.selectionStart - 1) + 1
+    const { selectionEnd } = textarea
+    const lines = value.slice(lineStart, selectionEnd).split('\n')
+    const prefixed = lines.map((line, i) => prefix(i) + line).join('\n')
+    onChange(value.slice(0, lineStart) + prefixed + value.slice(selectionEnd))
+    requestAnimationFrame(() => textarea.focus())
+  }
+
+  const toolbarButton = 'p-1.5 rounded text-gray-600 hover:bg-gray-200 hover:text-gray-900'
+
+  return (
+    <div className="border border-gray-300 rounded-lg overflow-hidden focus-within:ring-2 focus-within:ring-primary-500">
+      <div className="flex items-center gap-1 px-2 py-1 bg-gray-50 border-b border-gray-200">
+        <button type="button" onClick={() => prefixLines(() => '## ')} className={toolbarButton} title="Heading">
+          <Heading className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => wrapSelection('**', '**', 'bold text')} className={toolbarButton} title="Bold">
+          <Bold className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => wrapSelection('*', '*', 'italic text')} className={toolbarButton} title="Italic">
+          <Italic className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => wrapSelection('[', '](https://)', 'link text')} className={toolbarButton} title="Link">
+          <Link2 className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => prefixLines(() => '- ')} className={toolbarButton} title="Bulleted list">
+          <List className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => prefixLines(i => `${i + 1}. `)} className={toolbarButton} title="Numbered list">
+          <ListOrdered className="w-4 h-4" />
+        </button>
+
+        <div className="ml-auto flex items-center gap-1">
+          {([
+            ['write', Pencil, 'Write'],
+            ['split', Columns2, 'Split'],
+            ['preview', Eye, 'Preview'],
+          ] as const).map(([key, Icon, label]) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setMode(key)}
+              title={label}
+              className={`p-1.5 rounded ${mode === key ? 'bg-white shadow-sm text-primary-700' : 'text-gray-500 hover:text-gray-900'}`}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className={mode === 'split' ? 'grid grid-cols-2 divide-x divide-gray-200' : ''}>
+        {mode !== 'preview' && (
+          <textarea
+            id={id}
+            ref={textareaRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            rows={rows}
+            placeholder={placeholder}
+            className="w-full px-3 py-2 text-sm font-mono outline-none resize-y block"
+          />
+        )}
+        {mode !== 'write' && (
+          <div className="px-3 py-2 overflow-y-auto" style={{ maxHeight: `${rows * 1.75}rem` }}>
+            <MarkdownPreview source={value} />
+          </div>
+        )}
+      </div>
+
+      {linkIssues.length > 0 && (
+        <div className="px-3 py-2 bg-red-50 border-t border-red-200 text-xs text-red-700 space-y-0.5">
+          {linkIssues.map((issue, i) => (
+            <div key={i} className="flex items-center gap-1">
+              <AlertCircle className="w-3 h-3 flex-shrink-0" />
+              Link "{issue.text}" → {issue.href || '(empty)'}: {issue.reason}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="px-3 py-1.5 bg-gray-50 border-t border-gray-200 text-xs">
+        <button type="button" onClick={() => setShowPlainText(!showPlainText)} className="text-gray-500 hover:text-gray-800">
+          {showPlainText ? 'Hide' : 'Show'} plain-text fallback
+        </button>
+        {showPlainText && (
+          <pre className="mt-1 whitespace-pre-wrap font-sans text-gray-700">{markdownToPlainText(value) || '(empty)'}</pre>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { CalendarClock, CheckCircle, Eye, Minus, Pin, PinOff, Plus, Trash2, X, XCircle } from 'lucide-react'
+import { bulkDeleteNews, bulkNewsAction, fetchTickerRegistry } from '../lib/api'
+import { describeNewsBulkAction, previewNewsBulkAction } from '../lib/newsBulkActions'
+import { parseTokenList } from '../lib/alertTokens'
+import { canonicaliseTickers } from '../lib/tickerRegistry'
+import { TRIAGE_STATUSES } from '../lib/newsTriage'
+import type { BulkActionResult, NewsArticle, NewsBulkAction, NewsTriageStatus } from '../types'
+
+interface NewsBulkActionsProps {
+  selected: NewsArticle[]
+  onClear: () => void
+}
+
+interface PendingAction {
+  action: NewsBulkAction
+  articles: NewsArticle[]
+}
+
+interface ReportRow {
+  article: NewsArticle
+  outcome: 'success' | 'failed' | 'skipped'
+  message?: string
+}
+
+const OUTCOME_STYLES: Record<ReportRow['outcome'], string> = {
+  success: 'text-green-700',
+  failed: 'text-red-700',
+  skipped: 'text-gray-500',
+}
+
+export function NewsBulkActions({ selected, onClear }: NewsBulkActionsProps) {
+  const queryClient = useQueryClient()
+  const [sentiment, setSentiment] = useState<'positive' | 'neutral' | 'negative'>('neutral')
+  const [tickerInput, setTickerInput] = useState('')
+  const [shiftDays, setShiftDays] = useState(30)
+  const [triageStatus, setTriageStatus] = useState<NewsTriageStatus>('reviewed')
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [report, setReport] = useState<ReportRow[] | null>(null)
+
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+
+  const startAction = (action: NewsBulkAction) => {
+    setPending({ action, articles: selected })
+  }
+
+  const runMutation = useMutation({
+    mutationFn: async ({ action, articles }: PendingAction): Promise<ReportRow[]> => {
+      const previews = new Map(articles.map(article => [article.article_url, previewNewsBulkAction(article, action)]))
+      const urls = articles.filter(article => !previews.get(article.article_url)?.skipReason).map(article => article.article_url)
+
+      let results: BulkActionResult[] = []
+      let requestError = ''
+      if (urls.length > 0) {
+        try {
+          if (action.type === 'delete') {
+            // The delete endpoint removes all or nothing
+            await bulkDeleteNews(urls)
+            results = urls.map(id => ({ id, ok: true }))
+          } else {
+            results = await bulkNewsAction(urls, action)
+          }
+        } catch (error: unknown) {
+          const err = error as { response?: { data?: { error?: string } } }
+          requestError = err.response?.data?.error || 'Request failed'
+        }
+      }
+      const resultByUrl = new Map(results.map(result => [String(result.id), result]))
+
+      return articles.map(article => {
+        const skipReason = previews.get(article.article_url)?.skipReason
+        if (skipReason) return { article, outcome: 'skipped', message: skipReason }
+        const result = resultByUrl.get(article.article_url)
+        if (result?.ok) return { article, outcome: 'success' }
+        return { article, outcome: 'failed', message: result?.error || requestError || 'No result returned' }
+      })
+    },
+    onSuccess: (rows) => {
+      queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['news-untriaged-count'] })
+      setPending(null)
+      setReport(rows)
+    },
+  })
+
+  const closeReport = () => {
+    setReport(null)
+    onClear()
+  }
+
+  const tickers = canonicaliseTickers(parseTokenList(tickerInput), tickerRegistry?.tickers || []).tickers
+  const buttonClass = 'flex items-center gap-1 px-3 py-1.5 text-sm bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <>
+      {/* Toolbar */}
+      <div className="bg-primary-50 border border-primary-200 rounded-lg p-3 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-primary-900">{selected.length} selected</span>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={sentiment}
+            onChange={(e) => setSentiment(e.target.value as typeof sentiment)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          >
+            <option value="positive">Positive</option>
+            <option value="neutral">Neutral</option>
+            <option value="negative">Negative</option>
+          </select>
+          <button onClick={() => startAction({ type: 'sentiment', sentiment })} className={buttonClass}>
+            Set sentiment
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={tickerInput}
+            onChange={(e) => setTickerInput(e.target.value)}
+            placeholder="BTC, ETH"
+            className="w-28 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => startAction({ type: 'add_tickers', tickers })}
+            disabled={tickers.length === 0}
+            className={buttonClass}
+            title="Add tickers"
+          >
+            <Plus className="w-4 h-4" />
+            Tickers
+          </button>
+          <button
+            onClick={() => startAction({ type: 'remove_tickers', tickers })}
+            disabled={tickers.length === 0}
+            className={buttonClass}
+            title="Remove tickers"
+          >
+            <Minus className="w-4 h-4" />
+            Tickers
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            value={shiftDays}
+            onChange={(e) => setShiftDays(Number(e.target.value))}
+            title="Days to keep the articles longer; negative to expire them sooner"
+            className="w-20 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => startAction({ type: 'shift_expiry', days: shiftDays })}
+            disabled={!Number.isInteger(shiftDays) || shiftDays === 0}
+            className={buttonClass}
+          >
+            <CalendarClock className="w-4 h-4" />
+            Shift expiry
+          </button>
+          <button onClick={() => startAction({ type: 'pin', pinned: true })} className={buttonClass} title="Pin so they never expire">
+            <Pin className="w-4 h-4" />
+            Pin
+          </button>
+          <button onClick={() => startAction({ type: 'pin', pinned: false })} className={buttonClass} title="Unpin">
+            <PinOff className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <select
+            value={triageStatus}
+            onChange={(e) => setTriageStatus(e.target.value as NewsTriageStatus)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          >
+            {TRIAGE_STATUSES.map(({ value, label }) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <button onClick={() => startAction({ type: 'triage', status: triageStatus })} className={buttonClass}>
+            <Eye className="w-4 h-4" />
+            Set status
+          </button>
+        </div>
+        <button
+          onClick={() => startAction({ type: 'delete' })}
+          className={`${buttonClass} text-red-700 border-red-300 hover:bg-red-50`}
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </button>
+
+        <button onClick={onClear} className="ml-auto flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+          <X className="w-4 h-4" />
+          Clear selection
+        </button>
+      </div>
+
+      {/* Confirmation */}
+      {pending && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Confirm Bulk Action</h2>
+              <button onClick={() => setPending(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {(() => {
+              const previews = pending.articles.map(article => ({ article, preview: previewNewsBulkAction(article, pending.action) }))
+              const skipped = previews.filter(({ preview }) => preview.skipReason).length
+              const affected = pending.articles.length - skipped
+              return (
+                <>
+                  <div className="px-6 py-4 space-y-2">
+                    <p className="text-gray-900">
+                      <span className="font-medium">{describeNewsBulkAction(pending.action)}</span> on{' '}
+                      {affected} article{affected === 1 ? '' : 's'}
+                    </p>
+                    {skipped > 0 && (
+                      <p className="text-sm text-gray-500">{skipped} selected articles are unaffected and will be skipped</p>
+                    )}
+                    {pending.action.type === 'delete' && (
+                      <p className="text-sm text-red-600">A deleted article comes back only if its source still lists it on the next refresh.</p>
+                    )}
+                    {pending.action.type === 'shift_expiry' && pending.action.days < 0 && (
+                      <p className="text-sm text-amber-700">Articles whose new expiry has passed are removed at the next cleanup.</p>
+                    )}
+                  </div>
+
+                  <div className="px-6 overflow-y-auto flex-1">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 border-b border-gray-200 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Article</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Before</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">After</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {previews.map(({ article, preview }) => (
+                          <tr key={article.article_url} className={preview.skipReason ? 'text-gray-400' : 'text-gray-700'}>
+                            <td className="px-3 py-2">
+                              <span className="font-medium">{article.source_name}</span> · {article.title}
+                            </td>
+                            <td className="px-3 py-2">{preview.before}</td>
+                            <td className="px-3 py-2">{preview.skipReason || preview.after}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div className="border-t border-gray-200 px-6 py-4 flex justify-end gap-3">
+                    <button
+                      onClick={() => setPending(null)}
+                      className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={() => runMutation.mutate(pending)}
+                      disabled={runMutation.isPending || affected === 0}
+                      className={`px-4 py-2 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed ${
+                        pending.action.type === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                      }`}
+                    >
+                      {runMutation.isPending ? 'Applying...' : `Apply to ${affected} articles`}
+                    </button>
+                  </div>
+                </>
+              )
+            })()}
+          </div>
+        </div>
+      )}
+
+      {/* Result report */}
+      {report && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+            <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Bulk Action Results</h2>
+              <button onClick={closeReport} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 flex gap-6 text-sm">
+              <span className="text-green-700">Succeeded: {report.filter(row => row.outcome === 'success').length}</span>
+              <span className="text-red-700">Failed: {report.filter(row => row.outcome === 'failed').length}</span>
+              <span className="text-gray-500">Skipped: {report.filter(row => row.outcome === 'skipped').length}</span>
+            </div>
+
+            <div className="px-6 pb-4 overflow-y-auto flex-1">
+              <ul className="divide-y divide-gray-200 text-sm">
+                {report.map(row => (
+                  <li key={row.article.article_url} className="py-2 flex items-start gap-2">
+                    {row.outcome === 'failed'
+                      ? <XCircle className="w-4 h-4 mt-0.5 text-red-600 flex-shrink-0" />
+                      : <CheckCircle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${row.outcome === 'success' ? 'text-green-600' : 'text-gray-300'}`} />}
+                    <div className="flex-1">
+                      <span className="font-medium text-gray-900">{row.article.source_name}</span>{' '}
+                      <span className="text-gray-700">{row.article.title}</span>
+                      {row.message && <div className={`text-xs ${OUTCOME_STYLES[row.outcome]}`}>{row.message}</div>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <div className="border-t border-gray-200 px-6 py-4 flex justify-end">
+              <button
+                onClick={closeReport}
+                className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,151 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import { Archive, Save } from 'lucide-react'
+import { fetchNewsRetention, updateNewsRetention } from '../lib/api'
+import type { NewsRetentionInput, NewsRetentionPolicy } from '../types'
+
+const MAX_RETENTION_DAYS = 365
+
+const toInput = (policy: NewsRetentionPolicy): NewsRetentionInput => ({
+  default_days: policy.default_days,
+  sources: policy.sources.map(({ source_name, retention_days }) => ({ source_name, retention_days })),
+})
+
+const isValidDays = (days: number) => Number.isInteger(days) && days >= 1 && days <= MAX_RETENTION_DAYS
+
+/**
+ * Default retention for cached news articles and per-source overrides
+ */
+export function NewsRetentionSettings() {
+  const queryClient = useQueryClient()
+  // null until the admin changes something, so the form follows the saved policy
+  const [form, setForm] = useState<NewsRetentionInput | null>(null)
+  const [saveError, setSaveError] = useState('')
+
+  const { data: policy, isLoading, error } = useQuery({
+    queryKey: ['news-retention'],
+    queryFn: fetchNewsRetention,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: updateNewsRetention,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['news-retention'] })
+      setForm(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save retention settings')
+    },
+  })
+
+  const current = form || (policy ? toInput(policy) : null)
+  const isValid = current !== null && isValidDays(current.default_days)
+    && current.sources.every(source => source.retention_days === null || isValidDays(source.retention_days))
+
+  const setSourceDays = (sourceName: string, value: string) => {
+    if (!current) return
+    setForm({
+      ...current,
+      sources: current.sources.map(source =>
+        source.source_name === sourceName ? { ...source, retention_days: value ? Number(value) : null } : source
+      ),
+    })
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <div className="bg-orange-50 p-3 rounded-lg">
+            <Archive className="w-6 h-6 text-orange-600" />
+          </div>
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">News Retention</h2>
+            <p className="text-sm text-gray-600">How long fetched articles stay in the news cache</p>
+          </div>
+        </div>
+        <button
+          onClick={() => {
+            if (!current) return
+            setSaveError('')
+            saveMutation.mutate(current)
+          }}
+          disabled={!form || !isValid || saveMutation.isPending}
+          className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 disabled:bg-gray-400 text-white px-4 py-2 rounded-lg transition"
+        >
+          <Save className="w-5 h-5" />
+          {saveMutation.isPending ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+
+      {error ? (
+        <div className="text-center py-8 text-red-600">Error loading retention settings</div>
+      ) : isLoading || !current ? (
+        <div className="text-center py-8 text-gray-500">Loading retention settings...</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <label htmlFor="default-retention" className="font-medium text-gray-900">Default retention</label>
+            <input
+              id="default-retention"
+              type="number"
+              min={1}
+              max={MAX_RETENTION_DAYS}
+              value={current.default_days}
+              onChange={(e) => setForm({ ...current, default_days: Number(e.target.value) })}
+              className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+            />
+            <span className="text-sm text-gray-600">days</span>
+          </div>
+
+          {current.sources.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr className="text-xs font-medium text-gray-500 uppercase">
+                  <th className="px-4 py-2 text-left">Source</th>
+                  <th className="px-4 py-2 text-right">Cached Articles</th>
+                  <th className="px-4 py-2 text-left">Retention (days)</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {current.sources.map(source => (
+                  <tr key={source.source_name}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{source.source_name}</td>
+                    <td className="px-4 py-2 text-right text-gray-700">
+                      {policy?.sources.find(s => s.source_name === source.source_name)?.article_count || 0}
+                    </td>
+                    <td className="px-4 py-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_RETENTION_DAYS}
+                        value={source.retention_days ?? ''}
+                        onChange={(e) => setSourceDays(source.source_name, e.target.value)}
+                        placeholder={`Default (${current.default_days})`}
+                        className="w-36 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {!isValid && (
+            <p className="text-sm text-red-600">Retention must be a whole number of days from 1 to {MAX_RETENTION_DAYS}</p>
+          )}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          <p className="text-sm text-gray-600">
+            Changes apply to articles fetched from now on. Pinned articles and articles linked to an alert never expire.
+            To keep or drop articles already cached, use the{' '}
+            <Link to="/news?retention=expiring&status=all" className="text-primary-600 hover:text-primary-700">
+              News Feed
+            </Link>.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useQuery } from '@tanstack/react-query'
+import { fetchNewsSources, fetchTickerRegistry } from '../lib/api'
+import { parseTokenList } from '../lib/alertTokens'
+import { canonicaliseTickers } from '../lib/tickerRegistry'
+import type { WatchRuleConditions } from '../types'
+
+const SENTIMENTS = ['positive', 'neutral', 'negative'] as const
+
+interface RuleConditionsFieldsProps {
+  conditions: WatchRuleConditions
+  keywordInput: string        // Comma-separated, parsed with parseRuleConditions()
+  tickerInput: string
+  onChange: (changes: Partial<WatchRuleConditions>) => void
+  onKeywordInputChange: (value: string) => void
+  onTickerInputChange: (value: string) => void
+}
+
+const toggleListValue = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value]
+
+/**
+ * Article conditions shared by watch rules and alert draft rules
+ */
+export function RuleConditionsFields({
+  conditions,
+  keywordInput,
+  tickerInput,
+  onChange,
+  onKeywordInputChange,
+  onTickerInputChange,
+}: RuleConditionsFieldsProps) {
+  const { data: sources = [] } = useQuery({
+    queryKey: ['news-sources'],
+    queryFn: fetchNewsSources,
+  })
+
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+
+  const typedTickers = parseTokenList(tickerInput)
+  const savedTickers = canonicaliseTickers(typedTickers, tickerRegistry?.tickers || []).tickers
+
+  return (
+    <>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Keywords (comma-separated)</label>
+        <input
+          type="text"
+          value={keywordInput}
+          onChange={(e) => onKeywordInputChange(e.target.value)}
+          placeholder="exploit, drained, withdrawals paused"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+        />
+        <p className="text-xs text-gray-500 mt-1">Whole words or phrases; case doesn't matter</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Pattern</label>
+        <input
+          type="text"
+          value={conditions.pattern || ''}
+          onChange={(e) => onChange({ pattern: e.target.value })}
+          placeholder="\$\d+(\.\d+)?\s?(m|million|bn|billion) (stolen|drained)"
+          className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+        />
+        <p className="text-xs text-gray-500 mt-1">Regular expression, case-insensitive</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Look for keywords and pattern in</label>
+        <select
+          value={conditions.match_in}
+          onChange={(e) => onChange({ match_in: e.target.value as WatchRuleConditions['match_in'] })}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+        >
+          <option value="title_and_text">Title and text</option>
+          <option value="title">Title only</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tickers</label>
+          <input
+            type="text"
+            value={tickerInput}
+            onChange={(e) => onTickerInputChange(e.target.value)}
+            placeholder="BTC, ETH"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          {savedTickers.join(', ') !== typedTickers.join(', ') && (
+            <p className="text-xs text-gray-500 mt-1">Saved as {savedTickers.join(', ')}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Minimum watchers</label>
+          <input
+            type="number"
+            min={1}
+            value={conditions.min_watchers ?? ''}
+            onChange={(e) => onChange({ min_watchers: e.target.value ? Number(e.target.value) : null })}
+            placeholder="Any"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">Any of the article's tokens is on at least this many watchlists</p>
+        </div>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-gray-700 mb-1">Sentiment</span>
+        <div className="flex gap-4">
+          {SENTIMENTS.map(sentiment => (
+            <label key={sentiment} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+              <input
+                type="checkbox"
+                checked={conditions.sentiments.includes(sentiment)}
+                onChange={() => onChange({ sentiments: toggleListValue(conditions.sentiments, sentiment) })}
+              />
+              {sentiment}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {sources.length > 0 && (
+        <div>
+          <span className="block text-sm font-medium text-gray-700 mb-1">Sources</span>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            {sources.map(source => (
+              <label key={source.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={conditions.sources.includes(source.name)}
+                  onChange={() => onChange({ sources: toggleListValue(conditions.sources, source.name) })}
+                />
+                {source.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, X } from 'lucide-react'
+import { fetchTagTaxonomy } from '../lib/api'
+import { resolveTag, suggestTags, uniqueTags } from '../lib/tagTaxonomy'
+
+interface TagInputProps {
+  tags: string[]
+  onChange: (tags: string[]) => void
+  id?: string
+  placeholder?: string
+}
+
+/**
+ * Chip input for alert tags. Autocompletes from canonical tags, rewrites known
+ * synonyms and asks before adding a tag that looks like an existing one.
+ */
+export function TagInput({ tags, onChange, id, placeholder = 'migration, deadline...' }: TagInputProps) {
+  const [input, setInput] = useState('')
+  // -1 = nothing highlighted, so Enter adds exactly what was typed
+  const [highlighted, setHighlighted] = useState(-1)
+  const [pendingSimilar, setPendingSimilar] = useState<{ tag: string; suggestion: string } | null>(null)
+  const [rewritten, setRewritten] = useState<{ from: string; to: string } | null>(null)
+
+  // Without the taxonomy the input still works as plain free-form tags
+  const { data: taxonomy } = useQuery({
+    queryKey: ['tag-taxonomy'],
+    queryFn: fetchTagTaxonomy,
+  })
+  const definitions = taxonomy?.tags || []
+  const suggestions = suggestTags(input, definitions, tags)
+
+  const addTag = (tag: string) => {
+    onChange(uniqueTags([...tags, tag]))
+    setInput('')
+    setHighlighted(-1)
+    setPendingSimilar(null)
+  }
+
+  const commitTag = (value: string) => {
+    if (!value.trim()) return
+    const resolution = resolveTag(value, definitions)
+    setRewritten(resolution.kind === 'synonym' ? { from: resolution.from, to: resolution.tag } : null)
+    if (resolution.kind === 'similar') {
+      setPendingSimilar({ tag: resolution.tag, suggestion: resolution.suggestion })
+      setInput('')
+      return
+    }
+    addTag(resolution.tag)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted((highlighted + 1) % suggestions.length)
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault()
+      setHighlighted(highlighted <= 0 ? suggestions.length - 1 : highlighted - 1)
+    } else if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      commitTag(e.key === 'Enter' && highlighted >= 0 && suggestions[highlighted] ? suggestions[highlighted] : input)
+    } else if (e.key === 'Backspace' && !input && tags.length > 0) {
+      onChange(tags.slice(0, -1))
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-primary-500">
+          {tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded">
+              {tag}
+              <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} title={`Remove ${tag}`}>
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            id={id}
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value)
+              setHighlighted(-1)
+            }}
+            onKeyDown={handleKeyDown}
+            onBlur={() => commitTag(input)}
+            placeholder={tags.length === 0 ? placeholder : 'Add tag'}
+            className="flex-1 min-w-[6rem] outline-none text-sm"
+          />
+        </div>
+        {suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10 py-1 text-sm">
+            {suggestions.map((suggestion, i) => (
+              <li key={suggestion}>
+                <button
+                  type="button"
+                  // Fires before the input's blur so the click isn't lost
+                  onMouseDown={(e) => {
+                    e.preventDefault()
+                    commitTag(suggestion)
+                  }}
+                  className={`w-full text-left px-3 py-1 ${i === highlighted ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {suggestion}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {pendingSimilar && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>"{pendingSimilar.tag}" looks like the existing tag "{pendingSimilar.suggestion}".</span>
+          <button
+            type="button"
+            onClick={() => addTag(pendingSimilar.suggestion)}
+            className="px-2 py-0.5 bg-amber-600 hover:bg-amber-700 text-white rounded"
+          >
+            Use {pendingSimilar.suggestion}
+          </button>
+          <button
+            type="button"
+            onClick={() => addTag(pendingSimilar.tag)}
+            className="px-2 py-0.5 border border-amber-300 hover:bg-amber-100 rounded"
+          >
+            Add "{pendingSimilar.tag}" anyway
+          </button>
+        </div>
+      )}
+      {rewritten && !pendingSimilar && (
+        <p className="text-xs text-gray-500">"{rewritten.from}" is a synonym, added as "{rewritten.to}"</p>
+      )}
+    </div>
+  )
+}
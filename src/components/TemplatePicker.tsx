@@ -0,0 +1,99 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import { LayoutTemplate } from 'lucide-react'
+import { fetchAlertTemplates } from '../lib/api'
+import { TEMPLATE_PLACEHOLDERS, applyTemplate, fillTemplateText, getTemplatePlaceholders, type TemplateValues } from '../lib/alertTemplates'
+
+interface TemplatePickerProps {
+  defaults: TemplateValues      // Pre-fills placeholders from what the form already knows
+  onApply: (fields: ReturnType<typeof applyTemplate>) => void
+}
+
+export function TemplatePicker({ defaults, onApply }: TemplatePickerProps) {
+  const [templateId, setTemplateId] = useState<number | null>(null)
+  const [values, setValues] = useState<TemplateValues>({})
+
+  const { data: templates = [], isLoading } = useQuery({
+    queryKey: ['alert-templates'],
+    queryFn: fetchAlertTemplates,
+  })
+
+  const template = templates.find(t => t.id === templateId)
+  const placeholders = template ? getTemplatePlaceholders(template) : []
+
+  const handleSelect = (id: number | null) => {
+    setTemplateId(id)
+    setValues({ ...defaults })
+  }
+
+  const handleApply = () => {
+    if (!template) return
+    onApply(applyTemplate(template, values))
+    setTemplateId(null)
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <LayoutTemplate className="w-4 h-4 text-gray-500 flex-shrink-0" />
+        <select
+          value={templateId ?? ''}
+          onChange={(e) => handleSelect(e.target.value ? Number(e.target.value) : null)}
+          disabled={isLoading || templates.length === 0}
+          className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none bg-white"
+        >
+          <option value="">
+            {isLoading ? 'Loading templates...' : templates.length === 0 ? 'No templates yet' : 'Start from a template...'}
+          </option>
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+        <Link to="/templates" className="text-xs text-primary-600 hover:text-primary-700 whitespace-nowrap">
+          Manage
+        </Link>
+      </div>
+
+      {template && (
+        <>
+          {placeholders.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {TEMPLATE_PLACEHOLDERS.filter(p => placeholders.includes(p.key)).map(p => (
+                <input
+                  key={p.key}
+                  type={p.key === 'date' ? 'date' : p.key === 'url' ? 'url' : 'text'}
+                  value={values[p.key] || ''}
+                  onChange={(e) => setValues({ ...values, [p.key]: e.target.value })}
+                  placeholder={p.label}
+                  title={p.label}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+              ))}
+            </div>
+          )}
+          <div className="text-sm text-gray-700">
+            <span className="text-gray-500">Title: </span>
+            {fillTemplateText(template.title, values)}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setTemplateId(null)}
+              className="px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleApply}
+              className="px-3 py-1.5 text-sm bg-primary-600 hover:bg-primary-700 text-white rounded-lg"
+            >
+              Apply Template
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, Plus, Star, X } from 'lucide-react'
+import { fetchTickerRegistry } from '../lib/api'
+import { parseTokenList, uniqueTokens } from '../lib/alertTokens'
+import { buildTickerIndex, canonicaliseTickers, resolveTicker } from '../lib/tickerRegistry'
+
+interface TokenPickerProps {
+  tokens: string[]
+  primary: string
+  onChange: (tokens: string[], primary: string) => void
+  suggestions?: string[]      // e.g. tickers from a news article, offered as one-click adds
+  id?: string
+}
+
+/**
+ * Chip input for the tokens an alert targets. The starred chip is the primary token.
+ * Aliases from the ticker registry are rewritten to their canonical symbol.
+ */
+export function TokenPicker({ tokens, primary, onChange, suggestions = [], id }: TokenPickerProps) {
+  const [input, setInput] = useState('')
+  const [rewritten, setRewritten] = useState<Array<{ from: string; to: string }>>([])
+
+  // Without the registry the picker still accepts any symbol
+  const { data: registry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+  const definitions = registry?.tickers || []
+  const index = buildTickerIndex(definitions)
+  const unknown = definitions.length > 0
+    ? tokens.filter(token => resolveTicker(token, index).kind === 'unknown')
+    : []
+
+  const addTokens = (added: string[]) => {
+    const resolutions = added.map(token => resolveTicker(token, index))
+    setRewritten(resolutions.flatMap(r => r.kind === 'alias' ? [{ from: r.from, to: r.symbol }] : []))
+    const next = uniqueTokens([...tokens, ...resolutions.map(r => r.symbol)])
+    onChange(next, primary || next[0] || '')
+  }
+
+  const removeToken = (token: string) => {
+    const next = tokens.filter(t => t !== token)
+    onChange(next, token === primary ? next[0] || '' : primary)
+  }
+
+  const commitInput = () => {
+    const parsed = parseTokenList(input)
+    if (parsed.length > 0) {
+      addTokens(parsed)
+    }
+    setInput('')
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault()
+      commitInput()
+    } else if (e.key === 'Backspace' && !input && tokens.length > 0) {
+      removeToken(tokens[tokens.length - 1])
+    }
+  }
+
+  const unusedSuggestions = canonicaliseTickers(suggestions, definitions).tickers.filter(s => !tokens.includes(s))
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-primary-500">
+        {tokens.map(token => (
+          <span
+            key={token}
+            className={`flex items-center gap-1 px-2 py-1 text-xs font-medium rounded ${
+              token === primary ? 'bg-primary-600 text-white' : 'bg-primary-100 text-primary-700'
+            } ${unknown.includes(token) ? 'ring-1 ring-amber-400' : ''}`}
+          >
+            <button
+              type="button"
+              onClick={() => onChange(tokens, token)}
+              title={token === primary ? 'Primary token' : 'Make primary token'}
+            >
+              <Star className={`w-3 h-3 ${token === primary ? 'fill-current' : ''}`} />
+            </button>
+            {token}
+            <button type="button" onClick={() => removeToken(token)} title={`Remove ${token}`}>
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          type="text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commitInput}
+          placeholder={tokens.length === 0 ? 'BTC, ETH, SOL...' : 'Add token'}
+          list={definitions.length > 0 ? `${id || 'token-picker'}-registry` : undefined}
+          className="flex-1 min-w-[6rem] outline-none text-sm"
+        />
+        {definitions.length > 0 && (
+          <datalist id={`${id || 'token-picker'}-registry`}>
+            {definitions.map(d => <option key={d.id} value={d.symbol}>{d.name}</option>)}
+          </datalist>
+        )}
+      </div>
+      {rewritten.length > 0 && (
+        <p className="text-xs text-gray-500">
+          {rewritten.map(r => `${r.from} → ${r.to}`).join(', ')} from the ticker registry
+        </p>
+      )}
+      {unknown.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-amber-700">
+          <AlertTriangle className="w-3 h-3" />
+          Not in the ticker registry: {unknown.join(', ')}
+        </p>
+      )}
+      {unusedSuggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span>Add from article:</span>
+          {unusedSuggestions.map(suggestion => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => addTokens([suggestion])}
+              className="flex items-center gap-1 px-2 py-0.5 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              <Plus className="w-3 h-3" />
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
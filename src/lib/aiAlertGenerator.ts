@@ -4,9 +4,11 @@
  */
 
 import type { NewsArticle } from '../types'
+import { normaliseToken, parseTokenList, uniqueTokens, withPrimaryToken } from './alertTokens'
 
 interface AIGeneratedAlert {
   token: string
+  tokens: string[]
   title: string
   body: string
   severity: 'critical' | 'warning' | 'info'
@@ -17,6 +19,16 @@ interface AIGeneratedAlert {
 
 const OPENAI_API_KEY = import.meta.env.VITE_OPENAI_API_KEY
 
+/**
+ * Token symbols from the model's answer, which may be a list or a single string such as "ETH, ARB"
+ */
+function readTokens(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return uniqueTokens(value.filter((token): token is string => typeof token === 'string'))
+  }
+  return typeof value === 'string' ? parseTokenList(value) : []
+}
+
 /**
  * Generate a smart alert from a news article using OpenAI
  */
@@ -38,6 +50,7 @@ Article Details:
 Generate a JSON alert with the following structure:
 {
   "token": "primary token symbol (e.g., BTC, ETH)",
+  "tokens": ["primary token symbol", "every other affected token symbol (e.g., ETH, ARB, OP)"],
   "title": "concise alert title (max 80 chars)",
   "body": "detailed alert description with key facts and implications (2-4 sentences)",
   "severity": "critical | warning | info (based on impact and urgency)",
@@ -92,13 +105,18 @@ Respond ONLY with valid JSON, no markdown or explanation.`
       throw new Error('No response from OpenAI')
     }
 
-    const generatedAlert = JSON.parse(content) as AIGeneratedAlert
+    // Token fields are checked rather than trusted; the rest is used as returned
+    const generatedAlert = JSON.parse(content) as Omit<AIGeneratedAlert, 'token' | 'tokens'> & { token?: unknown; tokens?: unknown }
+    const generatedTokens = readTokens(generatedAlert.tokens)
+    const tokens = generatedTokens.length > 0 ? generatedTokens : uniqueTokens(article.tickers)
+    const token = (typeof generatedAlert.token === 'string' && normaliseToken(generatedAlert.token)) || tokens[0] || 'BTC'
 
     return {
       ...generatedAlert,
       body: generatedAlert.body,  // Use AI body as-is, don't append source URL
       // Fallback to article data if AI didn't provide required fields
-      token: generatedAlert.token || article.tickers[0] || 'BTC',
+      token,
+      tokens: withPrimaryToken(tokens, token),
       title: generatedAlert.title || article.title.substring(0, 80),
     }
   } catch (error) {
@@ -107,6 +125,7 @@ Respond ONLY with valid JSON, no markdown or explanation.`
     // Fallback to basic generation if AI fails
     return {
       token: article.tickers[0] || 'BTC',
+      tokens: article.tickers,
       title: article.title.substring(0, 80),
       body: article.text || article.title,
       severity: article.sentiment === 'negative' ? 'warning' : 'info',
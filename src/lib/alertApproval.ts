@@ -0,0 +1,74 @@
+/**
+ * Alert Approval
+ * Two-person review for high-severity alerts: which saves need approval
+ * and who may approve them
+ */
+
+import type { AlertStatus, ApprovalPolicy } from '../types'
+
+/**
+ * Used until the backend policy has loaded. Critical alerts always need approval.
+ */
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { severities: ['critical'] }
+
+// Statuses that put an alert in front of users, now or at its publish time
+const GOING_LIVE_STATUSES: AlertStatus[] = ['scheduled', 'published']
+
+// Statuses of an alert that has already been through approval (or predates it)
+const LIVE_STATUSES: AlertStatus[] = ['scheduled', 'published', 'expired']
+
+interface ApprovalFields {
+  severity: 'critical' | 'warning' | 'info'
+  status?: AlertStatus | null
+}
+
+/**
+ * Whether alerts of this severity need a second admin before going live
+ */
+export function requiresApproval(severity: ApprovalFields['severity'], policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY): boolean {
+  return severity === 'critical' || policy.severities.some(s => s === severity)
+}
+
+/**
+ * Status to save an alert with. Publishing or scheduling an alert that needs
+ * approval submits it for review instead. Editing an alert that is already
+ * live keeps it live unless the edit raises it into a severity that needs approval.
+ */
+export function resolveSubmitStatus<S extends AlertStatus>(
+  next: ApprovalFields & { status: S },
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY,
+  previous?: ApprovalFields,
+): S | 'pending_approval' {
+  const { status } = next
+  if (!GOING_LIVE_STATUSES.includes(status) || !requiresApproval(next.severity, policy)) {
+    return status
+  }
+  if (previous && LIVE_STATUSES.includes(previous.status || 'published') && requiresApproval(previous.severity, policy)) {
+    return status
+  }
+  return 'pending_approval'
+}
+
+/**
+ * The status an alert in review will get once approved: scheduled if its
+ * publish time is still ahead, otherwise published
+ */
+export function getIntendedStatus(alert: { status?: AlertStatus | null; publish_at?: string | null }, now: Date = new Date()): AlertStatus {
+  if (alert.status !== 'pending_approval' && alert.status !== 'changes_requested') {
+    return alert.status || 'published'
+  }
+  return alert.publish_at && new Date(alert.publish_at).getTime() > now.getTime() ? 'scheduled' : 'published'
+}
+
+/**
+ * Why the current admin may not approve an alert, or undefined if they may
+ */
+export function getApprovalBlocker(alert: { submitted_by?: string | null }, adminName: string | null): string | undefined {
+  if (!adminName) {
+    return 'Log in with your name to review alerts'
+  }
+  if (alert.submitted_by && alert.submitted_by.trim().toLowerCase() === adminName.trim().toLowerCase()) {
+    return 'You submitted this alert, so another admin has to approve it'
+  }
+  return undefined
+}
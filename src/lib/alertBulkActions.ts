@@ -0,0 +1,108 @@
+/**
+ * Alert Bulk Actions
+ * Describes and previews actions applied to many selected alerts at once
+ */
+
+import type { AlertBulkAction, AlertStatus, ApprovalPolicy } from '../types'
+import type { ExistingAlert } from './alertDiff'
+import { DEFAULT_APPROVAL_POLICY, resolveSubmitStatus } from './alertApproval'
+
+export interface BulkActionPreview {
+  before: string
+  after: string
+  skipReason?: string         // Set when the action cannot apply to this alert
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Move an ISO date by whole days
+ */
+export function shiftDate(iso: string, days: number): string {
+  return new Date(new Date(iso).getTime() + days * DAY_MS).toISOString()
+}
+
+const formatDate = (iso?: string | null) => iso
+  ? new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+  : 'None'
+
+const formatTags = (tags: string[]) => tags.length > 0 ? tags.join(', ') : 'None'
+
+/**
+ * Human-readable summary for the confirmation step, e.g. "Add tags hack, exploit"
+ */
+export function describeBulkAction(action: AlertBulkAction): string {
+  switch (action.type) {
+    case 'severity':
+      return `Change severity to ${action.severity}`
+    case 'add_tags':
+      return `Add tags ${action.tags.join(', ')}`
+    case 'remove_tags':
+      return `Remove tags ${action.tags.join(', ')}`
+    case 'shift_deadline': {
+      const days = Math.abs(action.days)
+      return `Move deadlines ${action.days < 0 ? 'earlier' : 'later'} by ${days} day${days === 1 ? '' : 's'}`
+    }
+    case 'archive':
+      return 'Archive'
+    case 'delete':
+      return 'Permanently delete'
+  }
+}
+
+/**
+ * Show what the action will change on one alert, or why it will be skipped
+ */
+export function previewBulkAction(
+  alert: ExistingAlert & { status?: AlertStatus },
+  action: AlertBulkAction,
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY,
+): BulkActionPreview {
+  const tags = alert.tags || []
+  switch (action.type) {
+    case 'severity': {
+      // Raising a live alert into a severity that needs approval has to go through review
+      const status = alert.status || 'published'
+      const needsReview = resolveSubmitStatus({ severity: action.severity, status }, policy, alert) === 'pending_approval'
+      return {
+        before: alert.severity,
+        after: action.severity,
+        skipReason: alert.severity === action.severity
+          ? 'Already this severity'
+          : needsReview ? 'Needs approval; edit the alert to submit it for review' : undefined,
+      }
+    }
+    case 'add_tags': {
+      const lower = tags.map(tag => tag.toLowerCase())
+      const added = action.tags.filter(tag => !lower.includes(tag.toLowerCase()))
+      return {
+        before: formatTags(tags),
+        after: formatTags([...tags, ...added]),
+        skipReason: added.length === 0 ? 'Already has these tags' : undefined,
+      }
+    }
+    case 'remove_tags': {
+      const removed = action.tags.map(tag => tag.toLowerCase())
+      const kept = tags.filter(tag => !removed.includes(tag.toLowerCase()))
+      return {
+        before: formatTags(tags),
+        after: formatTags(kept),
+        skipReason: kept.length === tags.length ? 'Has none of these tags' : undefined,
+      }
+    }
+    case 'shift_deadline':
+      return {
+        before: formatDate(alert.deadline),
+        after: alert.deadline ? formatDate(shiftDate(alert.deadline, action.days)) : 'None',
+        skipReason: alert.deadline ? undefined : 'No deadline set',
+      }
+    case 'archive':
+      return {
+        before: alert.status || 'published',
+        after: 'archived',
+        skipReason: alert.status === 'archived' ? 'Already archived' : undefined,
+      }
+    case 'delete':
+      return { before: 'Exists', after: 'Deleted' }
+  }
+}
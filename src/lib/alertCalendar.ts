@@ -0,0 +1,118 @@
+/**
+ * Alert Calendar
+ * Local-time date helpers for laying out alerts by deadline in month, week and agenda views
+ */
+
+export type CalendarView = 'month' | 'week' | 'agenda'
+
+export const CALENDAR_VIEWS: CalendarView[] = ['month', 'week', 'agenda']
+
+export const AGENDA_DAYS = 30
+
+export const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+/**
+ * Local calendar day as YYYY-MM-DD; the key used to bucket alerts and in the URL
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/**
+ * A stored timestamp as a datetime-local input value in local time, e.g. 2025-11-02T09:00.
+ * The input parses its value as local time, so formatting from the UTC string would shift it on every save.
+ */
+export function toLocalInputValue(iso: string | null | undefined): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  if (Number.isNaN(date.getTime())) return ''
+  const hours = String(date.getHours()).padStart(2, '0')
+  const minutes = String(date.getMinutes()).padStart(2, '0')
+  return `${toDayKey(date)}T${hours}:${minutes}`
+}
+
+/**
+ * Parse a YYYY-MM-DD key as local midnight, or null if invalid
+ */
+export function fromDayKey(key: string | null): Date | null {
+  const match = key?.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/**
+ * Monday of the week containing the date
+ */
+export function startOfWeek(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7))
+}
+
+/**
+ * Every day shown for a view, starting at the anchor date's month grid, week or day
+ */
+export function getVisibleDays(view: CalendarView, anchor: Date): Date[] {
+  if (view === 'week') {
+    const start = startOfWeek(anchor)
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i))
+  }
+  if (view === 'agenda') {
+    return Array.from({ length: AGENDA_DAYS }, (_, i) => addDays(anchor, i))
+  }
+  // Six full weeks always cover a month, so the grid never changes height
+  const start = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1))
+  return Array.from({ length: 42 }, (_, i) => addDays(start, i))
+}
+
+/**
+ * Anchor date after stepping one view-length forwards or backwards
+ */
+export function stepAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'month') return new Date(anchor.getFullYear(), anchor.getMonth() + direction, 1)
+  if (view === 'week') return addDays(anchor, 7 * direction)
+  return addDays(anchor, AGENDA_DAYS * direction)
+}
+
+/**
+ * Heading for the current view, e.g. "November 2025" or "3 Nov – 9 Nov 2025"
+ */
+export function formatViewTitle(view: CalendarView, anchor: Date): string {
+  if (view === 'month') {
+    return anchor.toLocaleDateString('en-GB', { month: 'long', year: 'numeric' })
+  }
+  const days = getVisibleDays(view, anchor)
+  const first = days[0].toLocaleDateString('en-GB', { day: 'numeric', month: 'short' })
+  const last = days[days.length - 1].toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+  return `${first} – ${last}`
+}
+
+/**
+ * Group items by the local day of their deadline, each day sorted by time
+ */
+export function groupByDeadlineDay<T extends { deadline?: string | null }>(items: T[]): Map<string, T[]> {
+  const byDay = new Map<string, T[]>()
+  const sorted = items
+    .filter(item => item.deadline && !Number.isNaN(new Date(item.deadline).getTime()))
+    .sort((a, b) => new Date(a.deadline!).getTime() - new Date(b.deadline!).getTime())
+  for (const item of sorted) {
+    const key = toDayKey(new Date(item.deadline!))
+    byDay.set(key, [...(byDay.get(key) || []), item])
+  }
+  return byDay
+}
+
+/**
+ * Move a deadline onto another day, keeping its time of day
+ */
+export function moveToDay(deadline: string, dayKey: string): string {
+  const current = new Date(deadline)
+  const target = fromDayKey(dayKey)!
+  target.setHours(current.getHours(), current.getMinutes(), current.getSeconds())
+  return target.toISOString()
+}
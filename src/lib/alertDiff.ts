@@ -0,0 +1,168 @@
+/**
+ * Alert Import Dry Run
+ * Compares parsed import rows against existing alerts to find new, changed,
+ * unchanged and conflicting rows before anything is written
+ */
+
+import type { AlertStatus } from '../types'
+import type { AlertImportPayload } from './alertImport'
+import { getAlertTokens } from './alertTokens'
+import { findLikelyDuplicates, type DuplicateCandidate } from './alertDuplicates'
+
+/**
+ * Minimal shape of an alert returned by /api/alerts that the diff needs
+ */
+export interface ExistingAlert {
+  id: string | number
+  token: string
+  tokens?: string[]
+  title: string
+  description?: string | null
+  severity: 'info' | 'warning' | 'critical'
+  tags?: string[]
+  deadline?: string | null
+  further_info?: string
+  source_type?: string
+  source_url?: string
+  status?: AlertStatus | null
+  created_at?: string
+}
+
+export type DiffStatus = 'created' | 'updated' | 'unchanged' | 'conflict'
+
+export type DiffField = 'tokens' | 'description' | 'severity' | 'tags' | 'deadline' | 'further_info' | 'source_type' | 'source_url'
+
+export interface FieldChange {
+  field: DiffField
+  before: string
+  after: string
+}
+
+export interface AlertDiffEntry {
+  line: number
+  status: DiffStatus
+  payload: AlertImportPayload
+  existing?: ExistingAlert
+  changes: FieldChange[]
+  reason?: string             // Why a row is a conflict
+  duplicates?: DuplicateCandidate<ExistingAlert>[]   // Near-duplicates of a row that would be created
+}
+
+const DIFF_FIELDS: DiffField[] = ['tokens', 'description', 'severity', 'tags', 'deadline', 'further_info', 'source_type', 'source_url']
+
+/**
+ * Alerts are considered the same when token and title match, ignoring case and spacing
+ */
+export function alertKey(token: string, title: string): string {
+  return `${token.trim().toUpperCase()}::${title.trim().replace(/\s+/g, ' ').toLowerCase()}`
+}
+
+function formatValue(field: DiffField, value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (field === 'tokens') {
+    return [...(value as string[])].sort().join(', ')
+  }
+  if (field === 'tags') {
+    return (value as string[]).map(tag => tag.toLowerCase()).sort().join(', ')
+  }
+  if (field === 'deadline') {
+    const time = new Date(value as string).getTime()
+    return Number.isNaN(time) ? String(value) : new Date(time).toISOString()
+  }
+  return String(value).trim()
+}
+
+/**
+ * Blank import cells leave the existing value untouched, so only fields
+ * the row actually provides are compared
+ */
+function isProvided(field: DiffField, payload: AlertImportPayload): boolean {
+  const value = payload[field]
+  if (Array.isArray(value)) return value.length > 0
+  return value !== undefined && value !== null && value !== ''
+}
+
+function compareFields(payload: AlertImportPayload, existing: ExistingAlert): FieldChange[] {
+  return DIFF_FIELDS
+    .filter(field => isProvided(field, payload))
+    .map(field => ({
+      field,
+      before: formatValue(field, field === 'tokens' ? getAlertTokens(existing) : existing[field]),
+      after: formatValue(field, payload[field]),
+    }))
+    .filter(change => change.before !== change.after)
+}
+
+/**
+ * Classify each import row against the current alert list
+ */
+export function diffAlerts(
+  rows: Array<{ line: number; payload: AlertImportPayload }>,
+  existingAlerts: ExistingAlert[],
+  now: Date = new Date()
+): AlertDiffEntry[] {
+  const existingByKey = new Map<string, ExistingAlert[]>()
+  for (const alert of existingAlerts) {
+    const key = alertKey(alert.token, alert.title)
+    existingByKey.set(key, [...(existingByKey.get(key) || []), alert])
+  }
+
+  const rowsPerKey = new Map<string, number>()
+  for (const row of rows) {
+    const key = alertKey(row.payload.token, row.payload.title)
+    rowsPerKey.set(key, (rowsPerKey.get(key) || 0) + 1)
+  }
+
+  return rows.map(({ line, payload }) => {
+    const key = alertKey(payload.token, payload.title)
+    const matches = existingByKey.get(key) || []
+
+    if ((rowsPerKey.get(key) || 0) > 1) {
+      return { line, status: 'conflict', payload, existing: matches[0], changes: [], reason: 'Same token and title appears more than once in the file' }
+    }
+    if (matches.length > 1) {
+      return { line, status: 'conflict', payload, existing: matches[0], changes: [], reason: `${matches.length} existing alerts share this token and title` }
+    }
+    if (matches.length === 0) {
+      const duplicates = findLikelyDuplicates({ ...payload, body: payload.description }, existingAlerts, now)
+      return { line, status: 'created', payload, changes: [], duplicates }
+    }
+
+    const changes = compareFields(payload, matches[0])
+    return {
+      line,
+      status: changes.length > 0 ? 'updated' : 'unchanged',
+      payload,
+      existing: matches[0],
+      changes,
+    }
+  })
+}
+
+/**
+ * Point a row at a specific existing alert (e.g. a near-duplicate the admin chose),
+ * so committing it updates that alert instead of creating a new one
+ */
+export function retargetEntry(entry: AlertDiffEntry, existing: ExistingAlert): AlertDiffEntry {
+  const changes = compareFields(entry.payload, existing)
+  return {
+    line: entry.line,
+    status: changes.length > 0 ? 'updated' : 'unchanged',
+    payload: entry.payload,
+    existing,
+    changes,
+  }
+}
+
+/**
+ * Merge an import row over the alert it updates, keeping existing values for blank cells
+ */
+export function mergeIntoExisting<T extends ExistingAlert>(existing: T, payload: AlertImportPayload): T {
+  const merged: T = { ...existing }
+  for (const field of DIFF_FIELDS) {
+    if (isProvided(field, payload)) {
+      Object.assign(merged, { [field]: payload[field] })
+    }
+  }
+  return merged
+}
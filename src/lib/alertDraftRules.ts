@@ -0,0 +1,144 @@
+/**
+ * Alert Draft Rules
+ * Rules that turn matching news articles into draft alerts for an admin to review. The
+ * backend drafts as articles are ingested; the same logic runs here to simulate a rule
+ * over the current cache before it is enabled.
+ */
+
+import type { AlertDraftRuleInput, NewAlertInput, NewsArticle } from '../types'
+import { formatTemplateDate } from './alertTemplates'
+import { EMPTY_WATCH_RULE, matchWatchRule, validateWatchRule } from './watchRules'
+
+export type DraftPlaceholder = 'token' | 'title' | 'source' | 'url' | 'date'
+
+export const DRAFT_PLACEHOLDERS: Array<{ key: DraftPlaceholder; label: string; example: string }> = [
+  { key: 'token', label: 'Token', example: 'ETH' },
+  { key: 'title', label: 'Article title', example: 'Bridge drained of $40M' },
+  { key: 'source', label: 'Source', example: 'CoinDesk' },
+  { key: 'url', label: 'Article URL', example: 'https://example.com/article' },
+  { key: 'date', label: 'Article date', example: '15 November 2025' },
+]
+
+// New rules start disabled so they are simulated before they draft anything
+export const EMPTY_DRAFT_RULE: AlertDraftRuleInput = {
+  name: '',
+  enabled: false,
+  conditions: EMPTY_WATCH_RULE.conditions,
+  alert: {
+    title: '',
+    body: '',
+    severity: 'warning',
+    tags: [],
+  },
+}
+
+type DraftArticle = Pick<
+  NewsArticle,
+  'article_url' | 'title' | 'text' | 'date' | 'tickers' | 'source_name' | 'sentiment' | 'alert_created' | 'linked_alerts'
+>
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(token|title|source|url|date)\s*\}\}/g
+
+/**
+ * Unknown {{placeholders}} in a rule's title or body, e.g. a typo like {{tokn}}
+ */
+export function findUnknownDraftPlaceholders(text: string): string[] {
+  const known = DRAFT_PLACEHOLDERS.map(p => p.key as string)
+  const names = Array.from(text.matchAll(/\{\{\s*([^}\s]*)\s*\}\}/g), match => match[1])
+  return Array.from(new Set(names.filter(name => !known.includes(name))))
+}
+
+export function validateAlertDraftRule(rule: AlertDraftRuleInput): string[] {
+  const errors = validateWatchRule(rule)
+  if (!rule.alert.title.trim()) errors.push('Alert title is required')
+  const unknown = findUnknownDraftPlaceholders(`${rule.alert.title}\n${rule.alert.body || ''}`)
+  if (unknown.length > 0) errors.push(`Unknown placeholders: ${unknown.map(name => `{{${name}}}`).join(', ')}`)
+  return errors
+}
+
+/**
+ * Tokens a draft targets: the article's tickers that satisfy the rule's ticker and minimum
+ * watchers conditions, or all of them when neither is set. The first is the primary token.
+ */
+export function getDraftTokens(
+  article: Pick<NewsArticle, 'tickers'>,
+  rule: AlertDraftRuleInput,
+  watchers: Record<string, number> = {},
+): string[] {
+  const { tickers, min_watchers: minWatchers } = rule.conditions
+  return article.tickers
+    .filter(ticker => tickers.length === 0 || tickers.includes(ticker))
+    .filter(ticker => minWatchers === null || (watchers[ticker] || 0) >= minWatchers)
+}
+
+/**
+ * Why a matching article would not be drafted, or null when it would
+ */
+export function getDraftSkipReason(
+  article: DraftArticle,
+  rule: AlertDraftRuleInput,
+  watchers: Record<string, number> = {},
+): string | null {
+  if (article.alert_created || (article.linked_alerts?.length || 0) > 0) return 'Article already has an alert'
+  if (getDraftTokens(article, rule, watchers).length === 0) return 'No ticker on the article fits the rule'
+  return null
+}
+
+export function fillDraftText(text: string, article: DraftArticle, token: string): string {
+  const values: Record<DraftPlaceholder, string> = {
+    token,
+    title: article.title,
+    source: article.source_name,
+    url: article.article_url,
+    date: formatTemplateDate(article.date),
+  }
+  return text.replace(PLACEHOLDER_PATTERN, (_placeholder, key: DraftPlaceholder) => values[key])
+}
+
+/**
+ * The createAlert payload a rule produces for an article. Always a draft: rules never publish.
+ */
+export function buildDraftAlert(
+  article: DraftArticle,
+  rule: AlertDraftRuleInput,
+  watchers: Record<string, number> = {},
+): NewAlertInput {
+  const tokens = getDraftTokens(article, rule, watchers)
+  const token = tokens[0] || ''
+  return {
+    token,
+    tokens,
+    title: fillDraftText(rule.alert.title, article, token),
+    body: fillDraftText(rule.alert.body || '', article, token),
+    severity: rule.alert.severity,
+    tags: [...(rule.alert.tags || [])],
+    source_url: article.article_url,
+    source_urls: [article.article_url],
+    status: 'draft',
+  }
+}
+
+export interface DraftSimulationResult {
+  article: DraftArticle
+  matched: string[]
+  draft: NewAlertInput | null
+  skippedReason: string | null
+}
+
+/**
+ * Replay a rule over articles, e.g. the current cache, without creating anything.
+ * `watchers` maps a symbol to how many users watch it.
+ */
+export function simulateDraftRule(
+  articles: DraftArticle[],
+  rule: AlertDraftRuleInput,
+  watchers: Record<string, number> = {},
+): DraftSimulationResult[] {
+  return articles.flatMap(article => {
+    const matched = matchWatchRule(article, rule.conditions, watchers)
+    if (!matched) return []
+    const skippedReason = getDraftSkipReason(article, rule, watchers)
+    const draft = skippedReason ? null : buildDraftAlert(article, rule, watchers)
+    return [{ article, matched, draft, skippedReason }]
+  })
+}
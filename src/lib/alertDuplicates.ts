@@ -0,0 +1,145 @@
+/**
+ * Alert Duplicate Detection
+ * Finds existing alerts that a new alert probably repeats: same token,
+ * similar wording and created recently
+ */
+
+import type { ExistingAlert } from './alertDiff'
+import { getAlertTokens, uniqueTokens } from './alertTokens'
+
+export const DUPLICATE_WINDOW_DAYS = 14
+
+// Below this similarity two alerts on the same token are treated as different incidents
+export const DUPLICATE_SIMILARITY = 0.5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+])
+
+const SEVERITY_RANK = { info: 0, warning: 1, critical: 2 } as const
+
+/**
+ * An alert that is about to be created
+ */
+export interface AlertDraft {
+  token: string
+  tokens?: string[]
+  title: string
+  body?: string
+  severity: 'critical' | 'warning' | 'info'
+  tags?: string[]
+  deadline?: string | null
+}
+
+export type DuplicateSource = ExistingAlert & {
+  body?: string | null        // Some endpoints return the description as body
+  created_at?: string
+}
+
+export interface DuplicateCandidate<T extends DuplicateSource = DuplicateSource> {
+  alert: T
+  score: number               // 0-1 text similarity
+  sharedTokens: string[]
+}
+
+/**
+ * Significant lowercase words of a text
+ */
+export function significantWords(text: string | null | undefined): Set<string> {
+  return new Set(
+    (text || '')
+      .toLowerCase()
+      .split(/[^a-z0-9$]+/)
+      .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+  )
+}
+
+/**
+ * Jaccard similarity of two word sets
+ */
+export function wordSetSimilarity(left: Set<string>, right: Set<string>): number {
+  if (left.size === 0 || right.size === 0) return 0
+  let shared = 0
+  for (const word of left) {
+    if (right.has(word)) shared++
+  }
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Jaccard similarity of the word sets of two texts
+ */
+export function textSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  return wordSetSimilarity(significantWords(a), significantWords(b))
+}
+
+const alertBody = (alert: DuplicateSource) => alert.description ?? alert.body ?? ''
+
+/**
+ * Titles carry most of the signal; bodies only count when both sides have one
+ */
+function alertSimilarity(draft: AlertDraft, alert: DuplicateSource): number {
+  const titleScore = textSimilarity(draft.title, alert.title)
+  const body = alertBody(alert)
+  if (!draft.body || !body) return titleScore
+  return Math.max(titleScore, 0.7 * titleScore + 0.3 * textSimilarity(draft.body, body))
+}
+
+/**
+ * Existing alerts that share a token with the draft, were created within the
+ * window and read similarly, most similar first
+ */
+export function findLikelyDuplicates<T extends DuplicateSource>(
+  draft: AlertDraft,
+  existing: T[],
+  now: Date = new Date()
+): DuplicateCandidate<T>[] {
+  const draftTokens = uniqueTokens([draft.token, ...(draft.tokens || [])])
+  const windowStart = now.getTime() - DUPLICATE_WINDOW_DAYS * DAY_MS
+
+  return existing
+    .filter(alert => !alert.created_at || new Date(alert.created_at).getTime() >= windowStart)
+    .map(alert => ({
+      alert,
+      score: alertSimilarity(draft, alert),
+      sharedTokens: getAlertTokens(alert).filter(token => draftTokens.includes(token)),
+    }))
+    .filter(candidate => candidate.sharedTokens.length > 0 && candidate.score >= DUPLICATE_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Fold a draft into an existing alert: the existing wording stays, new tokens and tags are
+ * added, severity only escalates and the draft's body is appended as an update
+ */
+export function mergeDraftIntoAlert<T extends DuplicateSource>(existing: T, draft: AlertDraft): T {
+  const description = alertBody(existing)
+  const draftBody = draft.body?.trim()
+  const addBody = draftBody && !description.includes(draftBody)
+  return {
+    ...existing,
+    tokens: uniqueTokens([...getAlertTokens(existing), draft.token, ...(draft.tokens || [])]),
+    tags: Array.from(new Set([...(existing.tags || []), ...(draft.tags || [])])),
+    severity: SEVERITY_RANK[draft.severity] > SEVERITY_RANK[existing.severity] ? draft.severity : existing.severity,
+    description: addBody ? `${description}${description ? '\n\nUpdate: ' : ''}${draftBody}` : description,
+    deadline: existing.deadline || draft.deadline || null,
+  }
+}
+
+/**
+ * Replace an existing alert's content with the draft, keeping its identity and primary token
+ */
+export function updateAlertWithDraft<T extends DuplicateSource>(existing: T, draft: AlertDraft): T {
+  return {
+    ...existing,
+    tokens: uniqueTokens([...getAlertTokens(existing), draft.token, ...(draft.tokens || [])]),
+    title: draft.title,
+    description: draft.body || '',
+    severity: draft.severity,
+    tags: draft.tags || [],
+    deadline: draft.deadline ?? existing.deadline ?? null,
+  }
+}
@@ -0,0 +1,296 @@
+/**
+ * Alert Export
+ * Builds downloadable files from alerts already loaded in the admin panel
+ */
+
+import { toCsv } from './csv'
+import { getAlertTokens } from './alertTokens'
+import { markdownToPlainText } from './markdown'
+import { getAlertStatus } from './alertLifecycle'
+import type { ExistingAlert } from './alertDiff'
+
+export type ExportFormat = 'csv' | 'json' | 'ics' | 'rss' | 'atom'
+
+// publishedOnly formats are meant to be shared, so they never include alerts users can't see
+export const EXPORT_FORMATS: Array<{ key: ExportFormat; label: string; extension: string; mimeType: string; publishedOnly?: boolean }> = [
+  { key: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { key: 'json', label: 'JSON (bulk upload format)', extension: 'json', mimeType: 'application/json' },
+  { key: 'ics', label: 'iCalendar deadlines', extension: 'ics', mimeType: 'text/calendar', publishedOnly: true },
+  { key: 'rss', label: 'RSS 2.0', extension: 'rss', mimeType: 'application/rss+xml', publishedOnly: true },
+  { key: 'atom', label: 'Atom', extension: 'atom', mimeType: 'application/atom+xml', publishedOnly: true },
+]
+
+/**
+ * Alert fields feeds can use beyond the bulk upload schema
+ */
+export type ExportAlert = ExistingAlert & {
+  created_at?: string
+  updated_at?: string
+  publish_at?: string | null
+}
+
+const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
+
+/**
+ * Whether users can see the alert, i.e. it is published or expired right now.
+ * Calendar and feed output is limited to these whatever the current filters are.
+ */
+export function isPublicAlert(alert: ExportAlert, now: Date = new Date()): boolean {
+  const status = getAlertStatus(alert, now)
+  return status === 'published' || status === 'expired'
+}
+
+/**
+ * Public read-only feeds for calendar apps and syndication partners
+ */
+export const PUBLIC_FEED_URLS = {
+  ics: `${API_BASE_URL}/api/alerts/calendar.ics`,
+  rss: `${API_BASE_URL}/api/alerts/feed.rss`,
+  atom: `${API_BASE_URL}/api/alerts/feed.atom`,
+}
+
+/**
+ * Field order matches the bulk upload field names, so an export can be re-imported unchanged
+ */
+const IMPORT_COLUMNS = ['token', 'tokens', 'title', 'description', 'severity', 'tags', 'deadline', 'further_info', 'source_type', 'source_url'] as const
+
+function toImportRecord(alert: ExistingAlert) {
+  return {
+    token: alert.token,
+    tokens: getAlertTokens(alert),
+    title: alert.title,
+    description: alert.description || '',
+    severity: alert.severity,
+    tags: alert.tags || [],
+    deadline: alert.deadline || null,
+    further_info: alert.further_info || '',
+    source_type: alert.source_type || '',
+    source_url: alert.source_url || '',
+  }
+}
+
+/**
+ * Serialise alerts to CSV with one header row
+ */
+export function alertsToCsv(alerts: ExistingAlert[]): string {
+  const rows = alerts.map(alert => {
+    const record = toImportRecord(alert)
+    return IMPORT_COLUMNS.map(column => {
+      const value = record[column]
+      return Array.isArray(value) ? value.join(', ') : value ?? ''
+    })
+  })
+  return toCsv([[...IMPORT_COLUMNS], ...rows])
+}
+
+/**
+ * Serialise alerts as a JSON array accepted by bulk upload
+ */
+export function alertsToJson(alerts: ExistingAlert[]): string {
+  return JSON.stringify(alerts.map(toImportRecord), null, 2)
+}
+
+/**
+ * Escape text for an iCalendar TEXT value (RFC 5545 3.3.11)
+ */
+function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+const utf8Length = (char: string) => {
+  const codePoint = char.codePointAt(0)!
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4
+}
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines (RFC 5545 3.1).
+ * Lengths are UTF-8 bytes and lines only break between characters.
+ */
+function foldIcsLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  // Continuation lines start with a space, which counts towards the limit
+  let limit = 75
+  for (const char of line) {
+    const size = utf8Length(char)
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+      limit = 74
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+const toIcsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+
+/**
+ * Serialise published and expired alerts with deadlines as iCalendar events at their deadline.
+ * UIDs are stable per alert, so re-importing updates events instead of duplicating them.
+ */
+export function alertsToIcs(alerts: ExportAlert[], calendarName = 'CLG Alert Deadlines'): string {
+  const stamp = toIcsDate(new Date())
+  const events = alerts
+    .filter(alert => isPublicAlert(alert) && alert.deadline && !Number.isNaN(new Date(alert.deadline).getTime()))
+    .flatMap(alert => {
+      const tokens = getAlertTokens(alert).join(', ')
+      const lines = [
+        'BEGIN:VEVENT',
+        `UID:alert-${alert.id}@clg-admin`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${toIcsDate(new Date(alert.deadline!))}`,
+        'DURATION:PT30M',
+        `SUMMARY:${escapeIcsText(`[${alert.severity.toUpperCase()}] ${tokens}: ${alert.title}`)}`,
+      ]
+      if (alert.description) lines.push(`DESCRIPTION:${escapeIcsText(markdownToPlainText(alert.description))}`)
+      if (alert.tags?.length) lines.push(`CATEGORIES:${alert.tags.map(escapeIcsText).join(',')}`)
+      if (alert.source_url) lines.push(`URL:${alert.source_url}`)
+      lines.push('END:VEVENT')
+      return lines
+    })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CLG//Admin Panel//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n'
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+const feedTitle = (alert: ExistingAlert) =>
+  `[${alert.severity.toUpperCase()}] ${getAlertTokens(alert).join(', ')}: ${alert.title}`
+
+// Feeds need a date per item; fall back through the lifecycle timestamps
+const feedDate = (alert: ExportAlert) =>
+  new Date(alert.publish_at || alert.created_at || alert.updated_at || Date.now())
+
+const FEED_TITLE = 'CLG Security Alerts'
+const FEED_DESCRIPTION = 'Security alerts and deadlines for crypto tokens'
+
+/**
+ * Serialise published and expired alerts as an RSS 2.0 channel, newest first
+ */
+export function alertsToRss(alerts: ExportAlert[], selfUrl = PUBLIC_FEED_URLS.rss): string {
+  const items = alerts
+    .filter(alert => isPublicAlert(alert))
+    .sort((a, b) => feedDate(b).getTime() - feedDate(a).getTime())
+    .map(alert => [
+      '    <item>',
+      `      <title>${escapeXml(feedTitle(alert))}</title>`,
+      alert.source_url ? `      <link>${escapeXml(alert.source_url)}</link>` : '',
+      `      <guid isPermaLink="false">alert-${alert.id}@clg-admin</guid>`,
+      `      <pubDate>${feedDate(alert).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(markdownToPlainText(alert.description || ''))}</description>`,
+      ...(alert.tags || []).map(tag => `      <category>${escapeXml(tag)}</category>`),
+      '    </item>',
+    ].filter(Boolean).join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+    '  <channel>',
+    `    <title>${FEED_TITLE}</title>`,
+    `    <link>${escapeXml(selfUrl)}</link>`,
+    `    <atom:link href="${escapeXml(selfUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <description>${FEED_DESCRIPTION}</description>`,
+    `    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Serialise published and expired alerts as an Atom feed, newest first
+ */
+export function alertsToAtom(alerts: ExportAlert[], selfUrl = PUBLIC_FEED_URLS.atom): string {
+  const entries = alerts
+    .filter(alert => isPublicAlert(alert))
+    .sort((a, b) => feedDate(b).getTime() - feedDate(a).getTime())
+    .map(alert => [
+      '  <entry>',
+      `    <id>urn:clg:alert:${alert.id}</id>`,
+      `    <title>${escapeXml(feedTitle(alert))}</title>`,
+      `    <published>${feedDate(alert).toISOString()}</published>`,
+      `    <updated>${new Date(alert.updated_at || feedDate(alert)).toISOString()}</updated>`,
+      alert.source_url ? `    <link rel="alternate" href="${escapeXml(alert.source_url)}" />` : '',
+      `    <summary>${escapeXml(markdownToPlainText(alert.description || ''))}</summary>`,
+      ...(alert.tags || []).map(tag => `    <category term="${escapeXml(tag)}" />`),
+      '  </entry>',
+    ].filter(Boolean).join('\n'))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>urn:clg:alerts</id>`,
+    `  <title>${FEED_TITLE}</title>`,
+    `  <subtitle>${FEED_DESCRIPTION}</subtitle>`,
+    `  <link rel="self" href="${escapeXml(selfUrl)}" />`,
+    `  <updated>${new Date().toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n')
+}
+
+/**
+ * Serialise alerts in any supported export format
+ */
+export function exportAlerts(alerts: ExportAlert[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return alertsToCsv(alerts)
+    case 'json':
+      return alertsToJson(alerts)
+    case 'ics':
+      return alertsToIcs(alerts)
+    case 'rss':
+      return alertsToRss(alerts)
+    case 'atom':
+      return alertsToAtom(alerts)
+  }
+}
+
+/**
+ * Trigger a browser download of generated text content
+ */
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  // Some browsers ignore clicks on detached links, and revoking straight away can cancel the download
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/**
+ * File-name-safe timestamp, e.g. 2025-11-02-0914
+ */
+export function exportTimestamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 16).replace('T', '-').replace(':', '')
+}
@@ -0,0 +1,236 @@
+/**
+ * Alert Import
+ * Column mapping, row validation and payload building for bulk alert upload
+ */
+
+import type { AlertStatus } from '../types'
+import { parseCsv } from './csv'
+import { normaliseToken, parseTokenList, withPrimaryToken } from './alertTokens'
+
+export type AlertImportField =
+  | 'token'
+  | 'tokens'
+  | 'title'
+  | 'description'
+  | 'severity'
+  | 'tags'
+  | 'deadline'
+  | 'further_info'
+  | 'source_type'
+  | 'source_url'
+
+export interface AlertImportFieldDef {
+  key: AlertImportField
+  label: string
+  required: boolean
+  aliases: string[]           // Normalised header names that map onto this field
+}
+
+export const ALERT_IMPORT_FIELDS: AlertImportFieldDef[] = [
+  { key: 'token', label: 'Primary Token', required: true, aliases: ['token', 'primarytoken', 'symbol', 'ticker', 'coin', 'asset'] },
+  { key: 'tokens', label: 'Tokens', required: false, aliases: ['tokens', 'symbols', 'tickers', 'coins', 'assets', 'affectedtokens'] },
+  { key: 'title', label: 'Title', required: true, aliases: ['title', 'headline', 'subject', 'name'] },
+  { key: 'description', label: 'Description', required: false, aliases: ['description', 'body', 'text', 'message', 'details', 'content'] },
+  { key: 'severity', label: 'Severity', required: true, aliases: ['severity', 'level', 'priority', 'type'] },
+  { key: 'tags', label: 'Tags', required: false, aliases: ['tags', 'tag', 'labels', 'categories', 'category'] },
+  { key: 'deadline', label: 'Deadline', required: false, aliases: ['deadline', 'date', 'due', 'duedate', 'expires', 'expiry'] },
+  { key: 'further_info', label: 'Further Info', required: false, aliases: ['furtherinfo', 'notes', 'moreinfo', 'info'] },
+  { key: 'source_type', label: 'Source Type', required: false, aliases: ['sourcetype', 'origin'] },
+  { key: 'source_url', label: 'Source URL', required: false, aliases: ['sourceurl', 'source', 'url', 'link'] },
+]
+
+export const ALERT_SEVERITIES = ['info', 'warning', 'critical'] as const
+
+export const SOURCE_TYPES = ['anonymous', 'mainstream-media', 'trusted-source', 'social-media', 'dev-team'] as const
+
+/**
+ * Column index -> alert field; null means the column is ignored
+ */
+export type ColumnMapping = Array<AlertImportField | null>
+
+export type ImportValues = Partial<Record<AlertImportField, string>>
+
+export type ImportErrors = Partial<Record<AlertImportField, string>>
+
+export interface ImportRow {
+  line: number                // 1-based record number in the source file (excluding header)
+  values: ImportValues
+  skip: boolean
+}
+
+/**
+ * Raw tabular data read from an uploaded file, before mapping
+ */
+export interface ImportTable {
+  headers: string[]
+  records: string[][]
+}
+
+export interface AlertImportPayload {
+  token: string
+  tokens: string[]
+  title: string
+  description: string
+  severity: 'info' | 'warning' | 'critical'
+  tags: string[]
+  deadline: string | null
+  further_info?: string
+  source_type?: string
+  source_url?: string
+  status?: AlertStatus          // Set on commit; rows that need approval are submitted for review
+}
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Read an uploaded CSV or JSON file into headers and string records.
+ * JSON must be an array of objects; the header list is the union of their keys.
+ */
+export function readImportTable(fileName: string, text: string): ImportTable {
+  const name = fileName.toLowerCase()
+
+  if (name.endsWith('.csv')) {
+    const [headers = [], ...records] = parseCsv(text)
+    return { headers: headers.map(h => h.trim()), records }
+  }
+
+  if (name.endsWith('.json')) {
+    const parsed: unknown = JSON.parse(text)
+    if (!Array.isArray(parsed)) {
+      throw new Error('JSON file must contain an array of alert objects')
+    }
+    const objects = parsed.filter((item): item is Record<string, unknown> =>
+      typeof item === 'object' && item !== null && !Array.isArray(item)
+    )
+    const headers = Array.from(new Set(objects.flatMap(item => Object.keys(item))))
+    const records = objects.map(item => headers.map(header => stringifyCell(item[header])))
+    return { headers, records }
+  }
+
+  throw new Error('Invalid file format. Use JSON or CSV.')
+}
+
+function stringifyCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (Array.isArray(value)) return value.map(v => String(v)).join(', ')
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Guess a column mapping from header names. Each field is used at most once.
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<AlertImportField>()
+  return headers.map(header => {
+    const normalised = normaliseHeader(header)
+    const match = ALERT_IMPORT_FIELDS.find(field => !used.has(field.key) && field.aliases.includes(normalised))
+    if (!match) return null
+    used.add(match.key)
+    return match.key
+  })
+}
+
+/**
+ * Apply a column mapping to raw records
+ */
+export function buildImportRows(table: ImportTable, mapping: ColumnMapping): ImportRow[] {
+  return table.records.map((record, index) => {
+    const values: ImportValues = {}
+    mapping.forEach((field, column) => {
+      if (field) {
+        values[field] = (record[column] ?? '').trim()
+      }
+    })
+    return { line: index + 1, values, skip: false }
+  })
+}
+
+/**
+ * Split a tag cell on commas, semicolons or pipes
+ */
+export function parseTags(value: string | undefined): string[] {
+  if (!value) return []
+  return value.split(/[,;|]/).map(tag => tag.trim()).filter(Boolean)
+}
+
+/**
+ * Parse a deadline cell into an ISO string. Returns null for empty input
+ * and undefined when the value is not a recognisable date.
+ */
+export function parseDeadline(value: string | undefined): string | null | undefined {
+  if (!value) return null
+  const time = new Date(value).getTime()
+  if (Number.isNaN(time)) return undefined
+  return new Date(time).toISOString()
+}
+
+/**
+ * Validate the mapped values of a single row
+ */
+export function validateImportRow(values: ImportValues): ImportErrors {
+  const errors: ImportErrors = {}
+
+  const tokens = parseTokenList(values.tokens)
+  const symbolPattern = /^[A-Za-z0-9.$_-]{1,20}$/
+  if (!values.token && tokens.length === 0) {
+    errors.token = 'Token is required'
+  } else if (values.token && !symbolPattern.test(values.token)) {
+    errors.token = 'Token must be a short symbol such as BTC'
+  }
+  const badToken = tokens.find(token => !symbolPattern.test(token))
+  if (badToken) {
+    errors.tokens = `"${badToken}" is not a valid token symbol`
+  }
+
+  if (!values.title) {
+    errors.title = 'Title is required'
+  }
+
+  const severity = values.severity?.toLowerCase()
+  if (!severity) {
+    errors.severity = 'Severity is required'
+  } else if (!(ALERT_SEVERITIES as readonly string[]).includes(severity)) {
+    errors.severity = `Severity must be one of: ${ALERT_SEVERITIES.join(', ')}`
+  }
+
+  if (parseDeadline(values.deadline) === undefined) {
+    errors.deadline = 'Deadline is not a valid date'
+  }
+
+  if (values.source_type && !(SOURCE_TYPES as readonly string[]).includes(values.source_type)) {
+    errors.source_type = `Source type must be one of: ${SOURCE_TYPES.join(', ')}`
+  }
+
+  if (values.source_url) {
+    try {
+      new URL(values.source_url)
+    } catch {
+      errors.source_url = 'Source URL is not a valid URL'
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Convert a valid row into the payload accepted by /api/alerts/bulk
+ */
+export function toAlertPayload(values: ImportValues): AlertImportPayload {
+  // Without an explicit primary token, the first listed token is primary
+  const listed = parseTokenList(values.tokens)
+  const primary = values.token ? normaliseToken(values.token) : listed[0] || ''
+  const payload: AlertImportPayload = {
+    token: primary,
+    tokens: withPrimaryToken(listed, primary),
+    title: values.title || '',
+    description: values.description || '',
+    severity: (values.severity || 'info').toLowerCase() as AlertImportPayload['severity'],
+    tags: parseTags(values.tags),
+    deadline: parseDeadline(values.deadline) ?? null,
+  }
+  if (values.further_info) payload.further_info = values.further_info
+  if (values.source_type) payload.source_type = values.source_type
+  if (values.source_url) payload.source_url = values.source_url
+  return payload
+}
@@ -0,0 +1,68 @@
+/**
+ * Alert Lifecycle
+ * Derives the effective state of an alert from its stored status, publish time and deadline
+ */
+
+import type { AlertStatus } from '../types'
+
+export const ALERT_STATUSES: AlertStatus[] = ['draft', 'pending_approval', 'changes_requested', 'scheduled', 'published', 'expired', 'archived']
+
+/**
+ * Days an alert stays visible as "expired" after its deadline before it is archived
+ */
+export const AUTO_ARCHIVE_AFTER_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface LifecycleFields {
+  status?: AlertStatus | null
+  publish_at?: string | null
+  deadline?: string | null
+}
+
+/**
+ * Resolve what state an alert is in right now.
+ * The backend sweep persists these transitions; deriving them here keeps
+ * the UI correct between sweeps. Alerts saved before lifecycle states
+ * existed have no status and are treated as published.
+ */
+export function getAlertStatus(alert: LifecycleFields, now: Date = new Date()): AlertStatus {
+  const stored = alert.status || 'published'
+
+  // Alerts in review never go live on their own, whatever their publish time or deadline
+  if (stored === 'draft' || stored === 'archived' || stored === 'pending_approval' || stored === 'changes_requested') {
+    return stored
+  }
+
+  if (stored === 'scheduled' && alert.publish_at && new Date(alert.publish_at).getTime() > now.getTime()) {
+    return 'scheduled'
+  }
+
+  if (alert.deadline) {
+    const deadline = new Date(alert.deadline).getTime()
+    if (deadline + AUTO_ARCHIVE_AFTER_DAYS * DAY_MS <= now.getTime()) {
+      return 'archived'
+    }
+    if (deadline <= now.getTime()) {
+      return 'expired'
+    }
+  }
+
+  return 'published'
+}
+
+/**
+ * Statuses an admin can set directly; expired is always derived from the deadline
+ * and the review statuses are set by submitting and reviewing (see alertApproval.ts)
+ */
+export const EDITABLE_ALERT_STATUSES: AlertStatus[] = ['draft', 'scheduled', 'published', 'archived']
+
+export const ALERT_STATUS_STYLES: Record<AlertStatus, { label: string; badge: string }> = {
+  draft: { label: 'Draft', badge: 'bg-gray-100 text-gray-800' },
+  pending_approval: { label: 'Awaiting Approval', badge: 'bg-amber-100 text-amber-800' },
+  changes_requested: { label: 'Changes Requested', badge: 'bg-rose-100 text-rose-800' },
+  scheduled: { label: 'Scheduled', badge: 'bg-purple-100 text-purple-800' },
+  published: { label: 'Published', badge: 'bg-green-100 text-green-800' },
+  expired: { label: 'Expired', badge: 'bg-orange-100 text-orange-800' },
+  archived: { label: 'Archived', badge: 'bg-gray-200 text-gray-600' },
+}
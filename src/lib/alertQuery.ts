@@ -0,0 +1,89 @@
+/**
+ * Alert Query
+ * Filter, sort and pagination state for the alerts table, round-tripped through the URL
+ */
+
+import type { AlertStatus } from '../types'
+
+export type AlertSortField = 'severity' | 'status' | 'token' | 'title' | 'deadline' | 'created_at' | 'updated_at'
+
+export interface AlertQuery {
+  q: string                   // Free text over title, description and tokens
+  token: string
+  severity: '' | 'critical' | 'warning' | 'info'
+  tag: string
+  status: '' | AlertStatus
+  from: string                // Deadline range start, YYYY-MM-DD
+  to: string                  // Deadline range end, YYYY-MM-DD (inclusive)
+  sort: AlertSortField
+  order: 'asc' | 'desc'
+  page: number
+  limit: number
+}
+
+export const PAGE_SIZES = [25, 50, 100]
+
+export const DEFAULT_ALERT_QUERY: AlertQuery = {
+  q: '',
+  token: '',
+  severity: '',
+  tag: '',
+  status: '',
+  from: '',
+  to: '',
+  sort: 'created_at',
+  order: 'desc',
+  page: 1,
+  limit: 25,
+}
+
+const SORT_FIELDS: AlertSortField[] = ['severity', 'status', 'token', 'title', 'deadline', 'created_at', 'updated_at']
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[], fallback: T): T {
+  return value && (allowed as readonly string[]).includes(value) ? value as T : fallback
+}
+
+function positiveInt(value: string | null, fallback: number): number {
+  const parsed = Number.parseInt(value || '', 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+/**
+ * Read a query from URL search params, falling back to defaults for anything missing or invalid
+ */
+export function parseAlertQuery(params: URLSearchParams): AlertQuery {
+  const limit = positiveInt(params.get('limit'), DEFAULT_ALERT_QUERY.limit)
+  return {
+    q: params.get('q') || '',
+    token: (params.get('token') || '').toUpperCase(),
+    severity: oneOf(params.get('severity'), ['', 'critical', 'warning', 'info'] as const, ''),
+    tag: params.get('tag') || '',
+    status: oneOf(params.get('status'), ['', 'draft', 'pending_approval', 'changes_requested', 'scheduled', 'published', 'expired', 'archived'] as const, ''),
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    sort: oneOf(params.get('sort'), SORT_FIELDS, DEFAULT_ALERT_QUERY.sort),
+    order: oneOf(params.get('order'), ['asc', 'desc'] as const, DEFAULT_ALERT_QUERY.order),
+    page: positiveInt(params.get('page'), DEFAULT_ALERT_QUERY.page),
+    limit: PAGE_SIZES.includes(limit) ? limit : DEFAULT_ALERT_QUERY.limit,
+  }
+}
+
+/**
+ * Serialise a query to URL search params, omitting defaults so shared links stay short
+ */
+export function toSearchParams(query: AlertQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(query) as Array<keyof AlertQuery>) {
+    if (query[key] !== DEFAULT_ALERT_QUERY[key] && query[key] !== '') {
+      params.set(key, String(query[key]))
+    }
+  }
+  return params
+}
+
+/**
+ * Whether any narrowing filter (not sort or paging) is active
+ */
+export function hasActiveFilters(query: AlertQuery): boolean {
+  return Boolean(query.q || query.token || query.severity || query.tag || query.status || query.from || query.to)
+}
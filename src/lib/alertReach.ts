@@ -0,0 +1,81 @@
+/**
+ * Alert Reach
+ * Who an alert will reach and how it will look on their devices
+ */
+
+import type { AdminUser } from '../types'
+import { normaliseToken } from './alertTokens'
+
+/**
+ * Characters shown before the mobile app truncates. Push limits are the
+ * shortest of the iOS and Android lock-screen layouts; the in-app card
+ * shows the full title (capped at 80 when saved) and a clamped body.
+ */
+export const ALERT_DISPLAY_LIMITS = {
+  push: { title: 50, body: 150 },
+  card: { title: 80, body: 280 },
+} as const
+
+export interface TokenReach {
+  token: string
+  watchers: number            // From AdminStats.users.watchlistTokens
+  google: number | null       // null while the user list is unavailable
+  anonymous: number | null
+}
+
+export interface AlertReach {
+  tokens: TokenReach[]
+  // Users watching at least one targeted token, each counted once
+  unique: { total: number; google: number; anonymous: number } | null
+}
+
+/**
+ * Count watchers of each targeted token, split by account type when the user list is loaded
+ */
+export function computeAlertReach(
+  tokens: string[],
+  watchlistTokens: Record<string, number>,
+  users?: AdminUser[]
+): AlertReach {
+  const watchCounts = new Map(Object.entries(watchlistTokens).map(([token, count]) => [normaliseToken(token), count]))
+  const watchersByToken = new Map<string, AdminUser[]>()
+  for (const user of users || []) {
+    for (const token of new Set(user.watchlist.map(normaliseToken))) {
+      watchersByToken.set(token, [...(watchersByToken.get(token) || []), user])
+    }
+  }
+
+  const reach = tokens.map(token => {
+    const watchers = watchersByToken.get(token) || []
+    const google = watchers.filter(user => user.isGoogleUser).length
+    return {
+      token,
+      watchers: watchCounts.get(token) ?? watchers.length,
+      google: users ? google : null,
+      anonymous: users ? watchers.length - google : null,
+    }
+  })
+
+  if (!users) return { tokens: reach, unique: null }
+
+  const reached = new Map<string, AdminUser>()
+  for (const token of tokens) {
+    for (const user of watchersByToken.get(token) || []) {
+      reached.set(user.id, user)
+    }
+  }
+  const google = Array.from(reached.values()).filter(user => user.isGoogleUser).length
+  return {
+    tokens: reach,
+    unique: { total: reached.size, google, anonymous: reached.size - google },
+  }
+}
+
+/**
+ * Cut text to what a device shows, collapsing whitespace like the notification renderers do
+ */
+export function truncateForDisplay(text: string, limit: number): { text: string; truncated: boolean } {
+  const collapsed = text.replace(/\s+/g, ' ').trim()
+  if (collapsed.length <= limit) return { text: collapsed, truncated: false }
+  return { text: `${collapsed.slice(0, limit - 1).trimEnd()}…`, truncated: true }
+}
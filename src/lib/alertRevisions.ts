@@ -0,0 +1,109 @@
+/**
+ * Alert Revision Diff
+ * Field-by-field and word-level comparison of two alert revisions
+ */
+
+import type { AlertRevision } from '../types'
+import { getAlertTokens } from './alertTokens'
+
+type Snapshot = AlertRevision['snapshot']
+
+export type RevisionField = 'tokens' | 'title' | 'description' | 'severity' | 'tags' | 'deadline'
+
+export const REVISION_FIELDS: Array<{ key: RevisionField; label: string }> = [
+  { key: 'tokens', label: 'Tokens' },
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Body' },
+  { key: 'severity', label: 'Severity' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'deadline', label: 'Deadline' },
+]
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed'
+  text: string
+}
+
+export interface RevisionFieldDiff {
+  key: RevisionField
+  label: string
+  before: string
+  after: string
+  changed: boolean
+  parts: DiffPart[]           // Word-level diff from before to after
+}
+
+function formatField(snapshot: Snapshot, key: RevisionField): string {
+  switch (key) {
+    case 'tokens':
+      return getAlertTokens(snapshot).join(', ')
+    case 'tags':
+      return snapshot.tags.join(', ')
+    case 'deadline':
+      return snapshot.deadline ? new Date(snapshot.deadline).toISOString() : ''
+    default:
+      return snapshot[key] || ''
+  }
+}
+
+/**
+ * Word-level diff using a longest common subsequence over whitespace-separated tokens
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean)
+  const b = after.split(/(\s+)/).filter(Boolean)
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const parts: DiffPart[] = []
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1]
+    if (last && last.type === type) {
+      last.text += text
+    } else {
+      parts.push({ type, text })
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++])
+    } else {
+      push('added', b[j++])
+    }
+  }
+  while (i < a.length) push('removed', a[i++])
+  while (j < b.length) push('added', b[j++])
+
+  return parts
+}
+
+/**
+ * Compare two revisions field by field
+ */
+export function diffRevisions(before: AlertRevision, after: AlertRevision): RevisionFieldDiff[] {
+  return REVISION_FIELDS.map(({ key, label }) => {
+    const beforeText = formatField(before.snapshot, key)
+    const afterText = formatField(after.snapshot, key)
+    return {
+      key,
+      label,
+      before: beforeText,
+      after: afterText,
+      changed: beforeText !== afterText,
+      parts: diffWords(beforeText, afterText),
+    }
+  })
+}
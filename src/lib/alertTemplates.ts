@@ -0,0 +1,70 @@
+/**
+ * Alert Templates
+ * Placeholder handling for reusable alert templates
+ */
+
+import type { AlertTemplate } from '../types'
+
+export type TemplatePlaceholder = 'token' | 'date' | 'url'
+
+export const TEMPLATE_PLACEHOLDERS: Array<{ key: TemplatePlaceholder; label: string; example: string }> = [
+  { key: 'token', label: 'Token', example: 'ETH' },
+  { key: 'date', label: 'Date', example: '15 November 2025' },
+  { key: 'url', label: 'URL', example: 'https://example.com/announcement' },
+]
+
+export type TemplateValues = Partial<Record<TemplatePlaceholder, string>>
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(token|date|url)\s*\}\}/g
+
+/**
+ * Placeholders used anywhere in a template's title or body, in display order
+ */
+export function getTemplatePlaceholders(template: Pick<AlertTemplate, 'title' | 'body'>): TemplatePlaceholder[] {
+  const used = new Set<string>()
+  for (const match of `${template.title}\n${template.body}`.matchAll(PLACEHOLDER_PATTERN)) {
+    used.add(match[1])
+  }
+  return TEMPLATE_PLACEHOLDERS.map(p => p.key).filter(key => used.has(key))
+}
+
+/**
+ * Unknown {{placeholders}}, e.g. a typo like {{tokn}}, so the editor can flag them
+ */
+export function findUnknownPlaceholders(text: string): string[] {
+  const known = TEMPLATE_PLACEHOLDERS.map(p => p.key as string)
+  const names = Array.from(text.matchAll(/\{\{\s*([^}\s]*)\s*\}\}/g), match => match[1])
+  return Array.from(new Set(names.filter(name => !known.includes(name))))
+}
+
+/**
+ * Format a date input (YYYY-MM-DD or datetime-local) the way alert copy spells dates
+ */
+export function formatTemplateDate(value: string): string {
+  const date = new Date(value.length === 10 ? `${value}T00:00` : value)
+  if (Number.isNaN(date.getTime())) return value
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
+}
+
+/**
+ * Substitute placeholder values; placeholders without a value are left in place so they stand out
+ */
+export function fillTemplateText(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: TemplatePlaceholder) => {
+    const value = values[key]?.trim()
+    if (!value) return placeholder
+    return key === 'date' ? formatTemplateDate(value) : value
+  })
+}
+
+/**
+ * Alert fields produced by applying a template
+ */
+export function applyTemplate(template: AlertTemplate, values: TemplateValues) {
+  return {
+    title: fillTemplateText(template.title, values),
+    body: fillTemplateText(template.body, values),
+    severity: template.severity,
+    tags: [...template.tags],
+  }
+}
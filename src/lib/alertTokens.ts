@@ -0,0 +1,46 @@
+/**
+ * Alert Tokens
+ * Helpers for alerts that target several tokens with one primary token
+ */
+
+interface TokenFields {
+  token: string
+  tokens?: string[] | null
+}
+
+/**
+ * Normalise a token symbol: trim, drop a leading $ and uppercase
+ */
+export function normaliseToken(token: string): string {
+  return token.trim().replace(/^\$/, '').toUpperCase()
+}
+
+/**
+ * Split free text such as "ETH, ARB OP" into unique token symbols
+ */
+export function parseTokenList(value: string | undefined): string[] {
+  if (!value) return []
+  return uniqueTokens(value.split(/[\s,;|]+/))
+}
+
+/**
+ * Normalise and de-duplicate, keeping first-seen order
+ */
+export function uniqueTokens(tokens: string[]): string[] {
+  return Array.from(new Set(tokens.map(normaliseToken).filter(Boolean)))
+}
+
+/**
+ * All tokens an alert targets with the primary token first.
+ * Alerts saved before multi-token support only carry `token`.
+ */
+export function getAlertTokens(alert: TokenFields): string[] {
+  return uniqueTokens([alert.token, ...(alert.tokens || [])])
+}
+
+/**
+ * Build the token list to save, guaranteeing the primary is included and first
+ */
+export function withPrimaryToken(tokens: string[], primary: string): string[] {
+  return uniqueTokens([primary, ...tokens])
+}
@@ -1,5 +1,8 @@
 import axios, { type InternalAxiosRequestConfig, type AxiosResponse } from 'axios'
-import type { NewsArticle, NewsStats, AdminStats } from '../types'
+import type { NewsArticle, NewsFeedPreview, NewsPage, NewsRefreshResult, NewsRetentionInput, NewsRetentionPolicy, NewsSource, NewsSourceInput, NewsStats, AdminStats, AdminUser, Alert, AlertApprovalDecision, AlertBulkAction, AlertDraftRule, AlertDraftRuleInput, AlertDraftRuleMatch, AlertPage, AlertRevision, AlertSource, AlertTemplate, AlertTemplateInput, ApprovalPolicy, BulkActionResult, NewsBulkAction, TagDefinition, TagDefinitionInput, TagMergeResult, TagTaxonomy, NewAlertInput, TickerDefinition, TickerDefinitionInput, TickerMapResult, TickerRegistry, WatchRule, WatchRuleHit, WatchRuleInput } from '../types'
+import type { AlertQuery } from './alertQuery'
+import type { NewsQuery } from './newsQuery'
+import { findLikelyDuplicates, type AlertDraft, type DuplicateCandidate, type DuplicateSource } from './alertDuplicates'
 
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000'
 
@@ -10,12 +13,17 @@ export const api = axios.create({
   },
 })
 
-// Add auth token to requests
+// Add auth token and admin identity to requests
 api.interceptors.request.use((config: InternalAxiosRequestConfig) => {
   const token = localStorage.getItem('admin_token')
   if (token) {
     config.headers.Authorization = `Bearer ${token}`
   }
+  // The admin token is shared, so the backend relies on this header to attribute edits
+  const adminName = localStorage.getItem('admin_name')
+  if (adminName) {
+    config.headers['X-Admin-User'] = adminName
+  }
   return config
 })
 
@@ -25,6 +33,7 @@ api.interceptors.response.use(
   (error: any) => {
     if (error.response?.status === 401) {
       localStorage.removeItem('admin_token')
+      localStorage.removeItem('admin_name')
       window.location.href = '/login'
     }
     return Promise.reject(error)
@@ -36,7 +45,7 @@ api.interceptors.response.use(
 // ============================================
 
 /**
- * Fetch news articles from cache with optional filters
+ * Fetch news articles from cache with optional filters, unpaginated
  */
 export async function fetchNewsCache(params?: {
   token?: string
@@ -48,6 +57,26 @@ export async function fetchNewsCache(params?: {
   return data
 }
 
+/**
+ * Fetch one page of news articles matching a query, newest first
+ */
+export async function fetchNewsPage(query: Partial<NewsQuery> & { page: number; limit: number }): Promise<NewsPage> {
+  // Empty filters are left out rather than sent as blank strings
+  const params = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => value !== '' && value !== undefined)
+  )
+  const { data } = await api.get('/admin/news/cache', { params: { ...params, paginate: 1 } })
+  return data
+}
+
+/**
+ * Count articles nobody has triaged yet, for the sidebar
+ */
+export async function fetchUntriagedNewsCount(): Promise<number> {
+  const { data } = await api.get('/admin/news/cache/untriaged-count')
+  return data.count
+}
+
 /**
  * Get news cache statistics
  */
@@ -61,7 +90,7 @@ export async function fetchNewsStats(): Promise<NewsStats> {
  */
 export async function updateNewsArticle(
   articleUrl: string,
-  updates: Partial<Pick<NewsArticle, 'title' | 'text' | 'sentiment' | 'tickers' | 'topics'>>
+  updates: Partial<Pick<NewsArticle, 'title' | 'text' | 'sentiment' | 'tickers' | 'topics' | 'pinned' | 'expires_at'>>
 ): Promise<NewsArticle> {
   const { data } = await api.put(`/admin/news/cache/${encodeURIComponent(articleUrl)}`, updates)
   return data
@@ -75,9 +104,9 @@ export async function deleteNewsArticle(articleUrl: string): Promise<void> {
 }
 
 /**
- * Force refresh news from CoinDesk RSS feed
+ * Force refresh news from every enabled source
  */
-export async function refreshNewsCache(): Promise<{ added: number; updated: number }> {
+export async function refreshNewsCache(): Promise<NewsRefreshResult> {
   const { data } = await api.post('/admin/news/refresh')
   return data
 }
@@ -89,26 +118,461 @@ export async function bulkDeleteNews(articleUrls: string[]): Promise<void> {
   await api.post('/admin/news/cache/bulk-delete', { articleUrls })
 }
 
+/**
+ * Apply one action to many articles. Each article succeeds or fails on its own;
+ * results are keyed by article URL.
+ */
+export async function bulkNewsAction(articleUrls: string[], action: NewsBulkAction): Promise<BulkActionResult[]> {
+  const { data } = await api.post('/admin/news/cache/bulk-action', { articleUrls, action })
+  return data.results
+}
+
 // ============================================
 // ALERT MANAGEMENT API
 // ============================================
 
+/**
+ * Fetch one page of alerts, filtered and sorted by the backend
+ */
+export async function fetchAlerts<T = Alert>(query: Partial<AlertQuery>): Promise<AlertPage<T>> {
+  // Empty filters are left out rather than sent as blank strings
+  const params = Object.fromEntries(
+    Object.entries(query).filter(([, value]) => value !== '' && value !== undefined)
+  )
+  const { data } = await api.get('/api/alerts', { params: { ...params, paginate: 1 } })
+  return data
+}
+
+/**
+ * Fetch a single alert by id
+ */
+export async function fetchAlert<T = Alert>(id: string | number): Promise<T> {
+  const { data } = await api.get(`/admin/alerts/${id}`)
+  return data
+}
+
+/**
+ * Fetch every alert matching a query by walking its pages
+ */
+export async function fetchAllAlerts<T = Alert>(query: Partial<AlertQuery>): Promise<T[]> {
+  const limit = 100
+  const first = await fetchAlerts<T>({ ...query, page: 1, limit })
+  const alerts = [...first.alerts]
+  const pageCount = Math.ceil(first.total / limit)
+  for (let page = 2; page <= pageCount; page++) {
+    const { alerts: next } = await fetchAlerts<T>({ ...query, page, limit })
+    alerts.push(...next)
+  }
+  return alerts
+}
+
+/**
+ * Fetch the most recently created alerts targeting any of the given tokens
+ */
+export async function fetchRecentAlertsForTokens<T extends { id: string | number } = Alert>(tokens: string[]): Promise<T[]> {
+  const pages = await Promise.all(
+    tokens.map(token => fetchAlerts<T>({ token, sort: 'created_at', order: 'desc', page: 1, limit: 100 }))
+  )
+  const byId = new Map<string, T>()
+  for (const alert of pages.flatMap(page => page.alerts)) {
+    byId.set(String(alert.id), alert)
+  }
+  return Array.from(byId.values())
+}
+
+/**
+ * Recent alerts on the same tokens that a new alert probably repeats
+ */
+export async function findDuplicateAlerts(draft: AlertDraft): Promise<DuplicateCandidate[]> {
+  const recent = await fetchRecentAlertsForTokens<DuplicateSource>(Array.from(new Set([draft.token, ...(draft.tokens || [])])))
+  return findLikelyDuplicates(draft, recent)
+}
+
+/**
+ * Apply one action to many alerts; the result reports success per alert
+ */
+export async function bulkAlertAction(ids: Array<string | number>, action: AlertBulkAction): Promise<BulkActionResult[]> {
+  const { data } = await api.post('/admin/alerts/bulk-action', { ids, action })
+  return data.results
+}
+
 /**
  * Create a new alert
  */
-export async function createAlert(alert: {
-  token: string
-  title: string
-  body?: string
-  severity: 'critical' | 'warning' | 'info'
-  tags?: string[]
-  deadline?: string
-  source_url?: string  // Add source URL to track which news article this came from
-}): Promise<any> {
+export async function createAlert(alert: NewAlertInput): Promise<any> {
   const { data } = await api.post('/admin/alerts', alert)
   return data
 }
 
+/**
+ * News articles an alert is based on, oldest link first
+ */
+export async function fetchAlertSources(alertId: string | number): Promise<AlertSource[]> {
+  const { data } = await api.get(`/admin/alerts/${alertId}/sources`)
+  return data
+}
+
+/**
+ * Link news articles to an alert as sources. Already linked articles are ignored.
+ */
+export async function linkAlertSources(alertId: string | number, articleUrls: string[]): Promise<AlertSource[]> {
+  const { data } = await api.post(`/admin/alerts/${alertId}/sources`, { article_urls: articleUrls })
+  return data
+}
+
+/**
+ * Remove a source article from an alert
+ */
+export async function unlinkAlertSource(alertId: string | number, articleUrl: string): Promise<void> {
+  await api.delete(`/admin/alerts/${alertId}/sources`, { params: { url: articleUrl } })
+}
+
+/**
+ * Fetch the revision history of an alert, newest first
+ */
+export async function fetchAlertRevisions(alertId: string | number): Promise<AlertRevision[]> {
+  const { data } = await api.get(`/admin/alerts/${alertId}/revisions`)
+  return data
+}
+
+/**
+ * Restore an alert to an earlier revision (recorded as a new revision)
+ */
+export async function revertAlert(alertId: string | number, revisionId: number): Promise<void> {
+  await api.post(`/admin/alerts/${alertId}/revisions/${revisionId}/revert`)
+}
+
+// ============================================
+// NEWS SOURCES API
+// ============================================
+
+/**
+ * Fetch the news feed registry
+ */
+export async function fetchNewsSources(): Promise<NewsSource[]> {
+  const { data } = await api.get('/admin/news/sources')
+  return data
+}
+
+export async function createNewsSource(source: NewsSourceInput): Promise<NewsSource> {
+  const { data } = await api.post('/admin/news/sources', source)
+  return data
+}
+
+export async function updateNewsSource(id: number, source: NewsSourceInput): Promise<NewsSource> {
+  const { data } = await api.put(`/admin/news/sources/${id}`, source)
+  return data
+}
+
+/**
+ * Remove a feed from the registry. Articles already cached from it are kept.
+ */
+export async function deleteNewsSource(id: number): Promise<void> {
+  await api.delete(`/admin/news/sources/${id}`)
+}
+
+/**
+ * Poll one feed now, whether or not it is enabled
+ */
+export async function refreshNewsSource(id: number): Promise<NewsRefreshResult> {
+  const { data } = await api.post(`/admin/news/sources/${id}/refresh`)
+  return data
+}
+
+/**
+ * Parse a saved copy of a feed with a source's settings, exactly as polling would.
+ * Nothing is fetched or stored.
+ */
+export async function previewNewsFeed(source: NewsSourceInput, content: string): Promise<NewsFeedPreview> {
+  const { data } = await api.post('/admin/news/sources/preview', { source, content })
+  return data
+}
+
+// ============================================
+// NEWS RETENTION API
+// ============================================
+
+/**
+ * Default retention and per-source overrides, with every source that has cached articles
+ */
+export async function fetchNewsRetention(): Promise<NewsRetentionPolicy> {
+  const { data } = await api.get('/admin/news/retention')
+  return data
+}
+
+/**
+ * Save retention settings. They apply to articles fetched from then on.
+ */
+export async function updateNewsRetention(policy: NewsRetentionInput): Promise<NewsRetentionPolicy> {
+  const { data } = await api.put('/admin/news/retention', policy)
+  return data
+}
+
+// ============================================
+// ALERT APPROVALS API
+// ============================================
+
+/**
+ * Severities that need a second admin's approval before going live
+ */
+export async function fetchApprovalPolicy(): Promise<ApprovalPolicy> {
+  const { data } = await api.get('/admin/approval-policy')
+  return data
+}
+
+/**
+ * Replace the approval policy
+ */
+export async function updateApprovalPolicy(policy: ApprovalPolicy): Promise<ApprovalPolicy> {
+  const { data } = await api.put('/admin/approval-policy', policy)
+  return data
+}
+
+/**
+ * Every submission and review decision on an alert, oldest first
+ */
+export async function fetchAlertApprovals(alertId: string | number): Promise<AlertApprovalDecision[]> {
+  const { data } = await api.get(`/admin/alerts/${alertId}/approvals`)
+  return data
+}
+
+/**
+ * Approve an alert awaiting approval. The backend rejects approvals by the alert's submitter.
+ */
+export async function approveAlert(alertId: string | number, comment?: string): Promise<void> {
+  await api.post(`/admin/alerts/${alertId}/approve`, { comment: comment || null })
+}
+
+/**
+ * Send an alert back to its author with a comment
+ */
+export async function requestAlertChanges(alertId: string | number, comment: string): Promise<void> {
+  await api.post(`/admin/alerts/${alertId}/request-changes`, { comment })
+}
+
+// ============================================
+// ALERT TEMPLATES API
+// ============================================
+
+/**
+ * Fetch all alert templates, sorted by name
+ */
+export async function fetchAlertTemplates(): Promise<AlertTemplate[]> {
+  const { data } = await api.get('/admin/alert-templates')
+  return data
+}
+
+/**
+ * Create an alert template
+ */
+export async function createAlertTemplate(template: AlertTemplateInput): Promise<AlertTemplate> {
+  const { data } = await api.post('/admin/alert-templates', template)
+  return data
+}
+
+/**
+ * Replace an alert template
+ */
+export async function updateAlertTemplate(id: number, template: AlertTemplateInput): Promise<AlertTemplate> {
+  const { data } = await api.put(`/admin/alert-templates/${id}`, template)
+  return data
+}
+
+/**
+ * Delete an alert template
+ */
+export async function deleteAlertTemplate(id: number): Promise<void> {
+  await api.delete(`/admin/alert-templates/${id}`)
+}
+
+// ============================================
+// WATCH RULES API
+// ============================================
+
+/**
+ * Fetch every watch rule with its hit counts
+ */
+export async function fetchWatchRules(): Promise<WatchRule[]> {
+  const { data } = await api.get('/admin/news/watch-rules')
+  return data
+}
+
+/**
+ * Create a watch rule. The backend also runs it over the current news cache.
+ */
+export async function createWatchRule(rule: WatchRuleInput): Promise<WatchRule> {
+  const { data } = await api.post('/admin/news/watch-rules', rule)
+  return data
+}
+
+/**
+ * Replace a watch rule's name, enabled flag and conditions, re-flagging the current news cache
+ */
+export async function updateWatchRule(id: number, rule: WatchRuleInput): Promise<WatchRule> {
+  const { data } = await api.put(`/admin/news/watch-rules/${id}`, rule)
+  return data
+}
+
+/**
+ * Delete a watch rule and remove its flags from articles
+ */
+export async function deleteWatchRule(id: number): Promise<void> {
+  await api.delete(`/admin/news/watch-rules/${id}`)
+}
+
+/**
+ * Articles a rule has flagged, newest first
+ */
+export async function fetchWatchRuleHits(id: number): Promise<WatchRuleHit[]> {
+  const { data } = await api.get(`/admin/news/watch-rules/${id}/hits`)
+  return data
+}
+
+// ============================================
+// ALERT DRAFT RULES API
+// ============================================
+
+/**
+ * Fetch every alert draft rule with its match and draft counts
+ */
+export async function fetchAlertDraftRules(): Promise<AlertDraftRule[]> {
+  const { data } = await api.get('/admin/news/draft-rules')
+  return data
+}
+
+/**
+ * Create an alert draft rule. Enabled rules only act on articles ingested from then on.
+ */
+export async function createAlertDraftRule(rule: AlertDraftRuleInput): Promise<AlertDraftRule> {
+  const { data } = await api.post('/admin/news/draft-rules', rule)
+  return data
+}
+
+/**
+ * Replace an alert draft rule's name, enabled flag, conditions and alert template
+ */
+export async function updateAlertDraftRule(id: number, rule: AlertDraftRuleInput): Promise<AlertDraftRule> {
+  const { data } = await api.put(`/admin/news/draft-rules/${id}`, rule)
+  return data
+}
+
+/**
+ * Delete an alert draft rule. Drafts it created are kept.
+ */
+export async function deleteAlertDraftRule(id: number): Promise<void> {
+  await api.delete(`/admin/news/draft-rules/${id}`)
+}
+
+/**
+ * Articles a rule has matched and the drafts it created from them, newest first
+ */
+export async function fetchAlertDraftRuleMatches(id: number): Promise<AlertDraftRuleMatch[]> {
+  const { data } = await api.get(`/admin/news/draft-rules/${id}/matches`)
+  return data
+}
+
+// ============================================
+// TAG TAXONOMY API
+// ============================================
+
+/**
+ * Fetch canonical tags and usage counts for every tag in use
+ */
+export async function fetchTagTaxonomy(): Promise<TagTaxonomy> {
+  const { data } = await api.get('/admin/tags')
+  return data
+}
+
+/**
+ * Define a canonical tag
+ */
+export async function createTagDefinition(tag: TagDefinitionInput): Promise<TagDefinition> {
+  const { data } = await api.post('/admin/tags', tag)
+  return data
+}
+
+/**
+ * Replace a canonical tag's name, synonyms and category
+ */
+export async function updateTagDefinition(id: number, tag: TagDefinitionInput): Promise<TagDefinition> {
+  const { data } = await api.put(`/admin/tags/${id}`, tag)
+  return data
+}
+
+/**
+ * Delete a canonical tag definition. Alerts keep the tag itself.
+ */
+export async function deleteTagDefinition(id: number): Promise<void> {
+  await api.delete(`/admin/tags/${id}`)
+}
+
+/**
+ * Rewrite every alert tag and article topic in `sources` to `target`.
+ * With `keepAsSynonyms` the source names map to the target from now on.
+ */
+export async function mergeTags(sources: string[], target: string, keepAsSynonyms: boolean): Promise<TagMergeResult> {
+  const { data } = await api.post('/admin/tags/merge', { sources, target, keepAsSynonyms })
+  return data
+}
+
+// ============================================
+// TICKER REGISTRY API
+// ============================================
+
+/**
+ * Fetch canonical tickers, the queue of unknown tickers seen in articles and ignored tickers
+ */
+export async function fetchTickerRegistry(): Promise<TickerRegistry> {
+  const { data } = await api.get('/admin/tickers')
+  return data
+}
+
+/**
+ * Define a canonical ticker. Queued tickers matching its symbol or aliases are resolved.
+ */
+export async function createTickerDefinition(ticker: TickerDefinitionInput): Promise<TickerDefinition> {
+  const { data } = await api.post('/admin/tickers', ticker)
+  return data
+}
+
+/**
+ * Replace a canonical ticker's symbol, name, aliases and chain
+ */
+export async function updateTickerDefinition(id: number, ticker: TickerDefinitionInput): Promise<TickerDefinition> {
+  const { data } = await api.put(`/admin/tickers/${id}`, ticker)
+  return data
+}
+
+/**
+ * Delete a canonical ticker. Articles and alerts keep the symbol.
+ */
+export async function deleteTickerDefinition(id: number): Promise<void> {
+  await api.delete(`/admin/tickers/${id}`)
+}
+
+/**
+ * Add queued tickers as aliases of `symbol` and rewrite them on every article
+ */
+export async function mapUnknownTickers(tickers: string[], symbol: string): Promise<TickerMapResult> {
+  const { data } = await api.post('/admin/tickers/map', { tickers, symbol })
+  return data
+}
+
+/**
+ * Mark queued tickers as not being tickers: they are removed from articles and dropped on ingestion
+ */
+export async function ignoreTickers(tickers: string[]): Promise<TickerMapResult> {
+  const { data } = await api.post('/admin/tickers/ignore', { tickers })
+  return data
+}
+
+/**
+ * Stop ignoring a ticker. Articles ingested from now on keep it again.
+ */
+export async function unignoreTicker(ticker: string): Promise<void> {
+  await api.delete(`/admin/tickers/ignore/${encodeURIComponent(ticker)}`)
+}
+
 // ============================================
 // ADMIN STATS API
 // ============================================
@@ -120,3 +584,11 @@ export async function fetchAdminStats(): Promise<AdminStats> {
   const { data } = await api.get('/admin/stats')
   return data
 }
+
+/**
+ * Get all users with their watchlists
+ */
+export async function fetchAdminUsers(): Promise<{ users: AdminUser[]; total: number }> {
+  const { data } = await api.get('/admin/users')
+  return data
+}
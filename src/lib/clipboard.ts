@@ -0,0 +1,26 @@
+/**
+ * Clipboard
+ * Copying links such as the public feed URLs
+ */
+
+/**
+ * Copy text to the clipboard. Resolves false instead of throwing when the browser refuses:
+ * permission denied, the document not focused, or plain HTTP, where navigator.clipboard is undefined.
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Copy text, or show it in a prompt for the admin to copy by hand. Resolves whether the copy worked.
+ */
+export async function copyOrShow(text: string, label: string): Promise<boolean> {
+  if (await copyToClipboard(text)) return true
+  window.prompt(`Couldn't copy automatically. Copy the ${label} below:`, text)
+  return false
+}
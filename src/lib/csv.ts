@@ -0,0 +1,88 @@
+/**
+ * CSV helpers
+ * RFC 4180 parsing and serialisation used by alert import and export
+ */
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields containing commas, quotes ("") and line breaks,
+ * CRLF or LF line endings, and a leading byte-order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let i = 0
+
+  const endRow = () => {
+    row.push(field)
+    // A line with a single empty field is a blank line, not a record
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row)
+    }
+    row = []
+    field = ''
+  }
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i += 2
+          continue
+        }
+        inQuotes = false
+      } else {
+        field += char
+      }
+      i++
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\r' && input[i + 1] === '\n') {
+      endRow()
+      i++
+    } else if (char === '\n' || char === '\r') {
+      endRow()
+    } else {
+      field += char
+    }
+    i++
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field')
+  }
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+/**
+ * Quote a single field if it contains a delimiter, quote or line break
+ */
+export function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * Serialise rows of fields into CSV text with CRLF line endings
+ */
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n')
+}
@@ -0,0 +1,189 @@
+/**
+ * Alert Markdown
+ * The small Markdown subset alert bodies support: headings, paragraphs,
+ * bullet and numbered lists, bold, italic, inline code and links.
+ * Raw HTML is never rendered; it is stripped before saving.
+ */
+
+export type MdInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: MdInline[] }
+  | { type: 'em'; children: MdInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MdInline[]; error?: string }
+
+export type MdBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; children: MdInline[] }
+  | { type: 'paragraph'; lines: MdInline[][] }
+  | { type: 'list'; ordered: boolean; items: MdInline[][] }
+
+export interface LinkIssue {
+  text: string
+  href: string
+  reason: string
+}
+
+const ALLOWED_PROTOCOLS = ['https:', 'http:', 'mailto:']
+
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\[[^\]]+\]\([^)\s]*\))|(\*[^*\s][^*]*\*)|(_[^_\s][^_]*_)/
+
+const HEADING_PATTERN = /^(#{1,3})\s+(.*)$/
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+(.*)$/
+
+/**
+ * Remove raw HTML tags and comments; alert bodies are Markdown only
+ */
+export function sanitiseMarkdown(source: string): string {
+  return source
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+}
+
+/**
+ * Why a link target is rejected, or undefined if it is allowed
+ */
+export function validateLink(href: string): string | undefined {
+  let url: URL
+  try {
+    url = new URL(href)
+  } catch {
+    return 'Not a valid absolute URL'
+  }
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    return `${url.protocol} links are not allowed`
+  }
+  return undefined
+}
+
+/**
+ * Parse inline formatting within one line of text
+ */
+export function parseInline(text: string): MdInline[] {
+  const nodes: MdInline[] = []
+  let rest = text
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest)
+    if (!match) {
+      nodes.push({ type: 'text', text: rest })
+      break
+    }
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) })
+    }
+    const token = match[0]
+    if (match[1]) {
+      nodes.push({ type: 'code', text: token.slice(1, -1) })
+    } else if (match[2]) {
+      nodes.push({ type: 'strong', children: parseInline(token.slice(2, -2)) })
+    } else if (match[3]) {
+      const split = token.indexOf('](')
+      const href = token.slice(split + 2, -1)
+      nodes.push({ type: 'link', href, children: parseInline(token.slice(1, split)), error: validateLink(href) })
+    } else {
+      nodes.push({ type: 'em', children: parseInline(token.slice(1, -1)) })
+    }
+    rest = rest.slice(match.index + token.length)
+  }
+  return nodes
+}
+
+/**
+ * Parse a Markdown body into blocks. Blank lines separate paragraphs;
+ * consecutive list lines form one list.
+ */
+export function parseMarkdown(source: string): MdBlock[] {
+  const blocks: MdBlock[] = []
+  let paragraph: MdInline[][] | null = null
+  let list: Extract<MdBlock, { type: 'list' }> | null = null
+
+  for (const line of sanitiseMarkdown(source).split(/\r?\n/)) {
+    const heading = HEADING_PATTERN.exec(line)
+    const bullet = BULLET_PATTERN.exec(line)
+    const numbered = NUMBERED_PATTERN.exec(line)
+
+    if (!line.trim()) {
+      paragraph = null
+      list = null
+    } else if (heading) {
+      paragraph = null
+      list = null
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, children: parseInline(heading[2]) })
+    } else if (bullet || numbered) {
+      paragraph = null
+      const ordered = Boolean(numbered && !bullet)
+      if (!list || list.ordered !== ordered) {
+        list = { type: 'list', ordered, items: [] }
+        blocks.push(list)
+      }
+      list.items.push(parseInline((bullet || numbered)![1]))
+    } else {
+      list = null
+      if (!paragraph) {
+        paragraph = []
+        blocks.push({ type: 'paragraph', lines: paragraph })
+      }
+      paragraph.push(parseInline(line.trim()))
+    }
+  }
+  return blocks
+}
+
+function collectLinks(nodes: MdInline[], issues: LinkIssue[]) {
+  for (const node of nodes) {
+    if (node.type === 'link' && node.error) {
+      issues.push({ text: inlineToText(node.children), href: node.href, reason: node.error })
+    }
+    if (node.type === 'strong' || node.type === 'em' || node.type === 'link') {
+      collectLinks(node.children, issues)
+    }
+  }
+}
+
+/**
+ * Links that would be rejected when the alert is saved
+ */
+export function findLinkIssues(source: string): LinkIssue[] {
+  const issues: LinkIssue[] = []
+  for (const block of parseMarkdown(source)) {
+    if (block.type === 'heading') collectLinks(block.children, issues)
+    if (block.type === 'paragraph') block.lines.forEach(line => collectLinks(line, issues))
+    if (block.type === 'list') block.items.forEach(item => collectLinks(item, issues))
+  }
+  return issues
+}
+
+function inlineToText(nodes: MdInline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+      case 'code':
+        return node.text
+      case 'strong':
+      case 'em':
+        return inlineToText(node.children)
+      case 'link': {
+        const label = inlineToText(node.children)
+        if (node.error || label === node.href) return label
+        return `${label} (${node.href})`
+      }
+    }
+  }).join('')
+}
+
+/**
+ * Plain-text version for channels that can't render Markdown (push, SMS, email previews).
+ * Formatting markers are dropped and link targets are written out after their text.
+ */
+export function markdownToPlainText(source: string): string {
+  return parseMarkdown(source).map(block => {
+    switch (block.type) {
+      case 'heading':
+        return inlineToText(block.children)
+      case 'paragraph':
+        return block.lines.map(inlineToText).join('\n')
+      case 'list':
+        return block.items.map((item, i) => `${block.ordered ? `${i + 1}.` : '-'} ${inlineToText(item)}`).join('\n')
+    }
+  }).join('\n\n')
+}
@@ -0,0 +1,95 @@
+/**
+ * News Bulk Actions
+ * Describes and previews actions applied to many selected news articles at once
+ */
+
+import type { NewsArticle, NewsBulkAction } from '../types'
+import { shiftDate, type BulkActionPreview } from './alertBulkActions'
+import { getTriageLabel, getTriageStatus } from './newsTriage'
+import { getExpiryLockReason } from './newsRetention'
+
+const formatDate = (iso?: string | null) => iso
+  ? new Date(iso).toLocaleDateString('en-GB', { day: '2-digit', month: '2-digit', year: 'numeric' })
+  : 'None'
+
+const formatTickers = (tickers: string[]) => tickers.length > 0 ? tickers.join(', ') : 'None'
+
+/**
+ * Human-readable summary for the confirmation step, e.g. "Add tickers BTC, ETH"
+ */
+export function describeNewsBulkAction(action: NewsBulkAction): string {
+  switch (action.type) {
+    case 'sentiment':
+      return `Change sentiment to ${action.sentiment}`
+    case 'add_tickers':
+      return `Add tickers ${action.tickers.join(', ')}`
+    case 'remove_tickers':
+      return `Remove tickers ${action.tickers.join(', ')}`
+    case 'shift_expiry': {
+      const days = Math.abs(action.days)
+      return action.days > 0
+        ? `Keep in cache ${days} day${days === 1 ? '' : 's'} longer`
+        : `Expire ${days} day${days === 1 ? '' : 's'} sooner`
+    }
+    case 'pin':
+      return action.pinned ? 'Pin so they never expire' : 'Unpin'
+    case 'triage':
+      return `Mark ${getTriageLabel(action.status).toLowerCase()}`
+    case 'delete':
+      return 'Delete from cache'
+  }
+}
+
+/**
+ * Show what the action will change on one article, or why it will be skipped
+ */
+export function previewNewsBulkAction(article: NewsArticle, action: NewsBulkAction): BulkActionPreview {
+  switch (action.type) {
+    case 'sentiment':
+      return {
+        before: article.sentiment || 'None',
+        after: action.sentiment,
+        skipReason: article.sentiment === action.sentiment ? 'Already this sentiment' : undefined,
+      }
+    case 'add_tickers': {
+      const added = action.tickers.filter(ticker => !article.tickers.includes(ticker))
+      return {
+        before: formatTickers(article.tickers),
+        after: formatTickers([...article.tickers, ...added]),
+        skipReason: added.length === 0 ? 'Already has these tickers' : undefined,
+      }
+    }
+    case 'remove_tickers': {
+      const kept = article.tickers.filter(ticker => !action.tickers.includes(ticker))
+      return {
+        before: formatTickers(article.tickers),
+        after: formatTickers(kept),
+        skipReason: kept.length === article.tickers.length ? 'Has none of these tickers' : undefined,
+      }
+    }
+    case 'shift_expiry': {
+      const expiresAt = shiftDate(article.expires_at, action.days)
+      return {
+        before: formatDate(article.expires_at),
+        after: new Date(expiresAt) <= new Date() ? 'Next cleanup' : formatDate(expiresAt),
+        skipReason: getExpiryLockReason(article),
+      }
+    }
+    case 'pin':
+      return {
+        before: article.pinned ? 'Pinned' : `Expires ${formatDate(article.expires_at)}`,
+        after: action.pinned ? 'Pinned' : `Expires ${formatDate(article.expires_at)}`,
+        skipReason: Boolean(article.pinned) === action.pinned ? `Already ${action.pinned ? 'pinned' : 'unpinned'}` : undefined,
+      }
+    case 'triage': {
+      const status = getTriageStatus(article)
+      return {
+        before: getTriageLabel(status),
+        after: getTriageLabel(action.status),
+        skipReason: status === action.status ? `Already ${getTriageLabel(status).toLowerCase()}` : undefined,
+      }
+    }
+    case 'delete':
+      return { before: 'Cached', after: 'Deleted' }
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * News Clusters
+ * Groups articles from different sources that report the same story, using wording,
+ * shared tickers and publish time. Runs locally and gives the same clusters for the same input.
+ */
+
+import { significantWords, wordSetSimilarity } from './alertDuplicates'
+import { uniqueTokens } from './alertTokens'
+import { uniqueTags } from './tagTaxonomy'
+import type { ArticleAlertLink, NewsArticle } from '../types'
+
+// Articles further apart than this are never the same story
+export const CLUSTER_WINDOW_HOURS = 36
+
+// Similarity needed when the articles share a ticker
+export const CLUSTER_SIMILARITY = 0.3
+
+// Without a shared ticker the wording alone has to be much closer
+export const CLUSTER_SIMILARITY_NO_SHARED_TICKER = 0.55
+
+const HOUR_MS = 60 * 60 * 1000
+
+export interface NewsCluster {
+  id: string                  // Lead article URL
+  lead: NewsArticle           // Most representative article, shown on the card
+  articles: NewsArticle[]     // Lead first, then the rest newest first
+  tickers: string[]           // Every ticker across the cluster, lead's first
+  sources: string[]           // Distinct source names
+  latest: string              // Newest article date
+  linkedAlerts: ArticleAlertLink[]  // Alerts citing any article in the cluster
+}
+
+interface ArticleFeatures {
+  article: NewsArticle
+  time: number
+  title: Set<string>
+  text: Set<string>
+}
+
+const features = (article: NewsArticle): ArticleFeatures => ({
+  article,
+  time: new Date(article.date).getTime(),
+  title: significantWords(article.title),
+  text: significantWords(article.text),
+})
+
+/**
+ * Titles carry most of the signal; text only counts when both articles have some
+ */
+function similarity(a: ArticleFeatures, b: ArticleFeatures): number {
+  const title = wordSetSimilarity(a.title, b.title)
+  if (a.text.size === 0 || b.text.size === 0) return title
+  return Math.max(title, 0.6 * title + 0.4 * wordSetSimilarity(a.text, b.text))
+}
+
+function sameStory(a: ArticleFeatures, b: ArticleFeatures): boolean {
+  if (Math.abs(a.time - b.time) > CLUSTER_WINDOW_HOURS * HOUR_MS) return false
+  const sharesTicker = a.article.tickers.some(ticker => b.article.tickers.includes(ticker))
+  return similarity(a, b) >= (sharesTicker ? CLUSTER_SIMILARITY : CLUSTER_SIMILARITY_NO_SHARED_TICKER)
+}
+
+/**
+ * Similarity of two articles' wording, 0-1
+ */
+export function articleSimilarity(a: NewsArticle, b: NewsArticle): number {
+  return similarity(features(a), features(b))
+}
+
+/**
+ * Group articles into stories, most recently updated story first. Any two articles that
+ * read as the same story join their clusters, so a story can span several windows.
+ */
+export function clusterArticles(articles: NewsArticle[]): NewsCluster[] {
+  // Fixed order so ties and union roots never depend on the order the API returned
+  const items = articles
+    .map(features)
+    .sort((a, b) => a.time - b.time || a.article.article_url.localeCompare(b.article.article_url))
+
+  const parent = items.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (items[j].time - items[i].time > CLUSTER_WINDOW_HOURS * HOUR_MS) break
+      if (sameStory(items[i], items[j])) {
+        const [a, b] = [find(i), find(j)]
+        if (a !== b) parent[Math.max(a, b)] = Math.min(a, b)
+      }
+    }
+  }
+
+  const groups = new Map<number, ArticleFeatures[]>()
+  items.forEach((item, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) || []), item])
+  })
+
+  return Array.from(groups.values())
+    .map(buildCluster)
+    .sort((a, b) => b.latest.localeCompare(a.latest) || a.id.localeCompare(b.id))
+}
+
+function buildCluster(members: ArticleFeatures[]): NewsCluster {
+  // The lead is the article closest to all the others; the earliest wins a tie
+  let lead = members[0]
+  let bestScore = -1
+  for (const member of members) {
+    const score = members.reduce((sum, other) => (other === member ? sum : sum + similarity(member, other)), 0)
+    if (score > bestScore) {
+      lead = member
+      bestScore = score
+    }
+  }
+
+  const rest = members.filter(member => member !== lead).sort((a, b) => b.time - a.time)
+  const articles = [lead, ...rest].map(member => member.article)
+  const linkedAlerts = new Map<number, ArticleAlertLink>()
+  for (const article of articles) {
+    for (const link of article.linked_alerts || []) linkedAlerts.set(link.id, link)
+  }
+
+  return {
+    id: lead.article.article_url,
+    lead: lead.article,
+    articles,
+    tickers: uniqueTokens(articles.flatMap(article => article.tickers)),
+    sources: Array.from(new Set(articles.map(article => article.source_name))),
+    latest: new Date(Math.max(...members.map(member => member.time))).toISOString(),
+    linkedAlerts: Array.from(linkedAlerts.values()).sort((a, b) => a.id - b.id),
+  }
+}
+
+/**
+ * The cluster as one article for alert prefill and AI generation: the lead's wording,
+ * every ticker and topic, and the other headlines appended to the text
+ */
+export function clusterAsArticle(cluster: NewsCluster): NewsArticle {
+  const others = cluster.articles.slice(1)
+  const coverage = others.map(article => `- ${article.title} (${article.source_name})`).join('\n')
+  return {
+    ...cluster.lead,
+    text: others.length > 0
+      ? `${cluster.lead.text || ''}\n\nAlso reported as:\n${coverage}`.trim()
+      : cluster.lead.text,
+    // Negative coverage anywhere makes the story negative
+    sentiment: cluster.articles.some(article => article.sentiment === 'negative') ? 'negative' : cluster.lead.sentiment,
+    tickers: cluster.tickers,
+    topics: uniqueTags(cluster.articles.flatMap(article => article.topics)),
+    alert_created: cluster.linkedAlerts.length > 0 || cluster.articles.some(article => article.alert_created),
+    linked_alerts: cluster.linkedAlerts,
+  }
+}
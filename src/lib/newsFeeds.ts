@@ -0,0 +1,90 @@
+/**
+ * News Feeds
+ * Defaults and validation for the news source registry. Feeds are parsed by the backend
+ * ingester only; the source editor checks a saved copy of a feed through it.
+ */
+
+import { normaliseToken } from './alertTokens'
+import type { JsonFeedMapping, NewsSourceInput, NewsSourceType, TickerExtractionSettings } from '../types'
+
+export const NEWS_SOURCE_TYPES: Array<{ key: NewsSourceType; label: string }> = [
+  { key: 'rss', label: 'RSS' },
+  { key: 'atom', label: 'Atom' },
+  { key: 'json', label: 'JSON API' },
+]
+
+export const DEFAULT_TICKER_EXTRACTION: TickerExtractionSettings = {
+  categories: true,
+  cashtags: true,
+  symbols: [],
+  aliases: {},
+}
+
+export const DEFAULT_JSON_MAPPING: JsonFeedMapping = {
+  items: 'data',
+  url: 'url',
+  title: 'title',
+  date: 'published_at',
+  text: 'body',
+  image: 'image_url',
+  tickers: 'tickers',
+}
+
+export const EMPTY_NEWS_SOURCE: NewsSourceInput = {
+  name: '',
+  type: 'rss',
+  url: '',
+  poll_interval_minutes: 15,
+  default_tags: [],
+  enabled: true,
+  ticker_extraction: DEFAULT_TICKER_EXTRACTION,
+  json_mapping: null,
+}
+
+// The backend polls at most once a minute and at least once a day
+export const MIN_POLL_INTERVAL_MINUTES = 1
+export const MAX_POLL_INTERVAL_MINUTES = 1440
+
+/**
+ * Validate a source before saving. Returns field errors, empty when valid.
+ */
+export function validateNewsSource(source: NewsSourceInput): string[] {
+  const errors: string[] = []
+  if (!source.name.trim()) errors.push('Name is required')
+  try {
+    const url = new URL(source.url)
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') errors.push('URL must be http or https')
+  } catch {
+    errors.push('URL is not valid')
+  }
+  if (
+    !Number.isInteger(source.poll_interval_minutes) ||
+    source.poll_interval_minutes < MIN_POLL_INTERVAL_MINUTES ||
+    source.poll_interval_minutes > MAX_POLL_INTERVAL_MINUTES
+  ) {
+    errors.push(`Polling interval must be ${MIN_POLL_INTERVAL_MINUTES}-${MAX_POLL_INTERVAL_MINUTES} minutes`)
+  }
+  if (source.type === 'json') {
+    const mapping = source.json_mapping
+    if (!mapping?.url.trim() || !mapping.title.trim() || !mapping.date.trim()) {
+      errors.push('JSON feeds need paths for url, title and date')
+    }
+  }
+  return errors
+}
+
+/**
+ * Parse alias lines such as "bitcoin = BTC" or "ether: ETH". Lines without a symbol are ignored.
+ */
+export function parseTickerAliases(value: string): Record<string, string> {
+  const aliases: Record<string, string> = {}
+  for (const line of value.split('\n')) {
+    const [name, symbol] = line.split(/[=:]/).map(part => part.trim())
+    if (name && symbol) aliases[name.toLowerCase()] = normaliseToken(symbol)
+  }
+  return aliases
+}
+
+export function formatTickerAliases(aliases: Record<string, string>): string {
+  return Object.entries(aliases).map(([name, symbol]) => `${name} = ${symbol}`).join('\n')
+}
@@ -0,0 +1,84 @@
+/**
+ * News Query
+ * Filter state for the News Feed, round-tripped through the URL. Pages are loaded as the
+ * admin scrolls, so the page number is not part of the query.
+ */
+
+import type { NewsTriageStatus } from '../types'
+
+export type NewsSentimentFilter = '' | 'positive' | 'neutral' | 'negative'
+
+// '' shows every status; stored in the URL as status=all because the default is 'new'
+export type NewsStatusFilter = '' | NewsTriageStatus
+
+// 'expiring' = unprotected articles expiring within EXPIRING_SOON_DAYS, 'protected' = pinned or linked to an alert
+export type NewsRetentionFilter = '' | 'expiring' | 'pinned' | 'protected'
+
+export interface NewsQuery {
+  q: string                   // Free text over title, text and source
+  token: string
+  sentiment: NewsSentimentFilter
+  source: string              // source_name
+  from: string                // Publish date range start, YYYY-MM-DD
+  to: string                  // Publish date range end, YYYY-MM-DD (inclusive)
+  status: NewsStatusFilter    // Triage status
+  flagged: string             // '' = all, 'any' = flagged by any watch rule, else a rule id
+  retention: NewsRetentionFilter
+}
+
+export const NEWS_PAGE_SIZE = 50
+
+export const DEFAULT_NEWS_QUERY: NewsQuery = {
+  q: '',
+  token: '',
+  sentiment: '',
+  source: '',
+  from: '',
+  to: '',
+  status: 'new',
+  flagged: '',
+  retention: '',
+}
+
+const SENTIMENTS = ['', 'positive', 'neutral', 'negative'] as const
+const STATUSES = ['new', 'reviewed', 'ignored', 'actioned'] as const
+const RETENTIONS = ['', 'expiring', 'pinned', 'protected'] as const
+
+/**
+ * Read a query from URL search params, falling back to defaults for anything missing or invalid
+ */
+export function parseNewsQuery(params: URLSearchParams): NewsQuery {
+  const sentiment = params.get('sentiment') || ''
+  const status = params.get('status') || ''
+  const retention = params.get('retention') || ''
+  return {
+    q: params.get('q') || '',
+    token: (params.get('token') || '').toUpperCase(),
+    sentiment: (SENTIMENTS as readonly string[]).includes(sentiment) ? sentiment as NewsSentimentFilter : '',
+    source: params.get('source') || '',
+    from: params.get('from') || '',
+    to: params.get('to') || '',
+    status: status === 'all' ? '' : (STATUSES as readonly string[]).includes(status) ? status as NewsTriageStatus : 'new',
+    flagged: params.get('flagged') || '',
+    retention: (RETENTIONS as readonly string[]).includes(retention) ? retention as NewsRetentionFilter : '',
+  }
+}
+
+/**
+ * Serialise a query to URL search params, omitting empty filters and the default status
+ */
+export function toNewsSearchParams(query: NewsQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const key of Object.keys(query) as Array<keyof NewsQuery>) {
+    if (key !== 'status' && query[key]) params.set(key, query[key])
+  }
+  if (query.status !== DEFAULT_NEWS_QUERY.status) params.set('status', query.status || 'all')
+  return params
+}
+
+/**
+ * Whether any filter is set. The status is a view rather than a filter, so it doesn't count.
+ */
+export function hasActiveNewsFilters(query: NewsQuery): boolean {
+  return (Object.keys(query) as Array<keyof NewsQuery>).some(key => key !== 'status' && Boolean(query[key]))
+}
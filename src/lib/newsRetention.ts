@@ -0,0 +1,56 @@
+/**
+ * News Retention
+ * How long an article stays in the news cache. Articles expire at `expires_at` unless an
+ * admin pinned them or an alert cites them as a source.
+ */
+
+import type { NewsArticle } from '../types'
+
+// Matches NewsStats.expiringSoon
+export const EXPIRING_SOON_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ArticleRetention =
+  | { kind: 'pinned' }
+  | { kind: 'linked' }                              // Kept while an alert cites it
+  | { kind: 'expires'; expiresAt: string; days: number }  // Whole days left, 0 once past
+
+type RetentionArticle = Pick<NewsArticle, 'expires_at' | 'pinned' | 'alert_created' | 'linked_alerts'>
+
+export function isLinkedToAlert(article: Pick<NewsArticle, 'alert_created' | 'linked_alerts'>): boolean {
+  return Boolean(article.alert_created) || (article.linked_alerts?.length || 0) > 0
+}
+
+export function getArticleRetention(article: RetentionArticle, now = new Date()): ArticleRetention {
+  if (article.pinned) return { kind: 'pinned' }
+  if (isLinkedToAlert(article)) return { kind: 'linked' }
+  const days = Math.max(0, Math.ceil((new Date(article.expires_at).getTime() - now.getTime()) / DAY_MS))
+  return { kind: 'expires', expiresAt: article.expires_at, days }
+}
+
+export function isExpiringSoon(article: RetentionArticle, now = new Date()): boolean {
+  const retention = getArticleRetention(article, now)
+  return retention.kind === 'expires' && retention.days <= EXPIRING_SOON_DAYS
+}
+
+/**
+ * Why an article's expiry can't be changed, or undefined when it can
+ */
+export function getExpiryLockReason(article: RetentionArticle): string | undefined {
+  if (article.pinned) return 'Pinned; never expires'
+  if (isLinkedToAlert(article)) return 'Linked to an alert; never expires'
+  return undefined
+}
+
+export function describeRetention(retention: ArticleRetention): string {
+  switch (retention.kind) {
+    case 'pinned':
+      return 'Pinned'
+    case 'linked':
+      return 'Kept while linked to an alert'
+    case 'expires':
+      if (retention.days === 0) return 'Expires at the next cleanup'
+      return `Expires in ${retention.days} day${retention.days === 1 ? '' : 's'}`
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * News Triage
+ * Per-article triage status and the keyboard shortcuts for working through the News Feed
+ */
+
+import type { NewsArticle, NewsTriageStatus } from '../types'
+
+export const TRIAGE_STATUSES: Array<{ value: NewsTriageStatus; label: string; className: string }> = [
+  { value: 'new', label: 'Untriaged', className: 'text-primary-700' },
+  { value: 'reviewed', label: 'Reviewed', className: 'text-gray-500' },
+  { value: 'ignored', label: 'Ignored', className: 'text-gray-400' },
+  { value: 'actioned', label: 'Actioned', className: 'text-green-600' },
+]
+
+export const NEWS_SHORTCUTS: Array<{ keys: string[]; description: string }> = [
+  { keys: ['j', 'k'], description: 'Next / previous story' },
+  { keys: ['r'], description: 'Mark reviewed' },
+  { keys: ['i'], description: 'Ignore' },
+  { keys: ['u'], description: 'Move back to untriaged' },
+  { keys: ['o'], description: 'Open article' },
+  { keys: ['e'], description: 'Edit article' },
+  { keys: ['a'], description: 'Create alert from story' },
+  { keys: ['x'], description: 'Select story' },
+  { keys: ['?'], description: 'Show or hide shortcuts' },
+]
+
+export function getTriageStatus(article: Pick<NewsArticle, 'triage_status'>): NewsTriageStatus {
+  return article.triage_status || 'new'
+}
+
+export function getTriageLabel(status: NewsTriageStatus): string {
+  return TRIAGE_STATUSES.find(s => s.value === status)?.label || status
+}
+
+/**
+ * Status shown for a story: untriaged while any of its articles is, otherwise
+ * the strongest status among them (actioned, then reviewed, then ignored)
+ */
+export function getStoryTriageStatus(articles: Array<Pick<NewsArticle, 'triage_status'>>): NewsTriageStatus {
+  const statuses = articles.map(getTriageStatus)
+  const order: NewsTriageStatus[] = ['new', 'actioned', 'reviewed', 'ignored']
+  return order.find(status => statuses.includes(status)) || 'new'
+}
+
+/**
+ * Whether a key press comes from somewhere the admin is typing, so shortcuts stay out of the way
+ */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
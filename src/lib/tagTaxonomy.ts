@@ -0,0 +1,181 @@
+/**
+ * Tag Taxonomy
+ * Canonical tags, synonyms and near-duplicate detection for alert tags and article topics
+ */
+
+import type { TagDefinition, TagTaxonomy } from '../types'
+
+export type TagResolution =
+  | { kind: 'canonical'; tag: string }                      // Already a canonical tag
+  | { kind: 'synonym'; tag: string; from: string }          // Known variant, rewritten to the canonical tag
+  | { kind: 'similar'; tag: string; suggestion: string }    // Unknown, but close to a canonical tag
+  | { kind: 'new'; tag: string }
+
+export interface TagRow {
+  tag: string
+  definition?: TagDefinition
+  synonymOf?: string          // Tag in use that a canonical tag lists as a synonym
+  alerts: number
+  articles: number
+}
+
+export const UNCATEGORISED = 'Uncategorised'
+
+// Checked longest first so "hacking" loses "ing" rather than "g"
+const STEM_SUFFIXES = ['ing', 'ed', 'es', 's']
+
+/**
+ * Normalise a tag: trim, drop a leading #, lowercase and join words with hyphens
+ */
+export function normaliseTag(tag: string): string {
+  return tag.trim().replace(/^#/, '').toLowerCase().replace(/[\s_]+/g, '-')
+}
+
+/**
+ * Normalise and de-duplicate, keeping first-seen order
+ */
+export function uniqueTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(normaliseTag).filter(Boolean)))
+}
+
+/**
+ * Rough stem for near-duplicate checks: "Hacked", "hacks" and "hack" share one
+ */
+function stemTag(tag: string): string {
+  const compact = normaliseTag(tag).replace(/[^a-z0-9]/g, '')
+  const suffix = STEM_SUFFIXES.find(s => compact.endsWith(s) && compact.length - s.length >= 3)
+  return suffix ? compact.slice(0, -suffix.length) : compact
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Whether two different tags probably mean the same thing: same stem,
+ * or one typo apart for tags long enough that a typo is likely
+ */
+export function areSimilarTags(a: string, b: string): boolean {
+  const stemA = stemTag(a)
+  const stemB = stemTag(b)
+  if (!stemA || !stemB) return false
+  if (stemA === stemB) return true
+  return Math.min(stemA.length, stemB.length) >= 5 && editDistance(stemA, stemB) <= 1
+}
+
+/**
+ * Map every canonical name and synonym (normalised) to its canonical tag
+ */
+export function buildTagIndex(definitions: TagDefinition[]): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const definition of definitions) {
+    index.set(normaliseTag(definition.name), definition.name)
+    for (const synonym of definition.synonyms) {
+      index.set(normaliseTag(synonym), definition.name)
+    }
+  }
+  return index
+}
+
+/**
+ * Decide what a typed tag should become
+ */
+export function resolveTag(input: string, definitions: TagDefinition[]): TagResolution {
+  const tag = normaliseTag(input)
+  const canonical = buildTagIndex(definitions).get(tag)
+  if (canonical) {
+    return canonical === tag ? { kind: 'canonical', tag } : { kind: 'synonym', tag: canonical, from: tag }
+  }
+  const similar = definitions.find(d => [d.name, ...d.synonyms].some(name => areSimilarTags(tag, name)))
+  return similar ? { kind: 'similar', tag, suggestion: similar.name } : { kind: 'new', tag }
+}
+
+/**
+ * Rewrite known synonyms to their canonical tags and drop duplicates
+ */
+export function canonicaliseTags(tags: string[], definitions: TagDefinition[]): string[] {
+  const index = buildTagIndex(definitions)
+  return uniqueTags(tags.map(tag => index.get(normaliseTag(tag)) || tag))
+}
+
+/**
+ * Canonical tags matching typed text, prefix matches first. Synonyms match too
+ * but suggest their canonical tag.
+ */
+export function suggestTags(input: string, definitions: TagDefinition[], exclude: string[] = [], limit = 8): string[] {
+  const query = normaliseTag(input)
+  if (!query) return []
+  const scored = definitions
+    .filter(d => !exclude.includes(d.name))
+    .map(d => {
+      const names = [d.name, ...d.synonyms].map(normaliseTag)
+      const score = names.some(n => n.startsWith(query)) ? 0 : names.some(n => n.includes(query)) ? 1 : -1
+      return { name: d.name, score }
+    })
+    .filter(s => s.score >= 0)
+  scored.sort((a, b) => a.score - b.score || a.name.localeCompare(b.name))
+  return scored.slice(0, limit).map(s => s.name)
+}
+
+/**
+ * One row per tag that is defined or in use. Tags used under several spellings
+ * (e.g. "Hack" and "hack") keep separate rows so they can be merged.
+ */
+export function buildTagRows(taxonomy: TagTaxonomy): TagRow[] {
+  const index = buildTagIndex(taxonomy.tags)
+  const rows = new Map<string, TagRow>()
+  for (const definition of taxonomy.tags) {
+    rows.set(definition.name, { tag: definition.name, definition, alerts: 0, articles: 0 })
+  }
+  for (const usage of taxonomy.usage) {
+    const row = rows.get(usage.tag)
+    if (row) {
+      row.alerts += usage.alerts
+      row.articles += usage.articles
+      continue
+    }
+    const canonical = index.get(normaliseTag(usage.tag))
+    rows.set(usage.tag, {
+      tag: usage.tag,
+      synonymOf: canonical,
+      alerts: usage.alerts,
+      articles: usage.articles,
+    })
+  }
+  return [...rows.values()].sort((a, b) => (b.alerts + b.articles) - (a.alerts + a.articles) || a.tag.localeCompare(b.tag))
+}
+
+/**
+ * Category names in use, sorted
+ */
+export function getTagCategories(definitions: TagDefinition[]): string[] {
+  return Array.from(new Set(definitions.map(d => d.category).filter((c): c is string => Boolean(c)))).sort()
+}
+
+/**
+ * Problems with a canonical tag before saving: a name or synonym that
+ * already belongs to another canonical tag
+ */
+export function findTagConflicts(
+  input: { name: string; synonyms: string[] },
+  definitions: TagDefinition[],
+  editingId?: number,
+): string[] {
+  const others = definitions.filter(d => d.id !== editingId)
+  const index = buildTagIndex(others)
+  return uniqueTags([input.name, ...input.synonyms])
+    .filter(tag => index.has(tag))
+    .map(tag => `"${tag}" already belongs to "${index.get(tag)}"`)
+}
@@ -0,0 +1,111 @@
+/**
+ * Ticker Registry
+ * Canonical ticker symbols with names and aliases, so "BTC", "$BTC", "XBT" and "bitcoin"
+ * all count as one token
+ */
+
+import type { TickerDefinition } from '../types'
+import { normaliseToken } from './alertTokens'
+
+export type TickerResolution =
+  | { kind: 'canonical'; symbol: string }                   // Already a canonical symbol
+  | { kind: 'alias'; symbol: string; from: string }         // Known alias or name, rewritten to the symbol
+  | { kind: 'unknown'; symbol: string }                     // Not in the registry; kept as typed
+
+export interface TokenCount {
+  token: string
+  count: number
+}
+
+/**
+ * Key used to compare tickers and names: "$btc", "BTC" and " Bitcoin " all normalise
+ * the same way as their upper-case form
+ */
+export function tickerKey(value: string): string {
+  return normaliseToken(value).replace(/\s+/g, ' ')
+}
+
+/**
+ * Map every symbol, name and alias (as a key) to its canonical symbol
+ */
+export function buildTickerIndex(definitions: TickerDefinition[]): Map<string, string> {
+  const index = new Map<string, string>()
+  for (const definition of definitions) {
+    for (const alias of definition.aliases) {
+      index.set(tickerKey(alias), definition.symbol)
+    }
+    index.set(tickerKey(definition.name), definition.symbol)
+  }
+  // Symbols last so a symbol always wins over another ticker's name or alias
+  for (const definition of definitions) {
+    index.set(tickerKey(definition.symbol), definition.symbol)
+  }
+  return index
+}
+
+/**
+ * Decide what a typed or received ticker should become
+ */
+export function resolveTicker(input: string, index: Map<string, string>): TickerResolution {
+  const key = tickerKey(input)
+  const symbol = index.get(key)
+  if (!symbol) return { kind: 'unknown', symbol: key }
+  return symbol === key ? { kind: 'canonical', symbol } : { kind: 'alias', symbol, from: key }
+}
+
+/**
+ * Rewrite aliases to canonical symbols and drop duplicates, keeping first-seen order.
+ * Without a registry nothing is reported as unknown.
+ */
+export function canonicaliseTickers(
+  tickers: string[],
+  definitions: TickerDefinition[],
+): { tickers: string[]; unknown: string[] } {
+  const index = buildTickerIndex(definitions)
+  const resolved = tickers.filter(t => tickerKey(t)).map(t => resolveTicker(t, index))
+  return {
+    tickers: Array.from(new Set(resolved.map(r => r.symbol))),
+    unknown: definitions.length > 0
+      ? Array.from(new Set(resolved.filter(r => r.kind === 'unknown').map(r => r.symbol)))
+      : [],
+  }
+}
+
+/**
+ * Combine counts reported under aliases into their canonical symbol, largest first
+ */
+export function mergeTokenCounts(counts: TokenCount[], definitions: TickerDefinition[]): TokenCount[] {
+  const index = buildTickerIndex(definitions)
+  const merged = new Map<string, number>()
+  for (const { token, count } of counts) {
+    const symbol = resolveTicker(token, index).symbol
+    if (!symbol) continue
+    merged.set(symbol, (merged.get(symbol) || 0) + count)
+  }
+  return [...merged.entries()]
+    .map(([token, count]) => ({ token, count }))
+    .sort((a, b) => b.count - a.count || a.token.localeCompare(b.token))
+}
+
+/**
+ * Problems with a ticker before saving: a symbol, name or alias that
+ * already belongs to another canonical ticker
+ */
+export function findTickerConflicts(
+  input: { symbol: string; name: string; aliases: string[] },
+  definitions: TickerDefinition[],
+  editingId?: number,
+): string[] {
+  const index = buildTickerIndex(definitions.filter(d => d.id !== editingId))
+  const keys = Array.from(new Set([input.symbol, input.name, ...input.aliases].map(tickerKey).filter(Boolean)))
+  return keys
+    .filter(key => index.has(key))
+    .map(key => `"${key}" already belongs to ${index.get(key)}`)
+}
+
+/**
+ * Chain names in use, sorted
+ */
+export function getTickerChains(definitions: TickerDefinition[]): string[] {
+  return Array.from(new Set(definitions.map(d => d.chain).filter((c): c is string => Boolean(c)))).sort()
+}
@@ -0,0 +1,151 @@
+/**
+ * Watch Rules
+ * Conditions that flag news articles worth a closer look. The backend flags articles as
+ * they are ingested; the same matching runs here to preview a rule before saving it.
+ */
+
+import type { NewsArticle, TickerDefinition, WatchRuleConditions, WatchRuleInput } from '../types'
+import { parseTokenList } from './alertTokens'
+import { canonicaliseTickers } from './tickerRegistry'
+
+export const EMPTY_WATCH_RULE: WatchRuleInput = {
+  name: '',
+  enabled: true,
+  conditions: {
+    keywords: [],
+    pattern: null,
+    match_in: 'title_and_text',
+    tickers: [],
+    min_watchers: null,
+    sources: [],
+    sentiments: [],
+  },
+}
+
+export const MAX_PATTERN_LENGTH = 200
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Case-insensitive match for a keyword or phrase as whole words, so "hack" doesn't match
+ * "hackathon". Any run of whitespace in a phrase matches any other.
+ */
+export function keywordPattern(keyword: string): RegExp {
+  const body = keyword.trim().split(/\s+/).map(escapeRegExp).join('\\s+')
+  return new RegExp(`(?<![\\w])${body}(?![\\w])`, 'i')
+}
+
+/**
+ * Compile a rule pattern, or return the reason it can't be used
+ */
+export function compilePattern(pattern: string): RegExp | string {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`
+  try {
+    return new RegExp(pattern, 'i')
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern'
+  }
+}
+
+/**
+ * Conditions as they would be saved, with the comma-separated keyword and ticker fields
+ * parsed and tickers resolved through the registry
+ */
+export function parseRuleConditions(
+  conditions: WatchRuleConditions,
+  keywordInput: string,
+  tickerInput: string,
+  registry: TickerDefinition[],
+): WatchRuleConditions {
+  return {
+    ...conditions,
+    keywords: Array.from(new Set(keywordInput.split(',').map(k => k.trim().toLowerCase()).filter(Boolean))),
+    pattern: conditions.pattern?.trim() || null,
+    tickers: canonicaliseTickers(parseTokenList(tickerInput), registry).tickers,
+  }
+}
+
+export function hasConditions(conditions: WatchRuleConditions): boolean {
+  return conditions.keywords.length > 0
+    || Boolean(conditions.pattern)
+    || conditions.tickers.length > 0
+    || conditions.min_watchers !== null
+    || conditions.sources.length > 0
+    || conditions.sentiments.length > 0
+}
+
+export function validateWatchRule(rule: WatchRuleInput): string[] {
+  const errors: string[] = []
+  if (!rule.name.trim()) errors.push('Name is required')
+  if (!hasConditions(rule.conditions)) errors.push('Add at least one condition')
+  if (rule.conditions.pattern) {
+    const compiled = compilePattern(rule.conditions.pattern)
+    if (typeof compiled === 'string') errors.push(`Pattern: ${compiled}`)
+  }
+  const minWatchers = rule.conditions.min_watchers
+  if (minWatchers !== null && (!Number.isInteger(minWatchers) || minWatchers < 1)) {
+    errors.push('Minimum watchers must be a whole number of at least 1')
+  }
+  return errors
+}
+
+/**
+ * Match an article against rule conditions. Returns why it matched, or null when any
+ * condition fails. `watchers` maps a symbol to how many users watch it.
+ */
+export function matchWatchRule(
+  article: Pick<NewsArticle, 'title' | 'text' | 'tickers' | 'source_name' | 'sentiment'>,
+  conditions: WatchRuleConditions,
+  watchers: Record<string, number> = {},
+): string[] | null {
+  if (!hasConditions(conditions)) return null
+  const text = conditions.match_in === 'title' ? article.title : `${article.title}\n${article.text || ''}`
+  const reasons: string[] = []
+
+  if (conditions.keywords.length > 0) {
+    const found = conditions.keywords.filter(keyword => keywordPattern(keyword).test(text))
+    if (found.length === 0) return null
+    reasons.push(...found.map(keyword => `"${keyword}"`))
+  }
+  if (conditions.pattern) {
+    const compiled = compilePattern(conditions.pattern)
+    const match = typeof compiled === 'string' ? null : compiled.exec(text)
+    if (!match) return null
+    reasons.push(`/${conditions.pattern}/ matched "${match[0]}"`)
+  }
+  if (conditions.tickers.length > 0) {
+    const found = article.tickers.filter(ticker => conditions.tickers.includes(ticker))
+    if (found.length === 0) return null
+    reasons.push(...found)
+  }
+  if (conditions.min_watchers !== null) {
+    const minWatchers = conditions.min_watchers
+    const watched = article.tickers.filter(ticker => (watchers[ticker] || 0) >= minWatchers)
+    if (watched.length === 0) return null
+    reasons.push(...watched.map(ticker => `${ticker} (${watchers[ticker]} watchers)`))
+  }
+  if (conditions.sources.length > 0) {
+    if (!conditions.sources.includes(article.source_name)) return null
+    reasons.push(article.source_name)
+  }
+  if (conditions.sentiments.length > 0) {
+    if (!article.sentiment || !conditions.sentiments.includes(article.sentiment)) return null
+    reasons.push(article.sentiment)
+  }
+  return reasons
+}
+
+/**
+ * One-line summary of a rule's conditions for the rules list
+ */
+export function describeWatchRule(conditions: WatchRuleConditions): string {
+  const parts: string[] = []
+  if (conditions.keywords.length > 0) parts.push(`mentions ${conditions.keywords.map(k => `"${k}"`).join(' or ')}`)
+  if (conditions.pattern) parts.push(`matches /${conditions.pattern}/`)
+  if (parts.length > 0 && conditions.match_in === 'title') parts.push('in the title')
+  if (conditions.tickers.length > 0) parts.push(`about ${conditions.tickers.join(' or ')}`)
+  if (conditions.min_watchers !== null) parts.push(`about a token with ${conditions.min_watchers}+ watchers`)
+  if (conditions.sources.length > 0) parts.push(`from ${conditions.sources.join(' or ')}`)
+  if (conditions.sentiments.length > 0) parts.push(conditions.sentiments.join(' or '))
+  return parts.length > 0 ? parts.join(', ') : 'No conditions'
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import { approveAlert, fetchAllAlerts, fetchApprovalPolicy, requestAlertChanges, updateApprovalPolicy } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY, getApprovalBlocker, getIntendedStatus } from '../lib/alertApproval'
+import { getAlertTokens } from '../lib/alertTokens'
+import { useAuthStore } from '../store/authStore'
+import { AlertReachPanel } from '../components/AlertReachPanel'
+import { ApprovalHistory } from '../components/ApprovalHistory'
+import { MarkdownPreview } from '../components/MarkdownEditor'
+import type { AlertStatus } from '../types'
+import { CheckCircle, MessageSquareWarning, Pencil, ShieldCheck } from 'lucide-react'
+
+interface ReviewAlert {
+  id: string
+  token: string
+  tokens?: string[]
+  title: string
+  description: string
+  severity: 'info' | 'warning' | 'critical'
+  deadline: string | null
+  tags?: string[]
+  status: AlertStatus
+  publish_at?: string | null
+  submitted_by?: string | null
+  submitted_at?: string | null
+}
+
+type ReviewTab = 'pending_approval' | 'changes_requested'
+
+const TABS: Array<{ key: ReviewTab; label: string }> = [
+  { key: 'pending_approval', label: 'Awaiting Approval' },
+  { key: 'changes_requested', label: 'Changes Requested' },
+]
+
+const SEVERITY_BORDER_STYLES: Record<ReviewAlert['severity'], string> = {
+  critical: 'border-red-500',
+  warning: 'border-yellow-500',
+  info: 'border-blue-500',
+}
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+export function AlertApprovals() {
+  const queryClient = useQueryClient()
+  const { adminName } = useAuthStore()
+  const [tab, setTab] = useState<ReviewTab>('pending_approval')
+  const [comments, setComments] = useState<Record<string, string>>({})
+
+  const { data: alerts = [], isLoading, error } = useQuery({
+    queryKey: ['alerts', 'review', tab],
+    // Oldest first, so the longest-waiting alert is reviewed first
+    queryFn: () => fetchAllAlerts<ReviewAlert>({ status: tab, sort: 'updated_at', order: 'asc' }),
+  })
+
+  const { data: policy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+
+  const policyMutation = useMutation({
+    mutationFn: updateApprovalPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['approval-policy'] })
+    },
+    onError: () => {
+      alert('Failed to update the approval policy')
+    },
+  })
+
+  const onDecided = (_data: void, { alert }: { alert: ReviewAlert }) => {
+    queryClient.invalidateQueries({ queryKey: ['alerts'] })
+    queryClient.invalidateQueries({ queryKey: ['alert-approvals', alert.id] })
+    setComments(current => {
+      const next = { ...current }
+      delete next[alert.id]
+      return next
+    })
+  }
+
+  const onDecisionError = (err: unknown) => {
+    const error = err as { response?: { data?: { error?: string } } }
+    alert(error.response?.data?.error || 'Failed to record the decision')
+  }
+
+  const approveMutation = useMutation({
+    mutationFn: ({ alert, comment }: { alert: ReviewAlert; comment: string }) => approveAlert(alert.id, comment.trim()),
+    onSuccess: onDecided,
+    onError: onDecisionError,
+  })
+
+  const requestChangesMutation = useMutation({
+    mutationFn: ({ alert, comment }: { alert: ReviewAlert; comment: string }) => requestAlertChanges(alert.id, comment.trim()),
+    onSuccess: onDecided,
+    onError: onDecisionError,
+  })
+
+  const isDeciding = approveMutation.isPending || requestChangesMutation.isPending
+  const warningsNeedApproval = policy.severities.includes('warning')
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Alert Approvals</h1>
+          <p className="text-gray-600 mt-2">
+            A second admin approves high-severity alerts before they reach users
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={warningsNeedApproval}
+            disabled={policyMutation.isPending}
+            onChange={(e) => policyMutation.mutate({ severities: e.target.checked ? ['critical', 'warning'] : ['critical'] })}
+          />
+          Warnings need approval too
+        </label>
+      </div>
+
+      {/* Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex gap-6 -mb-px">
+          {TABS.map(({ key, label }) => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`pb-3 text-sm font-medium border-b-2 transition ${
+                tab === key ? 'border-primary-600 text-primary-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </nav>
+      </div>
+
+      {error ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-red-600">Error loading alerts</div>
+      ) : isLoading ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500">Loading alerts...</div>
+      ) : alerts.length === 0 ? (
+        <div className="bg-white rounded-lg border border-gray-200 p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+          <ShieldCheck className="w-8 h-8 text-gray-300" />
+          {tab === 'pending_approval' ? 'Nothing waiting for approval' : 'No alerts sent back for changes'}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {alerts.map(alert => {
+            const blocker = getApprovalBlocker(alert, adminName)
+            const comment = comments[alert.id] || ''
+            const goesLive = getIntendedStatus(alert) === 'scheduled' && alert.publish_at
+              ? `Scheduled for ${formatDateTime(alert.publish_at)} once approved`
+              : 'Published as soon as it is approved'
+
+            return (
+              <div key={alert.id} className={`bg-white rounded-lg border border-gray-200 border-l-4 ${SEVERITY_BORDER_STYLES[alert.severity]}`}>
+                <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Alert */}
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-xs font-semibold uppercase text-gray-500">{alert.severity}</span>
+                      {getAlertTokens(alert).map(token => (
+                        <span key={token} className="px-2 py-0.5 text-xs font-medium bg-primary-100 text-primary-700 rounded">{token}</span>
+                      ))}
+                      {(alert.tags || []).map(tag => (
+                        <span key={tag} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">{tag}</span>
+                      ))}
+                    </div>
+                    <h2 className="text-lg font-semibold text-gray-900">{alert.title}</h2>
+                    <MarkdownPreview source={alert.description || ''} />
+                    <div className="text-xs text-gray-500 space-y-0.5">
+                      <div>
+                        Submitted by <span className="font-medium text-gray-700">{alert.submitted_by || 'unknown'}</span>
+                        {alert.submitted_at && ` on ${formatDateTime(alert.submitted_at)}`}
+                      </div>
+                      {alert.deadline && <div>Deadline {formatDateTime(alert.deadline)}</div>}
+                      <div>{goesLive}</div>
+                    </div>
+                  </div>
+
+                  {/* Review */}
+                  <div className="space-y-4">
+                    <AlertReachPanel
+                      tokens={getAlertTokens(alert)}
+                      title={alert.title}
+                      body={alert.description || ''}
+                      severity={alert.severity}
+                    />
+                    <div>
+                      <div className="text-sm font-medium text-gray-900 mb-2">Review History</div>
+                      <ApprovalHistory alertId={alert.id} />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+                  {tab === 'pending_approval' ? (
+                    <div className="space-y-3">
+                      <textarea
+                        value={comment}
+                        onChange={(e) => setComments({ ...comments, [alert.id]: e.target.value })}
+                        rows={2}
+                        placeholder="Comment (required when requesting changes)"
+                        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      />
+                      <div className="flex items-center justify-end gap-3">
+                        {blocker && <span className="mr-auto text-sm text-amber-700">{blocker}</span>}
+                        <button
+                          onClick={() => requestChangesMutation.mutate({ alert, comment })}
+                          disabled={isDeciding || !comment.trim() || Boolean(blocker)}
+                          className="flex items-center gap-2 px-4 py-2 border border-rose-300 text-rose-700 rounded-lg hover:bg-rose-50 transition disabled:opacity-50"
+                        >
+                          <MessageSquareWarning className="w-4 h-4" />
+                          Request Changes
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Approve "${alert.title}"? It will go live for every watcher of ${getAlertTokens(alert).join(', ')}.`)) {
+                              approveMutation.mutate({ alert, comment })
+                            }
+                          }}
+                          disabled={isDeciding || Boolean(blocker)}
+                          className="flex items-center gap-2 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition disabled:opacity-50"
+                        >
+                          <CheckCircle className="w-4 h-4" />
+                          Approve
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Edit the alert and save it to resubmit for approval.</span>
+                      <Link
+                        to={`/alerts?status=changes_requested&q=${encodeURIComponent(alert.title)}`}
+                        className="flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        <Pencil className="w-4 h-4" />
+                        Edit in Alerts
+                      </Link>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,319 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { useSearchParams } from 'react-router-dom'
+import { api, fetchAllAlerts } from '../lib/api'
+import { CreateAlertModal } from '../components/CreateAlertModal'
+import {
+  CALENDAR_VIEWS,
+  WEEKDAY_LABELS,
+  formatViewTitle,
+  fromDayKey,
+  getVisibleDays,
+  groupByDeadlineDay,
+  moveToDay,
+  stepAnchor,
+  toDayKey,
+  type CalendarView,
+} from '../lib/alertCalendar'
+import { PUBLIC_FEED_URLS, alertsToIcs, downloadFile, exportTimestamp } from '../lib/alertExport'
+import { getAlertTokens } from '../lib/alertTokens'
+import { copyOrShow } from '../lib/clipboard'
+import type { AlertStatus } from '../types'
+import { CalendarDays, ChevronLeft, ChevronRight, Copy, Download, Plus, Rss } from 'lucide-react'
+
+interface CalendarAlert {
+  id: number
+  token: string
+  tokens?: string[]
+  title: string
+  description: string
+  severity: 'info' | 'warning' | 'critical'
+  deadline: string
+  tags?: string[]
+  source_url?: string
+  status?: AlertStatus
+}
+
+const SEVERITY_CHIP_STYLES: Record<CalendarAlert['severity'], string> = {
+  critical: 'bg-red-100 text-red-800 border-red-500',
+  warning: 'bg-yellow-100 text-yellow-800 border-yellow-500',
+  info: 'bg-blue-100 text-blue-800 border-blue-500',
+}
+
+const MONTH_CELL_LIMIT = 3
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })
+
+// Calendar apps can't send the admin token, so the feed is served from a public read-only endpoint
+const ICS_FEED_URL = PUBLIC_FEED_URLS.ics
+
+export function AlertCalendar() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const view = CALENDAR_VIEWS.find(v => v === searchParams.get('view')) || 'month'
+  const anchor = fromDayKey(searchParams.get('date')) || new Date()
+  const [createDate, setCreateDate] = useState<string | null>(null)
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null)
+  const [feedCopied, setFeedCopied] = useState(false)
+  const queryClient = useQueryClient()
+
+  const days = getVisibleDays(view, anchor)
+  const from = toDayKey(days[0])
+  const to = toDayKey(days[days.length - 1])
+  const todayKey = toDayKey(new Date())
+
+  const { data: alerts = [], isLoading, error } = useQuery({
+    queryKey: ['alerts', 'calendar', from, to],
+    queryFn: () => fetchAllAlerts<CalendarAlert>({ from, to, sort: 'deadline', order: 'asc' }),
+    placeholderData: keepPreviousData,
+  })
+
+  const alertsByDay = groupByDeadlineDay(alerts)
+
+  const rescheduleMutation = useMutation({
+    mutationFn: async ({ alert, deadline }: { alert: CalendarAlert; deadline: string }) => {
+      await api.put(`/api/alerts/${alert.id}`, { ...alert, deadline })
+    },
+    onSuccess: (_data, { alert }) => {
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['alert-revisions', alert.id] })
+    },
+    onError: () => {
+      alert('Failed to reschedule alert')
+    },
+  })
+
+  const navigate = (changes: { view?: CalendarView; date?: Date }) => {
+    const params = new URLSearchParams()
+    params.set('view', changes.view || view)
+    params.set('date', toDayKey(changes.date || anchor))
+    setSearchParams(params)
+  }
+
+  const handleDrop = (e: React.DragEvent, dayKey: string) => {
+    e.preventDefault()
+    setDragOverDay(null)
+    // Drag data is always a string
+    const alert = alerts.find(a => String(a.id) === e.dataTransfer.getData('text/plain'))
+    if (!alert || toDayKey(new Date(alert.deadline)) === dayKey) return
+    rescheduleMutation.mutate({ alert, deadline: moveToDay(alert.deadline, dayKey) })
+  }
+
+  const handleDownloadIcs = async () => {
+    try {
+      // Upcoming deadlines only, matching what the subscription feed serves
+      const upcoming = await fetchAllAlerts<CalendarAlert>({ from: todayKey, sort: 'deadline', order: 'asc' })
+      downloadFile(`alert-deadlines-${exportTimestamp()}.ics`, alertsToIcs(upcoming), 'text/calendar')
+    } catch (error: unknown) {
+      const err = error as { response?: { data?: { error?: string } } }
+      alert(err.response?.data?.error || 'Failed to download calendar')
+    }
+  }
+
+  const handleCopyFeed = async () => {
+    if (!(await copyOrShow(ICS_FEED_URL, 'feed URL'))) return
+    setFeedCopied(true)
+    setTimeout(() => setFeedCopied(false), 2000)
+  }
+
+  const renderChip = (alert: CalendarAlert, showTime: boolean) => (
+    <div
+      key={alert.id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', String(alert.id))
+        e.dataTransfer.effectAllowed = 'move'
+      }}
+      onClick={(e) => e.stopPropagation()}
+      title={`${getAlertTokens(alert).join(', ')}: ${alert.title}\n${formatTime(alert.deadline)} · ${alert.severity}`}
+      className={`px-2 py-1 text-xs rounded border-l-4 cursor-grab active:cursor-grabbing truncate ${SEVERITY_CHIP_STYLES[alert.severity]}`}
+    >
+      {showTime && <span className="font-medium mr-1">{formatTime(alert.deadline)}</span>}
+      <span className="font-semibold">{alert.token}</span> {alert.title}
+    </div>
+  )
+
+  const dayCellProps = (dayKey: string) => ({
+    onClick: () => setCreateDate(dayKey),
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault()
+      setDragOverDay(dayKey)
+    },
+    onDragLeave: () => setDragOverDay(current => current === dayKey ? null : current),
+    onDrop: (e: React.DragEvent) => handleDrop(e, dayKey),
+  })
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Deadline Calendar</h1>
+          <p className="text-gray-600 mt-2">
+            Alerts placed by deadline. Drag an alert to reschedule it, click a day to create one.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={handleDownloadIcs}
+            className="flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg border border-gray-300 transition"
+          >
+            <Download className="w-5 h-5" />
+            Download .ics
+          </button>
+          <button
+            onClick={() => setCreateDate(todayKey)}
+            className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+          >
+            <Plus className="w-5 h-5" />
+            Create Alert
+          </button>
+        </div>
+      </div>
+
+      {/* Subscription feed */}
+      <div className="bg-white rounded-lg border border-gray-200 p-4 flex items-center gap-3 text-sm">
+        <Rss className="w-5 h-5 text-orange-500 flex-shrink-0" />
+        <span className="text-gray-600">Subscribe to upcoming deadlines:</span>
+        <code className="flex-1 px-2 py-1 bg-gray-50 border border-gray-200 rounded text-gray-800 truncate">{ICS_FEED_URL}</code>
+        <button
+          onClick={handleCopyFeed}
+          className="flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+        >
+          <Copy className="w-4 h-4" />
+          {feedCopied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+
+      {/* Toolbar */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => navigate({ date: stepAnchor(view, anchor, -1) })}
+            className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => navigate({ date: new Date() })}
+            className="px-3 py-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50 text-sm font-medium text-gray-700"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate({ date: stepAnchor(view, anchor, 1) })}
+            className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+          <h2 className="ml-3 text-xl font-semibold text-gray-900">{formatViewTitle(view, anchor)}</h2>
+          {rescheduleMutation.isPending && <span className="text-sm text-gray-400">Saving...</span>}
+        </div>
+        <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+          {CALENDAR_VIEWS.map(v => (
+            <button
+              key={v}
+              onClick={() => navigate({ view: v })}
+              className={`px-4 py-2 text-sm font-medium capitalize ${
+                view === v ? 'bg-primary-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {v}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Calendar */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading alerts</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading alerts...</div>
+        ) : view === 'agenda' ? (
+          <div className="divide-y divide-gray-200">
+            {days.filter(day => alertsByDay.has(toDayKey(day))).map(day => {
+              const dayKey = toDayKey(day)
+              return (
+                <div key={dayKey} className="flex gap-6 px-6 py-4">
+                  <div className={`w-32 flex-shrink-0 text-sm ${dayKey === todayKey ? 'text-primary-700 font-semibold' : 'text-gray-600'}`}>
+                    {day.toLocaleDateString('en-GB', { weekday: 'short', day: 'numeric', month: 'short' })}
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    {alertsByDay.get(dayKey)!.map(alert => (
+                      <div key={alert.id} className={`px-3 py-2 rounded border-l-4 ${SEVERITY_CHIP_STYLES[alert.severity]}`}>
+                        <div className="text-sm">
+                          <span className="font-medium mr-2">{formatTime(alert.deadline)}</span>
+                          <span className="font-semibold">{getAlertTokens(alert).join(', ')}</span> · {alert.title}
+                        </div>
+                        {alert.description && <div className="text-xs mt-1 line-clamp-2 opacity-80">{alert.description}</div>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+            {alertsByDay.size === 0 && (
+              <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+                <CalendarDays className="w-8 h-8 text-gray-300" />
+                No deadlines in the next {days.length} days
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+              {WEEKDAY_LABELS.map(label => (
+                <div key={label} className="px-2 py-2 text-xs font-medium text-gray-500 uppercase text-center">{label}</div>
+              ))}
+            </div>
+            <div className="grid grid-cols-7">
+              {days.map(day => {
+                const dayKey = toDayKey(day)
+                const dayAlerts = alertsByDay.get(dayKey) || []
+                const inMonth = view === 'week' || day.getMonth() === anchor.getMonth()
+                const visible = view === 'month' ? dayAlerts.slice(0, MONTH_CELL_LIMIT) : dayAlerts
+                return (
+                  <div
+                    key={dayKey}
+                    {...dayCellProps(dayKey)}
+                    className={`border-r border-b border-gray-200 p-1.5 space-y-1 cursor-pointer transition ${
+                      view === 'month' ? 'min-h-[7rem]' : 'min-h-[24rem]'
+                    } ${dragOverDay === dayKey ? 'bg-primary-50' : inMonth ? 'hover:bg-gray-50' : 'bg-gray-50/60'}`}
+                  >
+                    <div className={`text-xs font-medium text-right ${
+                      dayKey === todayKey
+                        ? 'text-primary-700'
+                        : inMonth ? 'text-gray-700' : 'text-gray-400'
+                    }`}>
+                      {view === 'week' ? day.toLocaleDateString('en-GB', { day: 'numeric', month: 'short' }) : day.getDate()}
+                    </div>
+                    {visible.map(alert => renderChip(alert, view === 'week'))}
+                    {dayAlerts.length > visible.length && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          navigate({ view: 'week', date: day })
+                        }}
+                        className="text-xs text-gray-500 hover:text-gray-800"
+                      >
+                        +{dayAlerts.length - visible.length} more
+                      </button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          </>
+        )}
+      </div>
+
+      {createDate && (
+        <CreateAlertModal
+          initialDeadline={`${createDate}T09:00`}
+          onClose={() => setCreateDate(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,567 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import {
+  createAlertDraftRule,
+  deleteAlertDraftRule,
+  fetchAdminStats,
+  fetchAlertDraftRuleMatches,
+  fetchAlertDraftRules,
+  fetchAlertTemplates,
+  fetchNewsPage,
+  fetchTickerRegistry,
+  updateAlertDraftRule,
+} from '../lib/api'
+import {
+  DRAFT_PLACEHOLDERS,
+  EMPTY_DRAFT_RULE,
+  simulateDraftRule,
+  validateAlertDraftRule,
+} from '../lib/alertDraftRules'
+import { describeWatchRule, hasConditions, parseRuleConditions } from '../lib/watchRules'
+import { RuleConditionsFields } from '../components/RuleConditionsFields'
+import { TagInput } from '../components/TagInput'
+import type { AlertDraftRule, AlertDraftRuleInput, NewsArticle } from '../types'
+import { ChevronDown, ChevronRight, FilePen, FlaskConical, Pencil, Plus, Trash2, X } from 'lucide-react'
+
+// The simulation replays a rule over the cache, loaded page by page up to this many articles
+const SIMULATION_PAGE_SIZE = 100
+const SIMULATION_MAX_ARTICLES = 2000
+const PREVIEW_LIMIT = 20
+
+const toInput = (rule: AlertDraftRule): AlertDraftRuleInput => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  conditions: rule.conditions,
+  alert: rule.alert,
+})
+
+// What a simulation covers; the name and enabled flag don't change what a rule drafts
+const simulationKey = (rule: AlertDraftRuleInput) => JSON.stringify([rule.conditions, rule.alert])
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+const getSeverityBadge = (severity: string) => {
+  const styles = {
+    critical: 'bg-red-100 text-red-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    info: 'bg-blue-100 text-blue-800',
+  }
+  return styles[severity as keyof typeof styles] || 'bg-gray-100 text-gray-800'
+}
+
+async function fetchCachedArticles(): Promise<{ articles: NewsArticle[]; total: number }> {
+  const articles: NewsArticle[] = []
+  let page = 1
+  let total = 0
+  do {
+    const result = await fetchNewsPage({ page, limit: SIMULATION_PAGE_SIZE })
+    articles.push(...result.articles)
+    total = result.total
+    if (result.articles.length < SIMULATION_PAGE_SIZE) break
+    page++
+  } while (articles.length < Math.min(total, SIMULATION_MAX_ARTICLES))
+  return { articles, total }
+}
+
+/**
+ * Articles a rule matched and the drafts it created from them
+ */
+function RuleMatches({ ruleId }: { ruleId: number }) {
+  const { data: matches = [], isLoading, error } = useQuery({
+    queryKey: ['draft-rule-matches', ruleId],
+    queryFn: () => fetchAlertDraftRuleMatches(ruleId),
+  })
+
+  if (error) return <div className="text-sm text-red-600">Error loading matches</div>
+  if (isLoading) return <div className="text-sm text-gray-500">Loading matches...</div>
+  if (matches.length === 0) return <div className="text-sm text-gray-500">No articles matched yet</div>
+
+  return (
+    <ul className="divide-y divide-gray-100 text-sm">
+      {matches.map(match => (
+        <li key={match.article_url} className="py-2">
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="font-medium">{match.source_name}</span>
+            <span>•</span>
+            <span>Matched {formatDateTime(match.matched_at)}</span>
+            <span>•</span>
+            <span>{match.matched.join(', ')}</span>
+          </div>
+          <a
+            href={match.article_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-gray-900 hover:text-primary-600"
+          >
+            {match.title}
+          </a>
+          <div className="text-xs mt-1">
+            {match.alert ? (
+              <Link to={`/alerts?alert=${match.alert.id}`} className="text-primary-600 hover:text-primary-800">
+                {match.alert.status === 'draft' ? 'Draft' : 'Alert'}: {match.alert.title}
+              </Link>
+            ) : (
+              <span className="text-gray-500">No draft: {match.skipped_reason || 'skipped'}</span>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function AlertDraftRules() {
+  const queryClient = useQueryClient()
+  // null = editor closed, 'new' = creating, number = editing that rule
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<AlertDraftRuleInput>(EMPTY_DRAFT_RULE)
+  const [keywordInput, setKeywordInput] = useState('')
+  const [tickerInput, setTickerInput] = useState('')
+  const [saveError, setSaveError] = useState('')
+  // The rule as it was when the simulation ran, so edits afterwards require another run
+  const [simulatedKey, setSimulatedKey] = useState<string | null>(null)
+  const [expandedRule, setExpandedRule] = useState<number | null>(null)
+
+  const { data: rules = [], isLoading, error } = useQuery({
+    queryKey: ['draft-rules'],
+    queryFn: fetchAlertDraftRules,
+  })
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['alert-templates'],
+    queryFn: fetchAlertTemplates,
+    enabled: editingId !== null,
+  })
+
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+    enabled: editingId !== null,
+  })
+
+  // Watchlist counts, needed to simulate the minimum watchers condition
+  const { data: adminStats } = useQuery({
+    queryKey: ['admin-stats'],
+    queryFn: fetchAdminStats,
+    enabled: simulatedKey !== null,
+  })
+
+  const { data: cache, isFetching: isLoadingCache } = useQuery({
+    queryKey: ['news-cache', 'draft-rule-simulation'],
+    queryFn: fetchCachedArticles,
+    enabled: simulatedKey !== null,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['draft-rules'] })
+    queryClient.invalidateQueries({ queryKey: ['draft-rule-matches'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: AlertDraftRuleInput) =>
+      editingId === 'new' || editingId === null
+        ? createAlertDraftRule(rule)
+        : updateAlertDraftRule(editingId, rule),
+    onSuccess: () => {
+      invalidate()
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save rule')
+    },
+  })
+
+  const disableMutation = useMutation({
+    mutationFn: (rule: AlertDraftRule) => updateAlertDraftRule(rule.id, { ...toInput(rule), enabled: false }),
+    onSuccess: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAlertDraftRule,
+    onSuccess: invalidate,
+  })
+
+  const openEditor = (rule?: AlertDraftRule) => {
+    const input = rule ? toInput(rule) : EMPTY_DRAFT_RULE
+    setForm(input)
+    setKeywordInput(input.conditions.keywords.join(', '))
+    setTickerInput(input.conditions.tickers.join(', '))
+    setSaveError('')
+    setSimulatedKey(null)
+    setEditingId(rule ? rule.id : 'new')
+  }
+
+  // The form as it would be saved, with the free-text fields parsed
+  const draft: AlertDraftRuleInput = {
+    ...form,
+    name: form.name.trim(),
+    conditions: parseRuleConditions(form.conditions, keywordInput, tickerInput, tickerRegistry?.tickers || []),
+    alert: { ...form.alert, title: form.alert.title.trim(), body: form.alert.body?.trim() },
+  }
+  const validationErrors = validateAlertDraftRule(draft)
+
+  // Enabling needs a simulation of exactly what is saved, unless an enabled rule's
+  // conditions and alert are unchanged
+  const editingRule = rules.find(rule => rule.id === editingId)
+  const isSimulated = simulatedKey === simulationKey(draft)
+  const canEnable = validationErrors.length === 0 && (
+    isSimulated || Boolean(editingRule?.enabled && simulationKey(toInput(editingRule)) === simulationKey(draft))
+  )
+
+  const results = isSimulated && cache
+    ? simulateDraftRule(cache.articles, draft, adminStats?.users.watchlistTokens)
+    : []
+  const drafted = results.filter(result => result.draft)
+
+  const applyTemplate = (templateId: number) => {
+    const template = templates.find(t => t.id === templateId)
+    if (!template) return
+    setForm({
+      ...form,
+      alert: { title: template.title, body: template.body, severity: template.severity, tags: [...template.tags] },
+    })
+  }
+
+  const insertPlaceholder = (field: 'title' | 'body', key: string) => {
+    setForm({ ...form, alert: { ...form.alert, [field]: `${form.alert[field] || ''}{{${key}}}` } })
+  }
+
+  const save = (enabled: boolean) => {
+    if (validationErrors.length > 0 || (enabled && !canEnable)) return
+    saveMutation.mutate({ ...draft, enabled })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Draft Rules</h1>
+          <p className="text-gray-600 mt-2">Turn matching articles into draft alerts for review. Drafts are never published automatically.</p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition"
+        >
+          <Plus className="w-4 h-4" />
+          New Rule
+        </button>
+      </div>
+
+      {/* Rules */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading rules</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <FilePen className="w-8 h-8 text-gray-300" />
+            No draft rules yet
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 text-left">Rule</th>
+                <th className="px-4 py-3 text-left">Enabled</th>
+                <th className="px-4 py-3 text-right">Matches</th>
+                <th className="px-4 py-3 text-right">Drafts</th>
+                <th className="px-4 py-3 text-left">Last Draft</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            {rules.map(rule => {
+              const isExpanded = expandedRule === rule.id
+              return (
+                <tbody key={rule.id} className="divide-y divide-gray-200 border-b border-gray-200">
+                  <tr className={`align-top ${rule.enabled ? '' : 'bg-gray-50 text-gray-500'}`}>
+                    <td className="px-4 py-3">
+                      <button
+                        onClick={() => setExpandedRule(isExpanded ? null : rule.id)}
+                        className="flex items-center gap-1 font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {rule.name}
+                      </button>
+                      <div className="ml-5 text-xs text-gray-500">{describeWatchRule(rule.conditions)}</div>
+                      <div className="ml-5 mt-1 flex items-center gap-2 text-xs">
+                        <span className={`px-1.5 py-0.5 rounded font-medium ${getSeverityBadge(rule.alert.severity)}`}>
+                          {rule.alert.severity}
+                        </span>
+                        <span className="text-gray-700">{rule.alert.title}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      {/* Enabling goes through the editor so the rule is simulated first */}
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        disabled={disableMutation.isPending}
+                        onChange={() => (rule.enabled ? disableMutation.mutate(rule) : openEditor(rule))}
+                        title={rule.enabled ? 'Disable' : 'Simulate and enable'}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{rule.match_count}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{rule.draft_count}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {rule.last_draft_at ? formatDateTime(rule.last_draft_at) : <span className="text-gray-400">Never</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <button onClick={() => openEditor(rule)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete "${rule.name}"? Drafts it created are kept.`)) {
+                              deleteMutation.mutate(rule.id)
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={6} className="px-9 py-3 bg-gray-50">
+                        <RuleMatches ruleId={rule.id} />
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              )
+            })}
+          </table>
+        )}
+      </div>
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Draft Rule' : 'Edit Draft Rule'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={(e) => { e.preventDefault(); save(false) }} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Hacks on watched tokens"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+              </div>
+
+              <h3 className="text-sm font-semibold text-gray-900 pt-2">When an article matches</h3>
+              <p className="text-sm text-gray-600">
+                Every condition you fill in must match. Within a condition, any value may match.
+              </p>
+
+              <RuleConditionsFields
+                conditions={form.conditions}
+                keywordInput={keywordInput}
+                tickerInput={tickerInput}
+                onChange={(changes) => setForm({ ...form, conditions: { ...form.conditions, ...changes } })}
+                onKeywordInputChange={setKeywordInput}
+                onTickerInputChange={setTickerInput}
+              />
+
+              <div className="flex items-center justify-between pt-2">
+                <h3 className="text-sm font-semibold text-gray-900">Draft this alert</h3>
+                {templates.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => applyTemplate(Number(e.target.value))}
+                    className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    <option value="">Start from template...</option>
+                    {templates.map(template => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              {(['title', 'body'] as const).map(field => (
+                <div key={field}>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {field === 'title' ? 'Title' : 'Body'}
+                    </label>
+                    <div className="flex gap-1">
+                      {DRAFT_PLACEHOLDERS.map(p => (
+                        <button
+                          key={p.key}
+                          type="button"
+                          onClick={() => insertPlaceholder(field, p.key)}
+                          title={p.label}
+                          className="px-2 py-0.5 text-xs font-mono bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+                        >
+                          {`{{${p.key}}}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {field === 'title' ? (
+                    <input
+                      type="text"
+                      value={form.alert.title}
+                      onChange={(e) => setForm({ ...form, alert: { ...form.alert, title: e.target.value } })}
+                      placeholder="{{token}} exploit reported"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    />
+                  ) : (
+                    <textarea
+                      value={form.alert.body || ''}
+                      onChange={(e) => setForm({ ...form, alert: { ...form.alert, body: e.target.value } })}
+                      rows={4}
+                      placeholder="{{source}} reports: {{title}}"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    />
+                  )}
+                </div>
+              ))}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+                  <select
+                    value={form.alert.severity}
+                    onChange={(e) => setForm({ ...form, alert: { ...form.alert, severity: e.target.value as AlertDraftRuleInput['alert']['severity'] } })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    <option value="info">Info</option>
+                    <option value="warning">Warning</option>
+                    <option value="critical">Critical</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+                  <TagInput
+                    tags={form.alert.tags || []}
+                    onChange={(tags) => setForm({ ...form, alert: { ...form.alert, tags } })}
+                    placeholder="hack, exploit"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                The token is the article's first ticker that fits the rule. The article is linked as the draft's source.
+              </p>
+
+              {/* Replay the rule over the cache */}
+              <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">Simulate on the current news cache</span>
+                  <button
+                    type="button"
+                    onClick={() => setSimulatedKey(simulationKey(draft))}
+                    disabled={validationErrors.length > 0 || isSimulated}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                    {simulatedKey === null ? 'Run simulation' : 'Run again'}
+                  </button>
+                </div>
+                {simulatedKey !== null && !isSimulated && (
+                  <p className="text-sm text-amber-700">The rule changed since the last run. Run the simulation again to enable it.</p>
+                )}
+                {isSimulated && (isLoadingCache && !cache ? (
+                  <p className="text-sm text-gray-500">Loading articles...</p>
+                ) : cache && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      {results.length} of {cache.articles.length} cached articles match; {drafted.length} would become drafts
+                      {results.length > drafted.length && `, ${results.length - drafted.length} skipped`}
+                    </p>
+                    {cache.total > cache.articles.length && (
+                      <p className="text-xs text-gray-500">Only the {cache.articles.length} most recent of {cache.total} articles were replayed</p>
+                    )}
+                    <ul className="divide-y divide-gray-100 text-sm">
+                      {results.slice(0, PREVIEW_LIMIT).map(({ article, matched, draft: alert, skippedReason }) => (
+                        <li key={article.article_url} className="py-1.5">
+                          <div className="text-xs text-gray-500">
+                            <span className="font-medium">{article.source_name}</span>: {article.title}
+                          </div>
+                          <div className="text-xs text-amber-700">{matched.join(', ')}</div>
+                          {alert ? (
+                            <div className="flex items-center gap-2 mt-0.5">
+                              <span className={`px-1.5 py-0.5 text-xs rounded font-medium ${getSeverityBadge(alert.severity)}`}>
+                                {alert.token}
+                              </span>
+                              <span className="text-gray-900">{alert.title}</span>
+                            </div>
+                          ) : (
+                            <div className="text-xs text-gray-500 mt-0.5">No draft: {skippedReason}</div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                    {results.length > PREVIEW_LIMIT && (
+                      <p className="text-xs text-gray-500">and {results.length - PREVIEW_LIMIT} more</p>
+                    )}
+                  </>
+                ))}
+              </div>
+
+              {validationErrors.length > 0 && (draft.name || hasConditions(draft.conditions) || draft.alert.title) && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {validationErrors.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={validationErrors.length > 0 || saveMutation.isPending}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+                >
+                  Save Disabled
+                </button>
+                <button
+                  type="button"
+                  onClick={() => save(true)}
+                  disabled={!canEnable || saveMutation.isPending}
+                  title={canEnable ? undefined : 'Run the simulation first'}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save and Enable'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { createAlertTemplate, deleteAlertTemplate, fetchAlertTemplates, updateAlertTemplate } from '../lib/api'
+import { TEMPLATE_PLACEHOLDERS, fillTemplateText, findUnknownPlaceholders, getTemplatePlaceholders } from '../lib/alertTemplates'
+import { TagInput } from '../components/TagInput'
+import type { AlertTemplate, AlertTemplateInput } from '../types'
+import { LayoutTemplate, Pencil, Plus, Trash2, X } from 'lucide-react'
+
+const EMPTY_TEMPLATE: AlertTemplateInput = {
+  name: '',
+  title: '',
+  body: '',
+  severity: 'info',
+  tags: [],
+}
+
+const EXAMPLE_VALUES = Object.fromEntries(TEMPLATE_PLACEHOLDERS.map(p => [p.key, p.example]))
+
+const getSeverityBadge = (severity: string) => {
+  const styles = {
+    critical: 'bg-red-100 text-red-800',
+    warning: 'bg-yellow-100 text-yellow-800',
+    info: 'bg-blue-100 text-blue-800',
+  }
+  return styles[severity as keyof typeof styles] || 'bg-gray-100 text-gray-800'
+}
+
+export function AlertTemplates() {
+  const queryClient = useQueryClient()
+  // null = editor closed, 'new' = creating, number = editing that template
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<AlertTemplateInput>(EMPTY_TEMPLATE)
+  const [saveError, setSaveError] = useState('')
+
+  const { data: templates = [], isLoading, error } = useQuery({
+    queryKey: ['alert-templates'],
+    queryFn: fetchAlertTemplates,
+  })
+
+  const saveMutation = useMutation({
+    mutationFn: (template: AlertTemplateInput) =>
+      editingId === 'new' || editingId === null
+        ? createAlertTemplate(template)
+        : updateAlertTemplate(editingId, template),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-templates'] })
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save template')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAlertTemplate,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['alert-templates'] })
+    },
+  })
+
+  const openEditor = (template?: AlertTemplate) => {
+    const input = template
+      ? { name: template.name, title: template.title, body: template.body, severity: template.severity, tags: template.tags }
+      : EMPTY_TEMPLATE
+    setForm(input)
+    setSaveError('')
+    setEditingId(template ? template.id : 'new')
+  }
+
+  const insertPlaceholder = (field: 'title' | 'body', key: string) => {
+    setForm({ ...form, [field]: `${form[field]}{{${key}}}` })
+  }
+
+  const unknownPlaceholders = findUnknownPlaceholders(`${form.title}\n${form.body}`)
+  const duplicateName = templates.some(t => t.id !== editingId && t.name.trim().toLowerCase() === form.name.trim().toLowerCase())
+  const canSave = Boolean(form.name.trim() && form.title.trim()) && !duplicateName && unknownPlaceholders.length === 0
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    saveMutation.mutate({ ...form, name: form.name.trim() })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Alert Templates</h1>
+          <p className="text-gray-600 mt-2">
+            Reusable alert wording with {'{{token}}'}, {'{{date}}'} and {'{{url}}'} placeholders
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+        >
+          <Plus className="w-5 h-5" />
+          New Template
+        </button>
+      </div>
+
+      {/* Template list */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading templates</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading templates...</div>
+        ) : templates.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <LayoutTemplate className="w-8 h-8 text-gray-300" />
+            No templates yet. Create one for alerts you write often.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {templates.map(template => (
+              <li key={template.id} className="px-6 py-4 flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{template.name}</span>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getSeverityBadge(template.severity)}`}>
+                      {template.severity}
+                    </span>
+                    {template.tags.map(tag => (
+                      <span key={tag} className="px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">{tag}</span>
+                    ))}
+                  </div>
+                  <div className="text-sm text-gray-700 mt-1">{template.title}</div>
+                  <div className="text-sm text-gray-500 mt-1 line-clamp-2">{template.body}</div>
+                  {getTemplatePlaceholders(template).length > 0 && (
+                    <div className="text-xs text-gray-400 mt-1">
+                      Placeholders: {getTemplatePlaceholders(template).join(', ')}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button onClick={() => openEditor(template)} className="text-primary-600 hover:text-primary-900">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete template "${template.name}"?`)) {
+                        deleteMutation.mutate(template.id)
+                      }
+                    }}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Template' : 'Edit Template'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Exchange withdrawal pause"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                {duplicateName && <p className="text-xs text-red-600 mt-1">A template with this name already exists</p>}
+              </div>
+
+              {(['title', 'body'] as const).map(field => (
+                <div key={field}>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      {field === 'title' ? 'Title' : 'Body'}
+                    </label>
+                    <div className="flex gap-1">
+                      {TEMPLATE_PLACEHOLDERS.map(p => (
+                        <button
+                          key={p.key}
+                          type="button"
+                          onClick={() => insertPlaceholder(field, p.key)}
+                          className="px-2 py-0.5 text-xs font-mono bg-gray-100 hover:bg-gray-200 text-gray-700 rounded"
+                        >
+                          {`{{${p.key}}}`}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  {field === 'title' ? (
+                    <input
+                      type="text"
+                      value={form.title}
+                      onChange={(e) => setForm({ ...form, title: e.target.value })}
+                      placeholder="{{token}} withdrawals paused on major exchanges"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    />
+                  ) : (
+                    <textarea
+                      value={form.body}
+                      onChange={(e) => setForm({ ...form, body: e.target.value })}
+                      rows={5}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    />
+                  )}
+                </div>
+              ))}
+              {unknownPlaceholders.length > 0 && (
+                <p className="text-xs text-red-600">
+                  Unknown placeholders: {unknownPlaceholders.map(name => `{{${name}}}`).join(', ')}
+                </p>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default Severity</label>
+                  <select
+                    value={form.severity}
+                    onChange={(e) => setForm({ ...form, severity: e.target.value as AlertTemplateInput['severity'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    <option value="info">Info</option>
+                    <option value="warning">Warning</option>
+                    <option value="critical">Critical</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default Tags</label>
+                  <TagInput
+                    tags={form.tags}
+                    onChange={(tags) => setForm({ ...form, tags })}
+                    placeholder="exchange, withdrawals"
+                  />
+                </div>
+              </div>
+
+              {/* Preview */}
+              {form.title && (
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+                  <div className="text-xs text-gray-500 mb-1">Preview with example values</div>
+                  <div className="font-medium text-gray-900">{fillTemplateText(form.title, EXAMPLE_VALUES)}</div>
+                  {form.body && (
+                    <div className="text-gray-700 mt-1 whitespace-pre-wrap">{fillTemplateText(form.body, EXAMPLE_VALUES)}</div>
+                  )}
+                </div>
+              )}
+
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!canSave || saveMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
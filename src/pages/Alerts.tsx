@@ -1,11 +1,33 @@
-import { useState } from 'react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { api } from '../lib/api'
-import { Bell, Search, Filter, Plus, Pencil, Trash2, AlertTriangle, Info, AlertCircle, X, Upload, Download, FileText, ArrowUpDown, ArrowUp, ArrowDown } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { useSearchParams } from 'react-router-dom'
+import { api, fetchAlert, fetchAlerts, fetchAllAlerts, fetchApprovalPolicy } from '../lib/api'
+import { BulkUploadModal } from '../components/BulkUploadModal'
+import { AlertHistoryModal } from '../components/AlertHistoryModal'
+import { AlertBulkActions } from '../components/AlertBulkActions'
+import { AlertExportMenu } from '../components/AlertExportMenu'
+import { CreateAlertModal } from '../components/CreateAlertModal'
+import { TokenPicker } from '../components/TokenPicker'
+import { TagInput } from '../components/TagInput'
+import { TemplatePicker } from '../components/TemplatePicker'
+import { AlertReachPanel } from '../components/AlertReachPanel'
+import { ApprovalNotice } from '../components/ApprovalNotice'
+import { ApprovalHistory } from '../components/ApprovalHistory'
+import { AlertProvenancePanel } from '../components/AlertProvenancePanel'
+import { MarkdownEditor } from '../components/MarkdownEditor'
+import { getAlertTokens } from '../lib/alertTokens'
+import { findLinkIssues, markdownToPlainText, sanitiseMarkdown } from '../lib/markdown'
+import { DEFAULT_APPROVAL_POLICY, getIntendedStatus, resolveSubmitStatus } from '../lib/alertApproval'
+import { ALERT_STATUSES, ALERT_STATUS_STYLES, AUTO_ARCHIVE_AFTER_DAYS, EDITABLE_ALERT_STATUSES, getAlertStatus } from '../lib/alertLifecycle'
+import { PAGE_SIZES, hasActiveFilters, parseAlertQuery, toSearchParams, type AlertQuery, type AlertSortField } from '../lib/alertQuery'
+import { toLocalInputValue } from '../lib/alertCalendar'
+import type { AlertStatus } from '../types'
+import { Bell, Search, Filter, Plus, Pencil, Trash2, AlertTriangle, Info, AlertCircle, X, Upload, ArrowUpDown, ArrowUp, ArrowDown, History, ChevronLeft, ChevronRight } from 'lucide-react'
 
 interface Alert {
   id: string
   token: string
+  tokens?: string[]
   title: string
   description: string
   severity: 'info' | 'warning' | 'critical'
@@ -14,29 +36,89 @@ interface Alert {
   further_info?: string
   source_type?: string
   source_url?: string
+  status?: AlertStatus
+  publish_at?: string | null
+  submitted_by?: string | null
 }
 
 export function Alerts() {
-  const [searchTerm, setSearchTerm] = useState('')
-  const [severityFilter, setSeverityFilter] = useState<string>('all')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc' | null>(null)
+  // Filters, sort and page live in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = parseAlertQuery(searchParams)
+  const [searchInput, setSearchInput] = useState(query.q)
+  const [tokenInput, setTokenInput] = useState(query.token)
+  const [tagInput, setTagInput] = useState(query.tag)
   const [editingAlert, setEditingAlert] = useState<Alert | null>(null)
+  // As loaded, before this edit; decides whether saving needs a fresh approval
+  const [originalAlert, setOriginalAlert] = useState<Alert | null>(null)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false)
-  const [uploadFile, setUploadFile] = useState<File | null>(null)
-  const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle')
-  const [uploadMessage, setUploadMessage] = useState('')
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
+  const [historyAlert, setHistoryAlert] = useState<Alert | null>(null)
+  // Either an explicit set of picked alerts, or every alert matching the filters minus exclusions
+  const [selectedAlerts, setSelectedAlerts] = useState<Map<string, Alert>>(new Map())
+  const [allMatchingSelected, setAllMatchingSelected] = useState(false)
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(new Set())
   const queryClient = useQueryClient()
 
-  const { data: alerts, isLoading, error } = useQuery({
-    queryKey: ['alerts'],
-    queryFn: async () => {
-      console.log('Fetching alerts from:', import.meta.env.VITE_API_URL || 'http://localhost:3000')
-      const { data } = await api.get('/api/alerts')
-      console.log('Alerts response:', data)
-      return data as Alert[]
-    },
+  const { data: alertPage, isLoading, isFetching, error } = useQuery({
+    queryKey: ['alerts', query],
+    queryFn: () => fetchAlerts<Alert>(query),
+    placeholderData: keepPreviousData,
+  })
+
+  const alerts = alertPage?.alerts || []
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
   })
+  const editSubmitStatus = editingAlert
+    ? resolveSubmitStatus({ ...editingAlert, status: editingAlert.status || 'published' }, approvalPolicy, originalAlert || undefined)
+    : undefined
+  const total = alertPage?.total || 0
+  const pageCount = Math.max(1, Math.ceil(total / query.limit))
+
+  const clearSelection = () => {
+    setSelectedAlerts(new Map())
+    setAllMatchingSelected(false)
+    setExcludedIds(new Set())
+  }
+
+  const updateQuery = (changes: Partial<AlertQuery>) => {
+    // A selection only makes sense for the filters it was made under
+    const filterKeys: Array<keyof AlertQuery> = ['q', 'token', 'severity', 'tag', 'status', 'from', 'to']
+    if (filterKeys.some(key => key in changes && changes[key] !== query[key])) {
+      clearSelection()
+    }
+    // Any filter or sort change starts again from the first page
+    setSearchParams(toSearchParams({ ...query, page: 1, ...changes }))
+  }
+
+  // Debounce the free-text filters so each keystroke doesn't hit the API or add a history entry
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchParams(prev => {
+        const current = parseAlertQuery(prev)
+        if (current.q === searchInput && current.token === tokenInput && current.tag === tagInput) return prev
+        return toSearchParams({ ...current, q: searchInput, token: tokenInput, tag: tagInput, page: 1 })
+      }, { replace: true })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput, tokenInput, tagInput, setSearchParams])
+
+  // Follow the URL when it changes without typing, e.g. back/forward navigation
+  useEffect(() => {
+    setSearchInput(query.q)
+  }, [query.q])
+
+  useEffect(() => {
+    setTokenInput(query.token)
+  }, [query.token])
+
+  useEffect(() => {
+    setTagInput(query.tag)
+  }, [query.tag])
 
   // Log any errors
   if (error) {
@@ -53,137 +135,147 @@ export function Alerts() {
   })
 
   const updateAlertMutation = useMutation({
-    mutationFn: async (alert: Alert) => {
+    mutationFn: async (alert: Alert & { body_plain?: string }) => {
       await api.put(`/api/alerts/${alert.id}`, alert)
     },
-    onSuccess: () => {
+    onSuccess: (_data, alert) => {
       queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['alert-revisions', alert.id] })
+      queryClient.invalidateQueries({ queryKey: ['alert-approvals', alert.id] })
       setIsEditModalOpen(false)
       setEditingAlert(null)
     },
   })
 
-  const bulkUploadMutation = useMutation({
-    mutationFn: async (alerts: Partial<Alert>[]) => {
-      const { data } = await api.post('/api/alerts/bulk', { alerts })
-      return data
-    },
-    onSuccess: (data) => {
-      setUploadStatus('success')
-      setUploadMessage(`Successfully imported ${data.imported} alerts`)
-      queryClient.invalidateQueries({ queryKey: ['alerts'] })
-      setTimeout(() => {
-        setIsUploadModalOpen(false)
-        setUploadStatus('idle')
-        setUploadFile(null)
-      }, 3000)
-    },
-    onError: (error: any) => {
-      setUploadStatus('error')
-      setUploadMessage(error.response?.data?.error || 'Failed to upload alerts')
-    },
-  })
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      setUploadFile(file)
-      setUploadStatus('idle')
-    }
-  }
-
-  const handleUpload = async () => {
-    if (!uploadFile) return
-
-    setUploadStatus('uploading')
-    const reader = new FileReader()
-
-    reader.onload = async (e) => {
-      try {
-        const text = e.target?.result as string
-        let alerts: Partial<Alert>[]
-
-        if (uploadFile.name.endsWith('.json')) {
-          alerts = JSON.parse(text)
-        } else if (uploadFile.name.endsWith('.csv')) {
-          // Simple CSV parser (assumes header row)
-          const lines = text.split('\n').filter(line => line.trim())
-          const headers = lines[0].split(',').map(h => h.trim())
-          alerts = lines.slice(1).map(line => {
-            const values = line.split(',').map(v => v.trim())
-            const alert: any = {}
-            headers.forEach((header, i) => {
-              alert[header] = values[i]
-            })
-            return alert
-          })
-        } else {
-          setUploadStatus('error')
-          setUploadMessage('Invalid file format. Use JSON or CSV.')
-          return
-        }
-
-        bulkUploadMutation.mutate(alerts)
-      } catch (error) {
-        setUploadStatus('error')
-        setUploadMessage('Failed to parse file')
-      }
-    }
-
-    reader.readAsText(uploadFile)
-  }
-
   const handleExportCSV = () => {
     window.open(`${import.meta.env.VITE_API_URL}/admin/export/alerts.csv`, '_blank')
   }
 
   const handleEditClick = (alert: Alert) => {
-    setEditingAlert(alert)
+    setOriginalAlert(alert)
+    // Alerts in review are edited towards the status they get once approved
+    setEditingAlert({ ...alert, tokens: getAlertTokens(alert), status: getIntendedStatus(alert) })
     setIsEditModalOpen(true)
   }
 
+  // Links from news articles open a specific alert: /alerts?alert=42
+  const linkedAlertId = searchParams.get('alert')
+  useEffect(() => {
+    if (!linkedAlertId) return
+    let cancelled = false
+    fetchAlert<Alert>(linkedAlertId)
+      .then(found => {
+        if (cancelled) return
+        setOriginalAlert(found)
+        setEditingAlert({ ...found, tokens: getAlertTokens(found), status: getIntendedStatus(found) })
+        setIsEditModalOpen(true)
+      })
+      .catch(() => {
+        if (!cancelled) alert(`Alert #${linkedAlertId} not found`)
+      })
+      // Drop the parameter so following the same link again reopens the alert
+      .finally(() => {
+        if (cancelled) return
+        setSearchParams(prev => {
+          const next = new URLSearchParams(prev)
+          next.delete('alert')
+          return next
+        }, { replace: true })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [linkedAlertId, setSearchParams])
+
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (editingAlert) {
-      updateAlertMutation.mutate(editingAlert)
+      if (!editingAlert.token) {
+        alert('Add at least one token')
+        return
+      }
+      if (!editingAlert.description?.trim()) {
+        alert('Add a description')
+        return
+      }
+      if (findLinkIssues(editingAlert.description).length > 0) {
+        alert('Fix the invalid links in the description first')
+        return
+      }
+      const description = sanitiseMarkdown(editingAlert.description)
+      updateAlertMutation.mutate({
+        ...editingAlert,
+        description,
+        body_plain: markdownToPlainText(description),
+        status: editSubmitStatus,
+        // Only scheduled alerts carry a publish time
+        publish_at: editingAlert.status === 'scheduled' ? editingAlert.publish_at : null,
+      })
     }
   }
 
-  const filteredAlerts = alerts?.filter((alert) => {
-    const matchesSearch = 
-      alert.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      alert.token.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      alert.description.toLowerCase().includes(searchTerm.toLowerCase())
-    
-    const matchesSeverity = severityFilter === 'all' || alert.severity === severityFilter
-    
-    return matchesSearch && matchesSeverity
-  })
+  const statusCounts = alertPage?.counts.byStatus
+  const severityCounts = alertPage?.counts.bySeverity
+  const allStatusCount = statusCounts ? ALERT_STATUSES.reduce((sum, status) => sum + (statusCounts[status] || 0), 0) : 0
 
-  // Sort alerts by deadline if sort order is set
-  const sortedAlerts = filteredAlerts ? [...filteredAlerts].sort((a, b) => {
-    if (!sortOrder) return 0
-    
-    const dateA = a.deadline ? new Date(a.deadline).getTime() : 0
-    const dateB = b.deadline ? new Date(b.deadline).getTime() : 0
-    
-    if (sortOrder === 'asc') {
-      return dateA - dateB
+  const handleSort = (field: AlertSortField) => {
+    if (query.sort === field) {
+      updateQuery({ order: query.order === 'desc' ? 'asc' : 'desc' })
     } else {
-      return dateB - dateA
+      updateQuery({ sort: field, order: 'desc' })
     }
-  }) : filteredAlerts
+  }
 
-  const handleSortToggle = () => {
-    if (sortOrder === null) {
-      setSortOrder('desc') // First click: newest first
-    } else if (sortOrder === 'desc') {
-      setSortOrder('asc') // Second click: oldest first
-    } else {
-      setSortOrder(null) // Third click: reset to default
+  const handleClearFilters = () => {
+    setSearchInput('')
+    setTokenInput('')
+    setTagInput('')
+    clearSelection()
+    setSearchParams(toSearchParams({ ...query, q: '', token: '', severity: '', tag: '', status: '', from: '', to: '', page: 1 }))
+  }
+
+  const isSelected = (alert: Alert) =>
+    allMatchingSelected ? !excludedIds.has(alert.id) : selectedAlerts.has(alert.id)
+
+  const selectedCount = allMatchingSelected ? total - excludedIds.size : selectedAlerts.size
+  const pageSelected = alerts.length > 0 && alerts.every(isSelected)
+
+  const setAlertsSelected = (targets: Alert[], selected: boolean) => {
+    if (allMatchingSelected) {
+      const next = new Set(excludedIds)
+      targets.forEach(alert => selected ? next.delete(alert.id) : next.add(alert.id))
+      setExcludedIds(next)
+      return
     }
+    const next = new Map(selectedAlerts)
+    targets.forEach(alert => selected ? next.set(alert.id, alert) : next.delete(alert.id))
+    setSelectedAlerts(next)
   }
 
+  const selectAllMatching = () => {
+    setAllMatchingSelected(true)
+    setExcludedIds(new Set())
+    setSelectedAlerts(new Map())
+  }
+
+  const resolveSelection = async () => {
+    if (!allMatchingSelected) return Array.from(selectedAlerts.values())
+    const matching = await fetchAllAlerts<Alert>({ ...query, page: 1 })
+    return matching.filter(alert => !excludedIds.has(alert.id))
+  }
+
+  const renderSortHeader = (field: AlertSortField, label: string) => (
+    <button
+      onClick={() => handleSort(field)}
+      className="flex items-center gap-1 uppercase hover:text-gray-700 transition"
+    >
+      {label}
+      {query.sort === field && query.order === 'asc' && <ArrowUp className="w-4 h-4" />}
+      {query.sort === field && query.order === 'desc' && <ArrowDown className="w-4 h-4" />}
+      {query.sort !== field && <ArrowUpDown className="w-4 h-4 opacity-50" />}
+    </button>
+  )
+
   const getSeverityIcon = (severity: string) => {
     switch (severity) {
       case 'critical':
@@ -224,15 +316,9 @@ export function Alerts() {
             <Upload className="w-5 h-5" />
             Bulk Upload
           </button>
+          <AlertExportMenu query={query} />
           <button
-            onClick={handleExportCSV}
-            className="flex items-center gap-2 bg-white hover:bg-gray-50 text-gray-700 px-4 py-2 rounded-lg border border-gray-300 transition"
-          >
-            <Download className="w-5 h-5" />
-            Export CSV
-          </button>
-          <button
-            onClick={() => alert('Create alert functionality coming soon!')}
+            onClick={() => setIsCreateModalOpen(true)}
             className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
           >
             <Plus className="w-5 h-5" />
@@ -241,6 +327,28 @@ export function Alerts() {
         </div>
       </div>
 
+      {/* Status Tabs */}
+      <div className="border-b border-gray-200">
+        <nav className="flex gap-6 -mb-px">
+          {(['all', ...ALERT_STATUSES] as const).map(status => (
+            <button
+              key={status}
+              onClick={() => updateQuery({ status: status === 'all' ? '' : status })}
+              className={`pb-3 text-sm font-medium border-b-2 transition ${
+                (query.status || 'all') === status
+                  ? 'border-primary-600 text-primary-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {status === 'all' ? 'All' : ALERT_STATUS_STYLES[status].label}
+              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                {status === 'all' ? allStatusCount : statusCounts?.[status] || 0}
+              </span>
+            </button>
+          ))}
+        </nav>
+      </div>
+
       {/* Filters */}
       <div className="bg-white rounded-lg border border-gray-200 p-4">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -250,8 +358,11 @@ export function Alerts() {
             <input
               type="text"
               placeholder="Search alerts by title, token, or description..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
+              value={searchInput}
+              onChange={(e) => {
+                setSearchInput(e.target.value)
+                clearSelection()
+              }}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
             />
           </div>
@@ -260,11 +371,11 @@ export function Alerts() {
           <div className="relative">
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <select
-              value={severityFilter}
-              onChange={(e) => setSeverityFilter(e.target.value)}
+              value={query.severity}
+              onChange={(e) => updateQuery({ severity: e.target.value as AlertQuery['severity'] })}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none appearance-none"
             >
-              <option value="all">All Severities</option>
+              <option value="">All Severities</option>
               <option value="critical">Critical</option>
               <option value="warning">Warning</option>
               <option value="info">Info</option>
@@ -272,15 +383,71 @@ export function Alerts() {
           </div>
         </div>
 
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+          <input
+            type="text"
+            placeholder="Token (e.g. ETH)"
+            value={tokenInput}
+            onChange={(e) => {
+              setTokenInput(e.target.value.toUpperCase())
+              clearSelection()
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <input
+            type="text"
+            placeholder="Tag (e.g. hack)"
+            value={tagInput}
+            onChange={(e) => {
+              setTagInput(e.target.value)
+              clearSelection()
+            }}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <input
+            type="date"
+            title="Deadline from"
+            value={query.from}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <input
+            type="date"
+            title="Deadline to"
+            value={query.to}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+        </div>
+
         {/* Stats */}
         <div className="mt-4 flex items-center gap-6 text-sm text-gray-600">
-          <span>Total: {alerts?.length || 0}</span>
-          <span>Critical: {alerts?.filter(a => a.severity === 'critical').length || 0}</span>
-          <span>Warning: {alerts?.filter(a => a.severity === 'warning').length || 0}</span>
-          <span>Info: {alerts?.filter(a => a.severity === 'info').length || 0}</span>
+          <span>Matching: {total}</span>
+          <span>Critical: {severityCounts?.critical || 0}</span>
+          <span>Warning: {severityCounts?.warning || 0}</span>
+          <span>Info: {severityCounts?.info || 0}</span>
+          {isFetching && !isLoading && <span className="text-gray-400">Updating...</span>}
+          {hasActiveFilters(query) && (
+            <button
+              onClick={handleClearFilters}
+              className="ml-auto flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedCount > 0 && (
+        <AlertBulkActions
+          selectedCount={selectedCount}
+          resolveSelection={resolveSelection}
+          onClear={clearSelection}
+        />
+      )}
+
       {/* Alerts Table */}
       <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
         {error ? (
@@ -300,33 +467,54 @@ export function Alerts() {
               API: {import.meta.env.VITE_API_URL || 'http://localhost:3000'}
             </div>
           </div>
-        ) : sortedAlerts && sortedAlerts.length > 0 ? (
+        ) : alerts.length > 0 ? (
           <div className="overflow-x-auto">
+            {pageSelected && total > alerts.length && (
+              <div className="px-6 py-2 bg-primary-50 border-b border-primary-100 text-sm text-primary-900 text-center">
+                {allMatchingSelected ? (
+                  <>
+                    All {selectedCount} matching alerts are selected.{' '}
+                    <button onClick={clearSelection} className="font-medium underline">Clear selection</button>
+                  </>
+                ) : (
+                  <>
+                    All {alerts.length} alerts on this page are selected.{' '}
+                    <button onClick={selectAllMatching} className="font-medium underline">
+                      Select all {total} matching alerts
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
             <table className="w-full">
               <thead className="bg-gray-50 border-b border-gray-200">
                 <tr>
+                  <th className="pl-6 py-3 w-10">
+                    <input
+                      type="checkbox"
+                      checked={pageSelected}
+                      onChange={() => setAlertsSelected(alerts, !pageSelected)}
+                      className="rounded border-gray-300"
+                      title="Select all on this page"
+                    />
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {renderSortHeader('severity', 'Severity')}
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Severity
+                    {renderSortHeader('status', 'Status')}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Token
+                    {renderSortHeader('token', 'Token')}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    Title
+                    {renderSortHeader('title', 'Title')}
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Description
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                    <button
-                      onClick={handleSortToggle}
-                      className="flex items-center gap-1 hover:text-gray-700 transition"
-                    >
-                      Created
-                      {sortOrder === 'asc' && <ArrowUp className="w-4 h-4" />}
-                      {sortOrder === 'desc' && <ArrowDown className="w-4 h-4" />}
-                      {sortOrder === null && <ArrowUpDown className="w-4 h-4 opacity-50" />}
-                    </button>
+                    {renderSortHeader('deadline', 'Deadline')}
                   </th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
@@ -334,8 +522,16 @@ export function Alerts() {
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200">
-                {sortedAlerts.map((alert) => (
-                  <tr key={alert.id} className="hover:bg-gray-50">
+                {alerts.map((alert) => (
+                  <tr key={alert.id} className={isSelected(alert) ? 'bg-primary-50' : 'hover:bg-gray-50'}>
+                    <td className="pl-6 py-4 w-10">
+                      <input
+                        type="checkbox"
+                        checked={isSelected(alert)}
+                        onChange={() => setAlertsSelected([alert], !isSelected(alert))}
+                        className="rounded border-gray-300"
+                      />
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center gap-2">
                         {getSeverityIcon(alert.severity)}
@@ -344,15 +540,40 @@ export function Alerts() {
                         </span>
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${ALERT_STATUS_STYLES[getAlertStatus(alert)].badge}`}>
+                        {ALERT_STATUS_STYLES[getAlertStatus(alert)].label}
+                      </span>
+                      {getAlertStatus(alert) === 'scheduled' && alert.publish_at && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {new Date(alert.publish_at).toLocaleString('en-GB', {
+                            day: '2-digit',
+                            month: '2-digit',
+                            year: 'numeric',
+                            hour: '2-digit',
+                            minute: '2-digit',
+                          })}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="text-sm font-medium text-gray-900">{alert.token}</div>
+                      {getAlertTokens(alert).length > 1 && (
+                        <div className="flex flex-wrap gap-1 mt-1 max-w-[10rem]">
+                          {getAlertTokens(alert).slice(1).map(token => (
+                            <span key={token} className="px-1.5 py-0.5 bg-primary-100 text-primary-700 text-xs font-medium rounded">
+                              {token}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm font-medium text-gray-900 max-w-xs">{alert.title}</div>
                     </td>
                     <td className="px-6 py-4">
                       <div className="text-sm text-gray-600 max-w-md line-clamp-2">
-                        {alert.description}
+                        {markdownToPlainText(alert.description || '')}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
@@ -370,6 +591,13 @@ export function Alerts() {
                         >
                           <Pencil className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setHistoryAlert(alert)}
+                          className="text-gray-500 hover:text-gray-800"
+                          title="Revision history"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => {
                             if (confirm('Are you sure you want to delete this alert?')) {
@@ -386,10 +614,45 @@ export function Alerts() {
                 ))}
               </tbody>
             </table>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between px-6 py-3 border-t border-gray-200 text-sm text-gray-600">
+              <div className="flex items-center gap-2">
+                <span>
+                  Showing {(query.page - 1) * query.limit + 1}–{Math.min(query.page * query.limit, total)} of {total}
+                </span>
+                <select
+                  value={query.limit}
+                  onChange={(e) => updateQuery({ limit: Number(e.target.value) })}
+                  className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                >
+                  {PAGE_SIZES.map(size => (
+                    <option key={size} value={size}>{size} per page</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setSearchParams(toSearchParams({ ...query, page: query.page - 1 }))}
+                  disabled={query.page <= 1}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronLeft className="w-5 h-5" />
+                </button>
+                <span>Page {query.page} of {pageCount}</span>
+                <button
+                  onClick={() => setSearchParams(toSearchParams({ ...query, page: query.page + 1 }))}
+                  disabled={query.page >= pageCount}
+                  className="p-1 rounded hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <ChevronRight className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
           </div>
         ) : (
           <div className="p-8 text-center text-gray-500">
-            {searchTerm || severityFilter !== 'all' 
+            {hasActiveFilters(query)
               ? 'No alerts match your filters' 
               : 'No alerts found. Create your first alert to get started.'}
           </div>
@@ -414,19 +677,25 @@ export function Alerts() {
             </div>
 
             <form onSubmit={handleEditSubmit} className="p-6 space-y-4">
+              <TemplatePicker
+                defaults={{ token: editingAlert.token, date: toLocalInputValue(editingAlert.deadline).slice(0, 10), url: editingAlert.source_url }}
+                onApply={({ title, body, severity, tags }) => setEditingAlert({ ...editingAlert, title, description: body, severity, tags })}
+              />
+
               {/* Token */}
               <div>
                 <label htmlFor="token" className="block text-sm font-medium text-gray-700 mb-1">
-                  Token Symbol
+                  Tokens
                 </label>
-                <input
+                <TokenPicker
                   id="token"
-                  type="text"
-                  value={editingAlert.token}
-                  onChange={(e) => setEditingAlert({ ...editingAlert, token: e.target.value.toUpperCase() })}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
-                  required
+                  tokens={editingAlert.tokens || []}
+                  primary={editingAlert.token}
+                  onChange={(tokens, primary) => setEditingAlert({ ...editingAlert, tokens, token: primary })}
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  Starred token is the primary token
+                </p>
               </div>
 
               {/* Title */}
@@ -449,13 +718,11 @@ export function Alerts() {
                 <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
                   Description
                 </label>
-                <textarea
+                <MarkdownEditor
                   id="description"
-                  value={editingAlert.description}
-                  onChange={(e) => setEditingAlert({ ...editingAlert, description: e.target.value })}
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none resize-none"
-                  required
+                  value={editingAlert.description || ''}
+                  onChange={(description) => setEditingAlert({ ...editingAlert, description })}
+                  rows={6}
                 />
               </div>
 
@@ -477,6 +744,18 @@ export function Alerts() {
                 </select>
               </div>
 
+              {/* Tags */}
+              <div>
+                <label htmlFor="tags" className="block text-sm font-medium text-gray-700 mb-1">
+                  Tags
+                </label>
+                <TagInput
+                  id="tags"
+                  tags={editingAlert.tags || []}
+                  onChange={(tags) => setEditingAlert({ ...editingAlert, tags })}
+                />
+              </div>
+
               {/* Deadline */}
               <div>
                 <label htmlFor="deadline" className="block text-sm font-medium text-gray-700 mb-1">
@@ -485,13 +764,50 @@ export function Alerts() {
                 <input
                   id="deadline"
                   type="datetime-local"
-                  value={editingAlert.deadline ? new Date(editingAlert.deadline).toISOString().slice(0, 16) : ''}
+                  value={toLocalInputValue(editingAlert.deadline)}
                   onChange={(e) => setEditingAlert({ ...editingAlert, deadline: new Date(e.target.value).toISOString() })}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
                   required
                 />
               </div>
 
+              {/* Status */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-1">
+                    Status
+                  </label>
+                  <select
+                    id="status"
+                    value={editingAlert.status || 'published'}
+                    onChange={(e) => setEditingAlert({ ...editingAlert, status: e.target.value as AlertStatus })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    {EDITABLE_ALERT_STATUSES.map(status => (
+                      <option key={status} value={status}>{ALERT_STATUS_STYLES[status].label}</option>
+                    ))}
+                  </select>
+                </div>
+                {editingAlert.status === 'scheduled' && (
+                  <div>
+                    <label htmlFor="publish_at" className="block text-sm font-medium text-gray-700 mb-1">
+                      Publish At
+                    </label>
+                    <input
+                      id="publish_at"
+                      type="datetime-local"
+                      value={toLocalInputValue(editingAlert.publish_at)}
+                      onChange={(e) => setEditingAlert({ ...editingAlert, publish_at: e.target.value ? new Date(e.target.value).toISOString() : null })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      required
+                    />
+                  </div>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 -mt-2">
+                Alerts expire when their deadline passes and are archived automatically {AUTO_ARCHIVE_AFTER_DAYS} days later.
+              </p>
+
               {/* Further Info */}
               <div>
                 <label htmlFor="further_info" className="block text-sm font-medium text-gray-700 mb-1">
@@ -542,6 +858,24 @@ export function Alerts() {
                 />
               </div>
 
+              <AlertReachPanel
+                tokens={getAlertTokens(editingAlert)}
+                title={editingAlert.title}
+                body={editingAlert.description || ''}
+                severity={editingAlert.severity}
+              />
+
+              <AlertProvenancePanel alertId={editingAlert.id} token={editingAlert.token} />
+
+              {/* Review */}
+              {(originalAlert?.status === 'pending_approval' || originalAlert?.status === 'changes_requested') && (
+                <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+                  <div className="text-sm font-medium text-gray-900 mb-2">Review History</div>
+                  <ApprovalHistory alertId={editingAlert.id} />
+                </div>
+              )}
+              {editSubmitStatus === 'pending_approval' && <ApprovalNotice severity={editingAlert.severity} />}
+
               {/* Actions */}
               <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200">
                 <button
@@ -559,7 +893,7 @@ export function Alerts() {
                   disabled={updateAlertMutation.isPending}
                   className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
                 >
-                  {updateAlertMutation.isPending ? 'Saving...' : 'Save Changes'}
+                  {updateAlertMutation.isPending ? 'Saving...' : editSubmitStatus === 'pending_approval' ? 'Submit for Approval' : 'Save Changes'}
                 </button>
               </div>
             </form>
@@ -567,125 +901,25 @@ export function Alerts() {
         </div>
       )}
 
+      {/* Revision History Modal */}
+      {historyAlert && (
+        <AlertHistoryModal
+          alertId={historyAlert.id}
+          alertTitle={historyAlert.title}
+          onClose={() => setHistoryAlert(null)}
+        />
+      )}
+
       {/* Bulk Upload Modal */}
       {isUploadModalOpen && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
-          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full">
-            <div className="bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
-              <h2 className="text-xl font-semibold text-gray-900">Bulk Upload Alerts</h2>
-              <button
-                onClick={() => {
-                  setIsUploadModalOpen(false)
-                  setUploadFile(null)
-                  setUploadStatus('idle')
-                }}
-                className="text-gray-400 hover:text-gray-600"
-              >
-                <X className="w-6 h-6" />
-              </button>
-            </div>
-
-            <div className="p-6 space-y-6">
-              {/* Instructions */}
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                <div className="flex gap-3">
-                  <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
-                  <div className="text-sm text-blue-900">
-                    <p className="font-medium mb-2">Upload Format Requirements:</p>
-                    <ul className="list-disc list-inside space-y-1 text-blue-800">
-                      <li><strong>JSON:</strong> Array of alert objects with fields: token, title, description, severity, deadline</li>
-                      <li><strong>CSV:</strong> Header row with columns: token, title, description, severity, deadline</li>
-                      <li><strong>Severity:</strong> Must be one of: info, warning, critical</li>
-                      <li><strong>Deadline:</strong> ISO 8601 date format (YYYY-MM-DDTHH:mm:ss.sssZ)</li>
-                    </ul>
-                  </div>
-                </div>
-              </div>
-
-              {/* Sample Download */}
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Download Sample Template
-                </label>
-                <button
-                  onClick={handleExportCSV}
-                  className="flex items-center gap-2 text-primary-600 hover:text-primary-700 font-medium"
-                >
-                  <Download className="w-4 h-4" />
-                  Download current alerts as CSV template
-                </button>
-              </div>
-
-              {/* File Upload */}
-              <div>
-                <label htmlFor="file-upload" className="block text-sm font-medium text-gray-700 mb-2">
-                  Select File
-                </label>
-                <div className="flex items-center gap-4">
-                  <label
-                    htmlFor="file-upload"
-                    className="flex-1 flex items-center justify-center gap-2 px-4 py-8 border-2 border-dashed border-gray-300 rounded-lg hover:border-primary-500 cursor-pointer transition"
-                  >
-                    <FileText className="w-8 h-8 text-gray-400" />
-                    <div className="text-center">
-                      <span className="text-gray-600">
-                        {uploadFile ? uploadFile.name : 'Choose a JSON or CSV file'}
-                      </span>
-                      <p className="text-xs text-gray-500 mt-1">
-                        or drag and drop
-                      </p>
-                    </div>
-                    <input
-                      id="file-upload"
-                      type="file"
-                      accept=".json,.csv"
-                      onChange={handleFileChange}
-                      className="sr-only"
-                    />
-                  </label>
-                </div>
-              </div>
-
-              {/* Status Message */}
-              {uploadStatus !== 'idle' && (
-                <div className={`p-4 rounded-lg flex items-center gap-3 ${
-                  uploadStatus === 'success' ? 'bg-green-50 text-green-800' :
-                  uploadStatus === 'error' ? 'bg-red-50 text-red-800' :
-                  'bg-blue-50 text-blue-800'
-                }`}>
-                  {uploadStatus === 'success' && <Info className="w-5 h-5" />}
-                  {uploadStatus === 'error' && <AlertCircle className="w-5 h-5" />}
-                  {uploadStatus === 'uploading' && (
-                    <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
-                  )}
-                  <span className="font-medium">{uploadMessage || 'Processing...'}</span>
-                </div>
-              )}
+        <BulkUploadModal
+          onClose={() => setIsUploadModalOpen(false)}
+          onDownloadTemplate={handleExportCSV}
+        />
+      )}
 
-              {/* Actions */}
-              <div className="flex items-center justify-end gap-3 pt-4 border-t border-gray-200">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setIsUploadModalOpen(false)
-                    setUploadFile(null)
-                    setUploadStatus('idle')
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-lg transition"
-                >
-                  Cancel
-                </button>
-                <button
-                  onClick={handleUpload}
-                  disabled={!uploadFile || uploadStatus === 'uploading'}
-                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {uploadStatus === 'uploading' ? 'Uploading...' : 'Upload Alerts'}
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
+      {isCreateModalOpen && (
+        <CreateAlertModal onClose={() => setIsCreateModalOpen(false)} />
       )}
     </div>
   )
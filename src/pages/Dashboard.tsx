@@ -1,6 +1,9 @@
 import { useQuery } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
 import { api } from '../lib/api'
-import { fetchNewsStats } from '../lib/api'
+import { fetchNewsStats, fetchAdminStats, fetchNewsSources, fetchTickerRegistry } from '../lib/api'
+import { mergeTokenCounts } from '../lib/tickerRegistry'
+import { EXPIRING_SOON_DAYS } from '../lib/newsRetention'
 import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip } from 'recharts'
 import { Users, Bell, AlertTriangle, Database, HardDrive, Server, Activity, Newspaper } from 'lucide-react'
 
@@ -13,12 +16,10 @@ export function Dashboard() {
     },
   })
 
-  const { data: alerts } = useQuery({
-    queryKey: ['alerts'],
-    queryFn: async () => {
-      const { data } = await api.get('/api/alerts')
-      return data
-    },
+  // Severity counts come pre-aggregated instead of downloading every alert
+  const { data: adminStats } = useQuery({
+    queryKey: ['admin-stats'],
+    queryFn: fetchAdminStats,
   })
 
   const { data: newsStats } = useQuery({
@@ -26,6 +27,19 @@ export function Dashboard() {
     queryFn: fetchNewsStats,
   })
 
+  const { data: newsSources = [] } = useQuery({
+    queryKey: ['news-sources'],
+    queryFn: fetchNewsSources,
+  })
+  const enabledSources = newsSources.filter(source => source.enabled)
+
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+  const newsTokens = mergeTokenCounts(newsStats?.byToken || [], tickerRegistry?.tickers || [])
+  const unknownTickers = tickerRegistry?.unknown.length || 0
+
   const stats = [
     {
       name: 'Total Alerts',
@@ -43,7 +57,7 @@ export function Dashboard() {
     },
     {
       name: 'Critical Alerts',
-      value: alerts?.filter((a: any) => a.severity === 'critical').length || 0,
+      value: adminStats?.alerts.critical || 0,
       icon: AlertTriangle,
       color: 'text-red-600',
       bgColor: 'bg-red-50',
@@ -58,9 +72,9 @@ export function Dashboard() {
   ]
 
   const severityData = [
-    { name: 'Critical', value: alerts?.filter((a: any) => a.severity === 'critical').length || 0, color: '#ef4444' },
-    { name: 'Warning', value: alerts?.filter((a: any) => a.severity === 'warning').length || 0, color: '#f59e0b' },
-    { name: 'Info', value: alerts?.filter((a: any) => a.severity === 'info').length || 0, color: '#10b981' },
+    { name: 'Critical', value: adminStats?.alerts.critical || 0, color: '#ef4444' },
+    { name: 'Warning', value: adminStats?.alerts.warning || 0, color: '#f59e0b' },
+    { name: 'Info', value: adminStats?.alerts.info || 0, color: '#10b981' },
   ]
 
   return (
@@ -133,8 +147,10 @@ export function Dashboard() {
               <span className="font-medium">USD</span>
             </div>
             <div className="flex justify-between py-2">
-              <span className="text-gray-600">News Source</span>
-              <span className="font-medium">CoinDesk RSS</span>
+              <span className="text-gray-600">News Sources</span>
+              <Link to="/news/sources" className="font-medium text-right hover:text-primary-600">
+                {enabledSources.length > 0 ? enabledSources.map(source => source.name).join(', ') : 'None enabled'}
+              </Link>
             </div>
           </div>
         </div>
@@ -149,7 +165,7 @@ export function Dashboard() {
             </div>
             <div>
               <h2 className="text-lg font-semibold text-gray-900">News Cache Statistics</h2>
-              <p className="text-sm text-gray-500">Articles cached from CoinDesk</p>
+              <p className="text-sm text-gray-500">Articles cached from {enabledSources.length} enabled {enabledSources.length === 1 ? 'source' : 'sources'}</p>
             </div>
           </div>
         </div>
@@ -159,8 +175,13 @@ export function Dashboard() {
             <p className="text-2xl font-bold text-gray-900">{newsStats?.totalCached || 0}</p>
           </div>
           <div>
-            <p className="text-sm text-gray-600 mb-1">Expiring Soon (7d)</p>
+            <p className="text-sm text-gray-600 mb-1">Expiring Soon ({EXPIRING_SOON_DAYS}d)</p>
             <p className="text-2xl font-bold text-orange-600">{newsStats?.expiringSoon || 0}</p>
+            {(newsStats?.expiringSoon || 0) > 0 && (
+              <Link to="/news?retention=expiring&status=all" className="text-xs text-orange-700 hover:text-orange-900">
+                Review, pin or extend
+              </Link>
+            )}
           </div>
           <div>
             <p className="text-sm text-gray-600 mb-1">Average Age</p>
@@ -170,14 +191,19 @@ export function Dashboard() {
           </div>
           <div>
             <p className="text-sm text-gray-600 mb-1">Unique Tokens</p>
-            <p className="text-2xl font-bold text-gray-900">{newsStats?.byToken?.length || 0}</p>
+            <p className="text-2xl font-bold text-gray-900">{newsTokens.length}</p>
+            {unknownTickers > 0 && (
+              <Link to="/tickers" className="text-xs text-amber-700 hover:text-amber-900">
+                {unknownTickers} unknown to review
+              </Link>
+            )}
           </div>
         </div>
-        {newsStats?.byToken && newsStats.byToken.length > 0 && (
+        {newsTokens.length > 0 && (
           <div className="mt-6 pt-6 border-t border-gray-200">
             <p className="text-sm font-medium text-gray-700 mb-3">Top Tokens in News</p>
             <div className="flex flex-wrap gap-2">
-              {newsStats.byToken.slice(0, 10).map((item) => (
+              {newsTokens.slice(0, 10).map((item) => (
                 <span
                   key={item.token}
                   className="px-3 py-1 bg-primary-100 text-primary-700 text-sm font-medium rounded-full"
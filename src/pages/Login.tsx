@@ -5,6 +5,7 @@ import { LogIn } from 'lucide-react'
 
 export function Login() {
   const [token, setToken] = useState('')
+  const [adminName, setAdminName] = useState('')
   const [error, setError] = useState('')
   const { login } = useAuthStore()
   const navigate = useNavigate()
@@ -12,13 +13,18 @@ export function Login() {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     
+    if (!adminName.trim()) {
+      setError('Please enter your name')
+      return
+    }
+
     if (!token.trim()) {
       setError('Please enter an admin token')
       return
     }
 
     // Store the token and redirect to dashboard
-    login(token)
+    login(token, adminName.trim())
     navigate('/')
   }
 
@@ -33,6 +39,26 @@ export function Login() {
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label 
+              htmlFor="admin-name" 
+              className="block text-sm font-medium text-gray-700 mb-2"
+            >
+              Your Name
+            </label>
+            <input
+              id="admin-name"
+              type="text"
+              value={adminName}
+              onChange={(e) => {
+                setAdminName(e.target.value)
+                setError('')
+              }}
+              placeholder="Shown on alert edit history"
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none transition"
+            />
+          </div>
+
           <div>
             <label 
               htmlFor="token" 
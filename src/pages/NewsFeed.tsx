@@ -1,17 +1,48 @@
-import { useState } from 'react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { Newspaper, RefreshCw, Trash2, Edit2, Search, Filter, X, Save, Bell, CheckCircle2, Sparkles } from 'lucide-react'
-import { fetchNewsCache, fetchNewsStats, updateNewsArticle, deleteNewsArticle, refreshNewsCache, createAlert } from '../lib/api'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { Link, useSearchParams } from 'react-router-dom'
+import { Newspaper, RefreshCw, Trash2, Edit2, Search, Filter, X, Save, Bell, Sparkles, Rss, ChevronDown, ChevronRight, Check, EyeOff, RotateCcw, Keyboard, Pin, PinOff } from 'lucide-react'
+import { fetchNewsPage, fetchNewsStats, fetchTickerRegistry, fetchWatchRules, bulkNewsAction, updateNewsArticle, deleteNewsArticle, refreshNewsCache, createAlert, findDuplicateAlerts, fetchApprovalPolicy } from '../lib/api'
+import { DEFAULT_APPROVAL_POLICY, resolveSubmitStatus } from '../lib/alertApproval'
 import { generateAlertFromNews, isAIEnabled } from '../lib/aiAlertGenerator'
-import type { NewsArticle } from '../types'
+import { withPrimaryToken } from '../lib/alertTokens'
+import { canonicaliseTickers, mergeTokenCounts } from '../lib/tickerRegistry'
+import { uniqueTags } from '../lib/tagTaxonomy'
+import { clusterArticles, clusterAsArticle } from '../lib/newsClusters'
+import { DEFAULT_NEWS_QUERY, NEWS_PAGE_SIZE, hasActiveNewsFilters, parseNewsQuery, toNewsSearchParams, type NewsQuery } from '../lib/newsQuery'
+import { NEWS_SHORTCUTS, TRIAGE_STATUSES, getStoryTriageStatus, getTriageLabel, getTriageStatus, isTypingTarget } from '../lib/newsTriage'
+import { EXPIRING_SOON_DAYS, describeRetention, getArticleRetention, getExpiryLockReason, isExpiringSoon } from '../lib/newsRetention'
+import { findLinkIssues, markdownToPlainText, sanitiseMarkdown } from '../lib/markdown'
+import { TokenPicker } from '../components/TokenPicker'
+import { TagInput } from '../components/TagInput'
+import { TemplatePicker } from '../components/TemplatePicker'
+import { DuplicateAlertsPanel } from '../components/DuplicateAlertsPanel'
+import { AlertReachPanel } from '../components/AlertReachPanel'
+import { ApprovalNotice } from '../components/ApprovalNotice'
+import { MarkdownEditor } from '../components/MarkdownEditor'
+import { LinkedAlerts } from '../components/LinkedAlerts'
+import { ArticleFlags } from '../components/ArticleFlags'
+import { NewsBulkActions } from '../components/NewsBulkActions'
+import type { DuplicateCandidate } from '../lib/alertDuplicates'
+import type { NewsArticle, NewsTriageStatus } from '../types'
 
 export function NewsFeed() {
   const queryClient = useQueryClient()
-  const [selectedToken, setSelectedToken] = useState<string>('')
-  const [searchQuery, setSearchQuery] = useState('')
+  // Filters live in the URL so filtered views can be bookmarked and shared
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = parseNewsQuery(searchParams)
+  const [searchInput, setSearchInput] = useState(query.q)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
   const [editingArticle, setEditingArticle] = useState<NewsArticle | null>(null)
   const [creatingAlert, setCreatingAlert] = useState<NewsArticle | null>(null)
+  // Every article the new alert is based on; more than one when created from a story
+  const [creatingSources, setCreatingSources] = useState<NewsArticle[]>([])
+  const [expandedStories, setExpandedStories] = useState<Set<string>>(new Set())
+  const [selectedArticles, setSelectedArticles] = useState<Map<string, NewsArticle>>(new Map())
   const [viewingArticle, setViewingArticle] = useState<NewsArticle | null>(null)
+  // Story the keyboard shortcuts act on; -1 until the admin presses j or k
+  const [focusedIndex, setFocusedIndex] = useState(-1)
+  const [showShortcuts, setShowShortcuts] = useState(false)
   const [isGeneratingAI, setIsGeneratingAI] = useState(false)
   const [aiReasoning, setAiReasoning] = useState<string>('')
   const [editForm, setEditForm] = useState({
@@ -19,35 +50,162 @@ export function NewsFeed() {
     text: '',
     sentiment: '' as 'positive' | 'neutral' | 'negative' | '',
     tickers: [] as string[],
+    pinned: false,
+    expiresOn: '',              // YYYY-MM-DD
   })
+  const [alertDuplicates, setAlertDuplicates] = useState<DuplicateCandidate[] | null>(null)
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false)
   const [alertForm, setAlertForm] = useState({
     token: '',
+    tokens: [] as string[],
     title: '',
     body: '',
     severity: 'info' as 'critical' | 'warning' | 'info',
     tags: [] as string[],
     deadline: '',
     source_url: '',
+    status: 'published' as 'draft' | 'scheduled' | 'published',
+    publish_at: '',
   })
 
-  // Fetch news articles
-  const { data: articles = [], isLoading } = useQuery({
-    queryKey: ['news-cache', selectedToken],
-    queryFn: () => fetchNewsCache({ token: selectedToken || undefined, days: 120 }),
+  // Fetch news articles a page at a time; filtering happens on the server
+  const {
+    data: newsPages,
+    isLoading,
+    isFetching,
+    isFetchingNextPage,
+    hasNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['news-cache', 'feed', query],
+    queryFn: ({ pageParam }) => fetchNewsPage({ ...query, page: pageParam, limit: NEWS_PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (last) => (last.page * last.limit < last.total ? last.page + 1 : undefined),
+    placeholderData: keepPreviousData,
   })
 
+  const articles = useMemo(() => newsPages?.pages.flatMap(page => page.articles) || [], [newsPages])
+  // Totals come from the first page and cover every matching article, not just those loaded
+  const total = newsPages?.pages[0]?.total || 0
+  const counts = newsPages?.pages[0]?.counts
+
+  const clearSelection = () => {
+    setSelectedArticles(new Map())
+  }
+
+  const updateQuery = (changes: Partial<NewsQuery>) => {
+    // A selection only makes sense for the filters it was made under
+    clearSelection()
+    setFocusedIndex(-1)
+    setSearchParams(toNewsSearchParams({ ...query, ...changes }))
+  }
+
+  const isSelected = (article: NewsArticle) => selectedArticles.has(article.article_url)
+
+  // Select the articles, or deselect them when every one is already selected
+  const toggleSelected = (group: NewsArticle[]) => {
+    const next = new Map(selectedArticles)
+    if (group.every(isSelected)) {
+      group.forEach(article => next.delete(article.article_url))
+    } else {
+      group.forEach(article => next.set(article.article_url, article))
+    }
+    setSelectedArticles(next)
+  }
+
+  // Debounce free-text search so each keystroke doesn't hit the API
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchParams(prev => {
+        const current = parseNewsQuery(prev)
+        if (current.q === searchInput) return prev
+        return toNewsSearchParams({ ...current, q: searchInput })
+      }, { replace: true })
+    }, 300)
+    return () => clearTimeout(timer)
+  }, [searchInput, setSearchParams])
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const node = loadMoreRef.current
+    if (!node || !hasNextPage || isFetchingNextPage) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) fetchNextPage()
+    }, { rootMargin: '400px' })
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
+
   // Fetch news stats
   const { data: stats } = useQuery({
     queryKey: ['news-stats'],
     queryFn: fetchNewsStats,
   })
 
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+  const tickerDefinitions = tickerRegistry?.tickers || []
+
+  const { data: watchRules = [] } = useQuery({
+    queryKey: ['watch-rules'],
+    queryFn: fetchWatchRules,
+  })
+
+  const { data: approvalPolicy = DEFAULT_APPROVAL_POLICY } = useQuery({
+    queryKey: ['approval-policy'],
+    queryFn: fetchApprovalPolicy,
+  })
+
   // Refresh news mutation
   const refreshMutation = useMutation({
     mutationFn: refreshNewsCache,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['news-cache'] })
       queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['news-sources'] })
+      queryClient.invalidateQueries({ queryKey: ['news-untriaged-count'] })
+    },
+  })
+
+  // Set the triage status on a story's articles, skipping those already there
+  const triageMutation = useMutation({
+    mutationFn: ({ articles, status }: { articles: NewsArticle[]; status: NewsTriageStatus }) => {
+      const urls = articles.filter(article => getTriageStatus(article) !== status).map(article => article.article_url)
+      return urls.length > 0 ? bulkNewsAction(urls, { type: 'triage', status }) : Promise.resolve([])
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      queryClient.invalidateQueries({ queryKey: ['news-untriaged-count'] })
+      const failed = results.filter(result => !result.ok)
+      if (failed.length > 0) {
+        alert(`Failed to update ${failed.length} article${failed.length === 1 ? '' : 's'}: ${failed[0].error || 'Unknown error'}`)
+      }
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to update triage status')
+    },
+  })
+
+  // Pin or unpin a story's articles, skipping those already there
+  const pinMutation = useMutation({
+    mutationFn: ({ articles, pinned }: { articles: NewsArticle[]; pinned: boolean }) => {
+      const urls = articles.filter(article => Boolean(article.pinned) !== pinned).map(article => article.article_url)
+      return urls.length > 0 ? bulkNewsAction(urls, { type: 'pin', pinned }) : Promise.resolve([])
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+      const failed = results.filter(result => !result.ok)
+      if (failed.length > 0) {
+        alert(`Failed to update ${failed.length} article${failed.length === 1 ? '' : 's'}: ${failed[0].error || 'Unknown error'}`)
+      }
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to pin articles')
     },
   })
 
@@ -57,6 +215,7 @@ export function NewsFeed() {
       updateNewsArticle(url, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      queryClient.invalidateQueries({ queryKey: ['news-stats'] })
       setEditingArticle(null)
     },
   })
@@ -67,6 +226,7 @@ export function NewsFeed() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['news-cache'] })
       queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['news-untriaged-count'] })
     },
   })
 
@@ -75,26 +235,31 @@ export function NewsFeed() {
     mutationFn: createAlert,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['alerts'] })
-      // Refetch news to get updated alert_created status
+      // Refetch news so the article links to its new alert and shows as actioned
       queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      queryClient.invalidateQueries({ queryKey: ['news-untriaged-count'] })
       setCreatingAlert(null)
       alert('Alert created successfully!')
     },
   })
 
-  // Filter articles by search
-  const filteredArticles = articles.filter(article => {
-    if (!searchQuery) return true
-    const search = searchQuery.toLowerCase()
-    return (
-      article.title.toLowerCase().includes(search) ||
-      article.text?.toLowerCase().includes(search) ||
-      article.source_name.toLowerCase().includes(search)
-    )
-  })
+  // One card per story; articles about the same event from different sources are grouped.
+  // Stories are regrouped as more pages load, not on every render: clustering compares every pair of loaded articles.
+  const stories = useMemo(() => clusterArticles(articles), [articles])
 
-  // Get unique tokens from stats
-  const tokens = stats?.byToken?.map(t => t.token) || []
+  const toggleStory = (id: string) => {
+    const next = new Set(expandedStories)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setExpandedStories(next)
+  }
+
+  // Canonical tokens from stats; counts reported under an alias fold into its symbol
+  const tokens = mergeTokenCounts(stats?.byToken || [], tickerDefinitions).map(t => t.token)
+  const editTickers = canonicaliseTickers(editForm.tickers, tickerDefinitions)
 
   // Handle edit
   const handleEdit = (article: NewsArticle) => {
@@ -104,6 +269,8 @@ export function NewsFeed() {
       text: article.text || '',
       sentiment: article.sentiment || '',
       tickers: article.tickers,
+      pinned: Boolean(article.pinned),
+      expiresOn: article.expires_at.slice(0, 10),
     })
   }
 
@@ -115,7 +282,12 @@ export function NewsFeed() {
         title: editForm.title,
         text: editForm.text,
         sentiment: editForm.sentiment || null,
-        tickers: editForm.tickers,
+        tickers: editTickers.tickers,
+        pinned: editForm.pinned,
+        // Keep the time of day; only the date is editable
+        ...(editForm.expiresOn && editForm.expiresOn !== editingArticle.expires_at.slice(0, 10)
+          ? { expires_at: `${editForm.expiresOn}${editingArticle.expires_at.slice(10)}` }
+          : {}),
       },
     })
   }
@@ -127,18 +299,25 @@ export function NewsFeed() {
   }
 
   // Handle create alert from news
-  const handleCreateAlert = (article: NewsArticle) => {
+  const handleCreateAlert = (article: NewsArticle, sources: NewsArticle[] = [article]) => {
     setCreatingAlert(article)
+    setCreatingSources(sources)
+    setAlertDuplicates(null)
     setAiReasoning('')
-    // Pre-populate form with article data (basic mode)
+    // Pre-populate form with article data (basic mode), targeting every ticker in the article
+    const tokens = canonicaliseTickers(article.tickers, tickerDefinitions).tickers
     setAlertForm({
-      token: article.tickers[0] || '',
+      token: tokens[0] || '',
+      tokens,
       title: article.title,
       body: article.text || '',
       severity: article.sentiment === 'negative' ? 'warning' : 'info',
-      tags: article.sentiment === 'negative' ? ['news', 'warning'] : ['news'],
+      // Topics carry the source's default tags
+      tags: uniqueTags([...(article.sentiment === 'negative' ? ['news', 'warning'] : ['news']), ...article.topics]),
       deadline: '',
       source_url: article.article_url,
+      status: 'published',
+      publish_at: '',
     })
   }
 
@@ -152,14 +331,18 @@ export function NewsFeed() {
     try {
       const aiAlert = await generateAlertFromNews(creatingAlert)
       
+      const aiTokens = canonicaliseTickers(withPrimaryToken(aiAlert.tokens || [], aiAlert.token), tickerDefinitions).tickers
       setAlertForm({
-        token: aiAlert.token,
+        token: aiTokens[0] || '',
+        tokens: aiTokens,
         title: aiAlert.title,
         body: aiAlert.body,
         severity: aiAlert.severity,
         tags: aiAlert.tags,
         deadline: aiAlert.deadline || '',
         source_url: creatingAlert.article_url,
+        status: alertForm.status,
+        publish_at: alertForm.publish_at,
       })
       
       if (aiAlert.reasoning) {
@@ -173,20 +356,98 @@ export function NewsFeed() {
     }
   }
 
-  const handleSaveAlert = () => {
+  const alertDraft = {
+    token: alertForm.token,
+    tokens: withPrimaryToken(alertForm.tokens, alertForm.token),
+    title: alertForm.title,
+    body: sanitiseMarkdown(alertForm.body),
+    severity: alertForm.severity,
+    tags: alertForm.tags,
+    deadline: alertForm.deadline || undefined,
+  }
+  const alertSubmitStatus = resolveSubmitStatus(alertForm, approvalPolicy)
+
+  const handleSaveAlert = async (skipDuplicateCheck = false) => {
     if (!creatingAlert || !alertForm.token || !alertForm.title) return
-    
+    if (alertForm.status === 'scheduled' && !alertForm.publish_at) return
+    if (findLinkIssues(alertForm.body).length > 0) return
+
+    // Another admin may already have filed this from a different article or by hand
+    if (!skipDuplicateCheck) {
+      setIsCheckingDuplicates(true)
+      const found = await findDuplicateAlerts(alertDraft).catch(() => [])
+      setIsCheckingDuplicates(false)
+      if (found.length > 0) {
+        setAlertDuplicates(found)
+        return
+      }
+    }
+    setAlertDuplicates(null)
+
     createAlertMutation.mutate({
-      token: alertForm.token,
-      title: alertForm.title,
-      body: alertForm.body,
-      severity: alertForm.severity,
-      tags: alertForm.tags,
-      deadline: alertForm.deadline || undefined,
+      ...alertDraft,
+      body_plain: markdownToPlainText(alertDraft.body),
       source_url: alertForm.source_url || creatingAlert.article_url,  // Use form source_url or fallback to article URL
+      source_urls: creatingSources.map(source => source.article_url),
+      status: alertSubmitStatus,
+      publish_at: alertForm.status === 'scheduled' ? new Date(alertForm.publish_at).toISOString() : undefined,
     })
   }
 
+  // Keyboard triage: j/k move between stories and the other keys act on the focused one.
+  // Re-subscribed every render so the handler always sees the current stories.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return
+      if (e.key === '?') {
+        setShowShortcuts(show => !show)
+        return
+      }
+      // Open modals keep the keyboard to themselves
+      if (editingArticle || creatingAlert || viewingArticle || stories.length === 0) return
+
+      const current = Math.min(focusedIndex, stories.length - 1)
+      if (e.key === 'j' || e.key === 'k') {
+        e.preventDefault()
+        const next = e.key === 'j' ? Math.min(current + 1, stories.length - 1) : Math.max(current - 1, 0)
+        setFocusedIndex(next)
+        document.querySelector(`[data-story-index="${next}"]`)?.scrollIntoView({ block: 'nearest' })
+        return
+      }
+
+      const cluster = stories[current]
+      if (!cluster) return
+      switch (e.key) {
+        case 'r':
+          triageMutation.mutate({ articles: cluster.articles, status: 'reviewed' })
+          break
+        case 'i':
+          triageMutation.mutate({ articles: cluster.articles, status: 'ignored' })
+          break
+        case 'u':
+          triageMutation.mutate({ articles: cluster.articles, status: 'new' })
+          break
+        case 'o':
+          setViewingArticle(cluster.lead)
+          break
+        case 'e':
+          handleEdit(cluster.lead)
+          break
+        case 'a':
+          handleCreateAlert(clusterAsArticle(cluster), cluster.articles)
+          break
+        case 'x':
+          toggleSelected(cluster.articles)
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
       month: 'short',
@@ -203,28 +464,72 @@ export function NewsFeed() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">News Cache Management</h1>
-          <p className="text-gray-600 mt-2">Manage cached news articles from CoinDesk</p>
+          <p className="text-gray-600 mt-2">Manage cached news articles from every enabled news source</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => setShowShortcuts(!showShortcuts)}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            title="Keyboard shortcuts (?)"
+          >
+            <Keyboard className="w-4 h-4" />
+            Shortcuts
+          </button>
+          <Link
+            to="/news/sources"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Rss className="w-4 h-4" />
+            Sources
+          </Link>
+          <button
+            onClick={() => refreshMutation.mutate()}
+            disabled={refreshMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
+            Refresh Cache
+          </button>
         </div>
-        <button
-          onClick={() => refreshMutation.mutate()}
-          disabled={refreshMutation.isPending}
-          className="flex items-center gap-2 px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
-        >
-          <RefreshCw className={`w-4 h-4 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
-          Refresh Cache
-        </button>
       </div>
 
+      {showShortcuts && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-semibold text-gray-700">Keyboard shortcuts</h2>
+            <button onClick={() => setShowShortcuts(false)} className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <dl className="grid grid-cols-2 md:grid-cols-3 gap-x-6 gap-y-2 text-sm">
+            {NEWS_SHORTCUTS.map(shortcut => (
+              <div key={shortcut.description} className="flex items-center gap-2">
+                <dt className="flex gap-1">
+                  {shortcut.keys.map(key => (
+                    <kbd key={key} className="px-1.5 py-0.5 text-xs font-mono bg-gray-100 border border-gray-300 rounded">{key}</kbd>
+                  ))}
+                </dt>
+                <dd className="text-gray-600">{shortcut.description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <p className="text-sm text-gray-600">Total Cached</p>
           <p className="text-3xl font-bold text-gray-900 mt-2">{stats?.totalCached || 0}</p>
         </div>
-        <div className="bg-white rounded-lg border border-gray-200 p-6">
-          <p className="text-sm text-gray-600">Expiring Soon (7d)</p>
+        <button
+          onClick={() => updateQuery({ retention: 'expiring', status: '' })}
+          className="bg-white rounded-lg border border-gray-200 p-6 text-left hover:border-orange-300"
+          title="Show articles expiring soon"
+        >
+          <p className="text-sm text-gray-600">Expiring Soon ({EXPIRING_SOON_DAYS}d)</p>
           <p className="text-3xl font-bold text-orange-600 mt-2">{stats?.expiringSoon || 0}</p>
-        </div>
+        </button>
         <div className="bg-white rounded-lg border border-gray-200 p-6">
           <p className="text-sm text-gray-600">Avg Age</p>
           <p className="text-3xl font-bold text-gray-900 mt-2">
@@ -239,6 +544,24 @@ export function NewsFeed() {
 
       {/* Filters */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
+        {/* Triage status; counts ignore the status but respect every other filter */}
+        <div className="flex flex-wrap gap-2 mb-4">
+          {[...TRIAGE_STATUSES, { value: '' as const, label: 'All' }].map(({ value, label }) => (
+            <button
+              key={value || 'all'}
+              onClick={() => updateQuery({ status: value })}
+              className={`px-3 py-1.5 text-sm rounded-lg border ${
+                query.status === value
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+              {value && counts?.byStatus && <span className="ml-1 opacity-75">({counts.byStatus[value] || 0})</span>}
+            </button>
+          ))}
+        </div>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -247,8 +570,11 @@ export function NewsFeed() {
             </label>
             <input
               type="text"
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => {
+                setSearchInput(e.target.value)
+                clearSelection()
+              }}
               placeholder="Search by title, content, or source..."
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
             />
@@ -259,8 +585,8 @@ export function NewsFeed() {
               Filter by Token
             </label>
             <select
-              value={selectedToken}
-              onChange={(e) => setSelectedToken(e.target.value)}
+              value={query.token}
+              onChange={(e) => updateQuery({ token: e.target.value })}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
             >
               <option value="">All Tokens</option>
@@ -270,95 +596,354 @@ export function NewsFeed() {
             </select>
           </div>
         </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mt-4">
+          <select
+            value={query.sentiment}
+            onChange={(e) => updateQuery({ sentiment: e.target.value as NewsQuery['sentiment'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">All Sentiments</option>
+            <option value="positive">Positive</option>
+            <option value="neutral">Neutral</option>
+            <option value="negative">Negative</option>
+          </select>
+          <select
+            value={query.source}
+            onChange={(e) => updateQuery({ source: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">All Sources</option>
+            {(counts?.bySource || []).map(({ source_name, count }) => (
+              <option key={source_name} value={source_name}>{source_name} ({count})</option>
+            ))}
+          </select>
+          <select
+            value={query.flagged}
+            onChange={(e) => updateQuery({ flagged: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Flagged or not</option>
+            <option value="any">Flagged by any rule</option>
+            {watchRules.map(rule => (
+              <option key={rule.id} value={String(rule.id)}>Flagged: {rule.name}</option>
+            ))}
+          </select>
+          <select
+            value={query.retention}
+            onChange={(e) => updateQuery({ retention: e.target.value as NewsQuery['retention'] })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">Any expiry</option>
+            <option value="expiring">Expiring within {EXPIRING_SOON_DAYS} days</option>
+            <option value="pinned">Pinned</option>
+            <option value="protected">Never expire</option>
+          </select>
+          <input
+            type="date"
+            title="Published from"
+            value={query.from}
+            onChange={(e) => updateQuery({ from: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+          <input
+            type="date"
+            title="Published to"
+            value={query.to}
+            onChange={(e) => updateQuery({ to: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+
+        {/* Counts cover every matching article, not just the loaded pages */}
+        <div className="mt-4 flex items-center gap-6 text-sm text-gray-600">
+          <span>Matching: {total}</span>
+          <span className="text-green-600">Positive: {counts?.bySentiment.positive || 0}</span>
+          <span>Neutral: {counts?.bySentiment.neutral || 0}</span>
+          <span className="text-red-600">Negative: {counts?.bySentiment.negative || 0}</span>
+          {isFetching && !isLoading && !isFetchingNextPage && <span className="text-gray-400">Updating...</span>}
+          {hasActiveNewsFilters(query) && (
+            <button
+              onClick={() => {
+                setSearchInput('')
+                clearSelection()
+                setFocusedIndex(-1)
+                setSearchParams(toNewsSearchParams({ ...DEFAULT_NEWS_QUERY, status: query.status }))
+              }}
+              className="ml-auto flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+            >
+              <X className="w-4 h-4" />
+              Clear filters
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Bulk Actions */}
+      {selectedArticles.size > 0 && (
+        <NewsBulkActions selected={Array.from(selectedArticles.values())} onClear={clearSelection} />
+      )}
+
       {/* Articles List */}
       <div className="bg-white rounded-lg border border-gray-200">
         {isLoading ? (
           <div className="p-8 text-center text-gray-600">Loading articles...</div>
-        ) : filteredArticles.length === 0 ? (
+        ) : articles.length === 0 ? (
           <div className="p-8 text-center">
             <Newspaper className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-600">No articles found</p>
+            <p className="text-gray-600">
+              {query.status === 'new' && !hasActiveNewsFilters(query) ? 'All caught up: nothing left to triage' : 'No articles found'}
+            </p>
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
-            {filteredArticles.map(article => (
-              <div key={article.article_url} className="p-6 hover:bg-gray-50">
-                <div className="flex items-start justify-between gap-4">
-                  <div 
-                    className="flex-1 cursor-pointer" 
-                    onClick={() => setViewingArticle(article)}
-                  >
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="text-xs font-medium text-gray-500">{article.source_name}</span>
-                      <span className="text-xs text-gray-400">•</span>
-                      <span className="text-xs text-gray-500">{formatDate(article.date)}</span>
-                      {article.sentiment && (
-                        <>
-                          <span className="text-xs text-gray-400">•</span>
-                          <span className={`text-xs font-medium ${
-                            article.sentiment === 'positive' ? 'text-green-600' :
-                            article.sentiment === 'negative' ? 'text-red-600' :
-                            'text-gray-600'
-                          }`}>
-                            {article.sentiment}
+            <div className="px-6 py-3 flex items-center gap-3 text-sm text-gray-500">
+              <input
+                type="checkbox"
+                checked={articles.every(isSelected)}
+                onChange={() => toggleSelected(articles)}
+                title="Select every loaded article"
+              />
+              {stories.length} {stories.length === 1 ? 'story' : 'stories'} from {articles.length} of {total} articles
+            </div>
+            {stories.map((cluster, index) => {
+              const article = cluster.lead
+              const story = clusterAsArticle(cluster)
+              const others = cluster.articles.slice(1)
+              const isExpanded = expandedStories.has(cluster.id)
+              const triageStatus = getStoryTriageStatus(cluster.articles)
+              const triageStyle = TRIAGE_STATUSES.find(s => s.value === triageStatus)
+              const isPinned = cluster.articles.every(a => a.pinned)
+              const retention = getArticleRetention(article)
+              // Flags from every article in the story, one per rule
+              const flags = Array.from(
+                new Map(cluster.articles.flatMap(a => a.flags || []).map(flag => [flag.rule_id, flag] as const)).values()
+              )
+
+              return (
+                <div
+                  key={cluster.id}
+                  data-story-index={index}
+                  onClick={() => setFocusedIndex(index)}
+                  className={`p-6 ${cluster.articles.some(isSelected) ? 'bg-primary-50' : 'hover:bg-gray-50'} ${
+                    index === Math.min(focusedIndex, stories.length - 1) ? 'ring-2 ring-inset ring-primary-400' : ''
+                  } ${triageStatus === 'ignored' ? 'opacity-60' : ''} ${flags.length > 0 ? 'border-l-4 border-amber-400' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <input
+                      type="checkbox"
+                      checked={cluster.articles.every(isSelected)}
+                      onChange={() => toggleSelected(cluster.articles)}
+                      className="mt-1"
+                      title={others.length > 0 ? `Select all ${cluster.articles.length} articles in this story` : 'Select article'}
+                    />
+                    <div 
+                      className="flex-1 cursor-pointer" 
+                      onClick={() => setViewingArticle(article)}
+                    >
+                      <div className="flex items-center gap-2 mb-2">
+                        <span className="text-xs font-medium text-gray-500">{article.source_name}</span>
+                        <span className="text-xs text-gray-400">•</span>
+                        <span className="text-xs text-gray-500">{formatDate(article.date)}</span>
+                        {article.sentiment && (
+                          <>
+                            <span className="text-xs text-gray-400">•</span>
+                            <span className={`text-xs font-medium ${
+                              article.sentiment === 'positive' ? 'text-green-600' :
+                              article.sentiment === 'negative' ? 'text-red-600' :
+                              'text-gray-600'
+                            }`}>
+                              {article.sentiment}
+                            </span>
+                          </>
+                        )}
+                        {triageStatus !== 'new' && (
+                          <span
+                            className={`text-xs ${triageStyle?.className || 'text-gray-400'}`}
+                            title={article.triaged_by ? `${getTriageLabel(triageStatus)} by ${article.triaged_by}` : undefined}
+                          >
+                            • {getTriageLabel(triageStatus)}
                           </span>
-                        </>
+                        )}
+                        {retention.kind === 'pinned' ? (
+                          <span className="text-xs text-primary-700">• Pinned</span>
+                        ) : isExpiringSoon(article) && (
+                          <span className="text-xs text-orange-600" title={`Expires ${formatDate(article.expires_at)}`}>
+                            • {describeRetention(retention)}
+                          </span>
+                        )}
+                        {others.length > 0 && (
+                          <span className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs font-medium rounded">
+                            {cluster.articles.length} articles · {cluster.sources.length} {cluster.sources.length === 1 ? 'source' : 'sources'}
+                          </span>
+                        )}
+                      </div>
+                      <ArticleFlags flags={flags} />
+                      <h3 className="text-lg font-semibold text-gray-900 mb-2 hover:text-primary-600">{article.title}</h3>
+                      {article.text && (
+                        <p className="text-sm text-gray-600 mb-3 line-clamp-2">{article.text}</p>
                       )}
+                      <div className="flex flex-wrap gap-2">
+                        {cluster.tickers.map(ticker => (
+                          <span
+                            key={ticker}
+                            className="px-2 py-1 bg-primary-100 text-primary-700 text-xs font-medium rounded"
+                          >
+                            {ticker}
+                          </span>
+                        ))}
+                      </div>
+                      <div className="mt-2">
+                        <LinkedAlerts article={story} />
+                      </div>
                     </div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-2 hover:text-primary-600">{article.title}</h3>
-                    {article.text && (
-                      <p className="text-sm text-gray-600 mb-3 line-clamp-2">{article.text}</p>
-                    )}
-                    <div className="flex flex-wrap gap-2">
-                      {article.tickers.map(ticker => (
-                        <span
-                          key={ticker}
-                          className="px-2 py-1 bg-primary-100 text-primary-700 text-xs font-medium rounded"
+                    <div className="flex gap-2">
+                      {triageStatus === 'new' ? (
+                        <>
+                          <button
+                            onClick={() => triageMutation.mutate({ articles: cluster.articles, status: 'reviewed' })}
+                            disabled={triageMutation.isPending}
+                            className="p-2 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded"
+                            title="Mark reviewed (r)"
+                          >
+                            <Check className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => triageMutation.mutate({ articles: cluster.articles, status: 'ignored' })}
+                            disabled={triageMutation.isPending}
+                            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                            title="Ignore (i)"
+                          >
+                            <EyeOff className="w-4 h-4" />
+                          </button>
+                        </>
+                      ) : (
+                        <button
+                          onClick={() => triageMutation.mutate({ articles: cluster.articles, status: 'new' })}
+                          disabled={triageMutation.isPending}
+                          className="p-2 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded"
+                          title="Move back to untriaged (u)"
                         >
-                          {ticker}
-                        </span>
-                      ))}
-                    </div>
-                  </div>
-                  <div className="flex gap-2">
-                    {article.alert_created ? (
+                          <RotateCcw className="w-4 h-4" />
+                        </button>
+                      )}
                       <button
-                        className="p-2 text-green-600 bg-green-50 rounded cursor-default"
-                        title="Alert already created from this article"
-                        disabled
+                        onClick={() => pinMutation.mutate({ articles: cluster.articles, pinned: !isPinned })}
+                        disabled={pinMutation.isPending}
+                        className={`p-2 hover:bg-gray-100 rounded ${isPinned ? 'text-primary-600 hover:text-gray-900' : 'text-gray-600 hover:text-primary-600'}`}
+                        title={isPinned ? 'Unpin so the story expires normally' : 'Pin so the story never expires'}
                       >
-                        <CheckCircle2 className="w-4 h-4" />
+                        {isPinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
                       </button>
-                    ) : (
                       <button
-                        onClick={() => handleCreateAlert(article)}
+                        onClick={() => handleCreateAlert(story, cluster.articles)}
                         className="p-2 text-gray-600 hover:text-green-600 hover:bg-gray-100 rounded"
-                        title="Create alert from this article"
+                        title={
+                          others.length > 0
+                            ? `Create alert from this story (${cluster.articles.length} articles)`
+                            : story.alert_created ? 'Create another alert from this article' : 'Create alert from this article'
+                        }
                       >
                         <Bell className="w-4 h-4" />
                       </button>
-                    )}
-                    <button
-                      onClick={() => handleEdit(article)}
-                      className="p-2 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded"
-                      title="Edit article"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(article.article_url)}
-                      disabled={deleteMutation.isPending}
-                      className="p-2 text-gray-600 hover:text-red-600 hover:bg-gray-100 rounded"
-                      title="Delete article"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+                      <button
+                        onClick={() => handleEdit(article)}
+                        className="p-2 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded"
+                        title="Edit article"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(article.article_url)}
+                        disabled={deleteMutation.isPending}
+                        className="p-2 text-gray-600 hover:text-red-600 hover:bg-gray-100 rounded"
+                        title="Delete article"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
+
+                  {/* Other coverage of the same story */}
+                  {others.length > 0 && (
+                    <div className="mt-3">
+                      <button
+                        onClick={() => toggleStory(cluster.id)}
+                        className="flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {isExpanded ? 'Hide' : 'Show'} {others.length} more {others.length === 1 ? 'article' : 'articles'}
+                      </button>
+                      {isExpanded && (
+                        <ul className="mt-2 ml-5 border-l border-gray-200 divide-y divide-gray-100">
+                          {others.map(other => (
+                            <li key={other.article_url} className="flex items-start justify-between gap-4 pl-4 py-2">
+                              <input
+                                type="checkbox"
+                                checked={isSelected(other)}
+                                onChange={() => toggleSelected([other])}
+                                className="mt-1"
+                              />
+                              <div className="flex-1 min-w-0 cursor-pointer" onClick={() => setViewingArticle(other)}>
+                                <div className="flex items-center gap-2 text-xs text-gray-500">
+                                  <span className="font-medium">{other.source_name}</span>
+                                  <span className="text-gray-400">•</span>
+                                  <span>{formatDate(other.date)}</span>
+                                  {other.sentiment && (
+                                    <>
+                                      <span className="text-gray-400">•</span>
+                                      <span className={
+                                        other.sentiment === 'positive' ? 'text-green-600' :
+                                        other.sentiment === 'negative' ? 'text-red-600' :
+                                        'text-gray-600'
+                                      }>
+                                        {other.sentiment}
+                                      </span>
+                                    </>
+                                  )}
+                                  {getTriageStatus(other) !== 'new' && (
+                                    <span className="text-gray-400">• {getTriageLabel(getTriageStatus(other))}</span>
+                                  )}
+                                </div>
+                                <div className="text-sm font-medium text-gray-900 hover:text-primary-600">{other.title}</div>
+                              </div>
+                              <div className="flex gap-1">
+                                <button
+                                  onClick={() => handleEdit(other)}
+                                  className="p-1.5 text-gray-600 hover:text-primary-600 hover:bg-gray-100 rounded"
+                                  title="Edit article"
+                                >
+                                  <Edit2 className="w-4 h-4" />
+                                </button>
+                                <button
+                                  onClick={() => handleDelete(other.article_url)}
+                                  disabled={deleteMutation.isPending}
+                                  className="p-1.5 text-gray-600 hover:text-red-600 hover:bg-gray-100 rounded"
+                                  title="Delete article"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
                 </div>
+              )
+            })}
+            {hasNextPage && (
+              <div ref={loadMoreRef} className="p-4 text-center">
+                <button
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="text-sm text-primary-600 hover:text-primary-700 font-medium disabled:text-gray-400"
+                >
+                  {isFetchingNextPage ? 'Loading more articles...' : 'Load more'}
+                </button>
               </div>
-            ))}
+            )}
           </div>
         )}
       </div>
@@ -422,6 +1007,38 @@ export function NewsFeed() {
                   placeholder="BTC, ETH, SOL"
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
                 />
+                {editTickers.tickers.join(', ') !== editForm.tickers.join(', ') && (
+                  <p className="text-xs text-gray-500 mt-1">Saved as {editTickers.tickers.join(', ') || 'no tickers'}</p>
+                )}
+                {editTickers.unknown.length > 0 && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    Not in the ticker registry: {editTickers.unknown.join(', ')}. They go to the review queue.
+                  </p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Expires</label>
+                  <input
+                    type="date"
+                    value={editForm.expiresOn}
+                    onChange={(e) => setEditForm({ ...editForm, expiresOn: e.target.value })}
+                    disabled={Boolean(getExpiryLockReason({ ...editingArticle, pinned: editForm.pinned }))}
+                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:bg-gray-50 disabled:text-gray-400"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {getExpiryLockReason({ ...editingArticle, pinned: editForm.pinned })
+                      || 'Removed from the cache after this date'}
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 pt-8 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editForm.pinned}
+                    onChange={(e) => setEditForm({ ...editForm, pinned: e.target.checked })}
+                  />
+                  Pinned: never expires
+                </label>
               </div>
             </div>
             <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
@@ -449,7 +1066,14 @@ export function NewsFeed() {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b border-gray-200 flex items-center justify-between">
-              <h2 className="text-xl font-bold text-gray-900">Create Alert from News</h2>
+              <div>
+                <h2 className="text-xl font-bold text-gray-900">Create Alert from News</h2>
+                {creatingSources.length > 1 && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    Based on {creatingSources.length} articles from {Array.from(new Set(creatingSources.map(source => source.source_name))).join(', ')}
+                  </p>
+                )}
+              </div>
               <button
                 onClick={() => setCreatingAlert(null)}
                 className="p-2 text-gray-600 hover:text-gray-900"
@@ -478,114 +1102,167 @@ export function NewsFeed() {
               </div>
             )}
 
-            <div className="p-6 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Token <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  value={alertForm.token}
-                  onChange={(e) => setAlertForm({ ...alertForm, token: e.target.value.toUpperCase() })}
-                  placeholder="BTC, ETH, SOL..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  Select from tickers: {creatingAlert.tickers.join(', ') || 'None'}
-                </p>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Alert Title <span className="text-red-500">*</span>
-                </label>
-                <input
-                  type="text"
-                  value={alertForm.title}
-                  onChange={(e) => setAlertForm({ ...alertForm, title: e.target.value })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Alert Body</label>
-                <textarea
-                  value={alertForm.body}
-                  onChange={(e) => setAlertForm({ ...alertForm, body: e.target.value })}
-                  rows={6}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  placeholder="Alert description and source URL..."
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Severity</label>
-                <select
-                  value={alertForm.severity}
-                  onChange={(e) => setAlertForm({ ...alertForm, severity: e.target.value as any })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                >
-                  <option value="info">Info</option>
-                  <option value="warning">Warning</option>
-                  <option value="critical">Critical</option>
-                </select>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Tags (comma-separated)
-                </label>
-                <input
-                  type="text"
-                  value={alertForm.tags.join(', ')}
-                  onChange={(e) => setAlertForm({ 
-                    ...alertForm, 
-                    tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean)
-                  })}
-                  placeholder="news, community, warning..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Deadline (optional)
-                </label>
-                <input
-                  type="datetime-local"
-                  value={alertForm.deadline}
-                  onChange={(e) => setAlertForm({ ...alertForm, deadline: e.target.value })}
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Source URL
-                </label>
-                <input
-                  type="url"
-                  value={alertForm.source_url}
-                  onChange={(e) => setAlertForm({ ...alertForm, source_url: e.target.value })}
-                  placeholder="https://..."
-                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  readOnly
+            {alertDuplicates ? (
+              <div className="p-6">
+                <DuplicateAlertsPanel
+                  draft={alertDraft}
+                  candidates={alertDuplicates}
+                  sourceUrls={creatingSources.map(source => source.article_url)}
+                  onResolved={(message) => {
+                    setCreatingAlert(null)
+                    setAlertDuplicates(null)
+                    alert(message)
+                  }}
+                  onCreateAnyway={() => handleSaveAlert(true)}
+                  onBack={() => setAlertDuplicates(null)}
                 />
-                <p className="text-xs text-gray-500 mt-1">
-                  Auto-populated from news article
-                </p>
               </div>
-            </div>
-            <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
-              <button
-                onClick={() => setCreatingAlert(null)}
-                className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleSaveAlert}
-                disabled={createAlertMutation.isPending || !alertForm.token || !alertForm.title}
-                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
-              >
-                <Bell className="w-4 h-4" />
-                Create Alert
-              </button>
-            </div>
+            ) : (
+              <>
+                <div className="p-6 space-y-4">
+                  <TemplatePicker
+                    defaults={{ token: alertForm.token, date: alertForm.deadline.slice(0, 10), url: alertForm.source_url || creatingAlert.article_url }}
+                    onApply={(fields) => setAlertForm({ ...alertForm, ...fields })}
+                  />
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Tokens <span className="text-red-500">*</span>
+                    </label>
+                    <TokenPicker
+                      tokens={alertForm.tokens}
+                      primary={alertForm.token}
+                      onChange={(tokens, token) => setAlertForm({ ...alertForm, tokens, token })}
+                      suggestions={creatingAlert.tickers}
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Starred token is the primary token
+                    </p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Alert Title <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={alertForm.title}
+                      onChange={(e) => setAlertForm({ ...alertForm, title: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Alert Body</label>
+                    <MarkdownEditor
+                      value={alertForm.body}
+                      onChange={(body) => setAlertForm({ ...alertForm, body })}
+                      rows={6}
+                      placeholder="Alert description and source URL..."
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Severity</label>
+                    <select
+                      value={alertForm.severity}
+                      onChange={(e) => setAlertForm({ ...alertForm, severity: e.target.value as any })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    >
+                      <option value="info">Info</option>
+                      <option value="warning">Warning</option>
+                      <option value="critical">Critical</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Tags
+                    </label>
+                    <TagInput
+                      tags={alertForm.tags}
+                      onChange={(tags) => setAlertForm({ ...alertForm, tags })}
+                      placeholder="news, community, warning..."
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Deadline (optional)
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={alertForm.deadline}
+                      onChange={(e) => setAlertForm({ ...alertForm, deadline: e.target.value })}
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Publishing</label>
+                      <select
+                        value={alertForm.status}
+                        onChange={(e) => setAlertForm({ ...alertForm, status: e.target.value as typeof alertForm.status })}
+                        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="published">Publish now</option>
+                        <option value="scheduled">Schedule</option>
+                        <option value="draft">Save as draft</option>
+                      </select>
+                    </div>
+                    {alertForm.status === 'scheduled' && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Publish At <span className="text-red-500">*</span>
+                        </label>
+                        <input
+                          type="datetime-local"
+                          value={alertForm.publish_at}
+                          onChange={(e) => setAlertForm({ ...alertForm, publish_at: e.target.value })}
+                          className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                        />
+                      </div>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Source URL
+                    </label>
+                    <input
+                      type="url"
+                      value={alertForm.source_url}
+                      onChange={(e) => setAlertForm({ ...alertForm, source_url: e.target.value })}
+                      placeholder="https://..."
+                      className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      readOnly
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Auto-populated from news article
+                    </p>
+                  </div>
+                  <AlertReachPanel
+                    tokens={alertDraft.tokens}
+                    title={alertForm.title}
+                    body={alertForm.body}
+                    severity={alertForm.severity}
+                  />
+                  {alertSubmitStatus === 'pending_approval' && <ApprovalNotice severity={alertForm.severity} />}
+                </div>
+                <div className="p-6 border-t border-gray-200 flex justify-end gap-3">
+                  <button
+                    onClick={() => setCreatingAlert(null)}
+                    className="px-4 py-2 text-gray-700 hover:bg-gray-100 rounded-lg"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleSaveAlert()}
+                    disabled={createAlertMutation.isPending || isCheckingDuplicates || !alertForm.token || !alertForm.title || (alertForm.status === 'scheduled' && !alertForm.publish_at) || findLinkIssues(alertForm.body).length > 0}
+                    className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <Bell className="w-4 h-4" />
+                    {isCheckingDuplicates
+                      ? 'Checking for duplicates...'
+                      : alertSubmitStatus === 'pending_approval' ? 'Submit for Approval'
+                      : alertForm.status === 'draft' ? 'Save Draft' : alertForm.status === 'scheduled' ? 'Schedule Alert' : 'Create Alert'}
+                  </button>
+                </div>
+              </>
+            )}
           </div>
         </div>
       )}
@@ -612,6 +1289,8 @@ export function NewsFeed() {
                       </span>
                     </>
                   )}
+                  <span className="text-xs text-gray-400">•</span>
+                  <span className="text-sm text-gray-500">{describeRetention(getArticleRetention(viewingArticle))}</span>
                 </div>
                 <h2 className="text-2xl font-bold text-gray-900">{viewingArticle.title}</h2>
               </div>
@@ -664,6 +1343,28 @@ export function NewsFeed() {
                 </div>
               )}
 
+              {/* Alerts */}
+              {(viewingArticle.alert_created || (viewingArticle.linked_alerts || []).length > 0) && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Alerts From This Article</h3>
+                  <LinkedAlerts article={viewingArticle} />
+                </div>
+              )}
+
+              {/* Watch rules */}
+              {(viewingArticle.flags || []).length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-700 mb-2">Flagged By</h3>
+                  <ul className="space-y-1 text-sm">
+                    {viewingArticle.flags!.map(flag => (
+                      <li key={flag.rule_id} className="text-amber-800">
+                        <span className="font-medium">{flag.rule_name}</span>: matched {flag.matched.join(', ')}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {/* Source Link */}
               <div className="border-t border-gray-200 pt-4">
                 <a
@@ -681,18 +1382,16 @@ export function NewsFeed() {
 
               {/* Action Buttons */}
               <div className="flex gap-3 border-t border-gray-200 pt-4">
-                {!viewingArticle.alert_created && (
-                  <button
-                    onClick={() => {
-                      setViewingArticle(null)
-                      handleCreateAlert(viewingArticle)
-                    }}
-                    className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
-                  >
-                    <Bell className="w-4 h-4" />
-                    Create Alert from Article
-                  </button>
-                )}
+                <button
+                  onClick={() => {
+                    setViewingArticle(null)
+                    handleCreateAlert(viewingArticle)
+                  }}
+                  className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+                >
+                  <Bell className="w-4 h-4" />
+                  Create Alert from Article
+                </button>
                 <button
                   onClick={() => {
                     setViewingArticle(null)
@@ -0,0 +1,594 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  createNewsSource,
+  deleteNewsSource,
+  fetchNewsSources,
+  previewNewsFeed,
+  refreshNewsCache,
+  refreshNewsSource,
+  updateNewsSource,
+} from '../lib/api'
+import {
+  DEFAULT_JSON_MAPPING,
+  EMPTY_NEWS_SOURCE,
+  MAX_POLL_INTERVAL_MINUTES,
+  MIN_POLL_INTERVAL_MINUTES,
+  NEWS_SOURCE_TYPES,
+  formatTickerAliases,
+  parseTickerAliases,
+  validateNewsSource,
+} from '../lib/newsFeeds'
+import { parseTokenList } from '../lib/alertTokens'
+import { TagInput } from '../components/TagInput'
+import type { JsonFeedMapping, NewsSource, NewsSourceInput } from '../types'
+import { AlertCircle, FileUp, Pencil, Plus, RefreshCw, Rss, Trash2, X } from 'lucide-react'
+
+const JSON_MAPPING_FIELDS: Array<{ key: keyof JsonFeedMapping; label: string; required: boolean }> = [
+  { key: 'items', label: 'Items array', required: false },
+  { key: 'url', label: 'URL', required: true },
+  { key: 'title', label: 'Title', required: true },
+  { key: 'date', label: 'Date', required: true },
+  { key: 'text', label: 'Text', required: false },
+  { key: 'image', label: 'Image URL', required: false },
+  { key: 'tickers', label: 'Tickers', required: false },
+]
+
+// Articles shown when checking a feed file; the counts cover the whole file
+const PREVIEW_LIMIT = 10
+
+const toInput = (source: NewsSource): NewsSourceInput => ({
+  name: source.name,
+  type: source.type,
+  url: source.url,
+  poll_interval_minutes: source.poll_interval_minutes,
+  default_tags: source.default_tags,
+  enabled: source.enabled,
+  ticker_extraction: source.ticker_extraction,
+  json_mapping: source.json_mapping,
+})
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+// Only these settings change how a feed file parses
+const parseSettingsKey = (source: NewsSourceInput) =>
+  JSON.stringify([source.type, source.default_tags, source.ticker_extraction, source.json_mapping])
+
+const formatInterval = (minutes: number) =>
+  minutes % 60 === 0 ? `every ${minutes / 60}h` : `every ${minutes}m`
+
+export function NewsSources() {
+  const queryClient = useQueryClient()
+  // null = editor closed, 'new' = creating, number = editing that source
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<NewsSourceInput>(EMPTY_NEWS_SOURCE)
+  const [symbolInput, setSymbolInput] = useState('')
+  const [aliasInput, setAliasInput] = useState('')
+  const [saveError, setSaveError] = useState('')
+  const [fixture, setFixture] = useState<{ name: string; content: string } | null>(null)
+  const [refreshResults, setRefreshResults] = useState<Record<number, string>>({})
+  const [refreshAllResult, setRefreshAllResult] = useState('')
+
+  const { data: sources = [], isLoading, error } = useQuery({
+    queryKey: ['news-sources'],
+    queryFn: fetchNewsSources,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['news-sources'] })
+  }
+
+  const invalidateNews = () => {
+    invalidate()
+    queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+    queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (source: NewsSourceInput) =>
+      editingId === 'new' || editingId === null
+        ? createNewsSource(source)
+        : updateNewsSource(editingId, source),
+    onSuccess: () => {
+      invalidate()
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save source')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (source: NewsSource) => updateNewsSource(source.id, { ...toInput(source), enabled: !source.enabled }),
+    onSuccess: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteNewsSource,
+    onSuccess: invalidate,
+  })
+
+  const refreshMutation = useMutation({
+    mutationFn: (source: NewsSource) => refreshNewsSource(source.id),
+    onSuccess: (result, source) => {
+      invalidateNews()
+      setRefreshResults(current => ({ ...current, [source.id]: `${result.added} added, ${result.updated} updated` }))
+    },
+    onError: (err: unknown, source) => {
+      invalidate()
+      const error = err as { response?: { data?: { error?: string } } }
+      setRefreshResults(current => ({ ...current, [source.id]: error.response?.data?.error || 'Refresh failed' }))
+    },
+  })
+
+  // The backend parses the file with the same code that polls the feed
+  const previewMutation = useMutation({
+    mutationFn: ({ source, content }: { source: NewsSourceInput; content: string }) => previewNewsFeed(source, content),
+  })
+
+  const refreshAllMutation = useMutation({
+    mutationFn: refreshNewsCache,
+    onSuccess: (result) => {
+      invalidateNews()
+      setRefreshAllResult(`${result.added} added, ${result.updated} updated across enabled sources`)
+    },
+    onError: () => {
+      setRefreshAllResult('Refresh failed')
+    },
+  })
+
+  const openEditor = (source?: NewsSource) => {
+    const input = source ? toInput(source) : EMPTY_NEWS_SOURCE
+    setForm(input)
+    setSymbolInput(input.ticker_extraction.symbols.join(', '))
+    setAliasInput(formatTickerAliases(input.ticker_extraction.aliases))
+    setSaveError('')
+    setFixture(null)
+    previewMutation.reset()
+    setEditingId(source ? source.id : 'new')
+  }
+
+  // The form as it would be saved, with the free-text ticker fields parsed
+  const draft: NewsSourceInput = {
+    ...form,
+    name: form.name.trim(),
+    url: form.url.trim(),
+    ticker_extraction: {
+      ...form.ticker_extraction,
+      symbols: parseTokenList(symbolInput),
+      aliases: parseTickerAliases(aliasInput),
+    },
+    json_mapping: form.type === 'json' ? form.json_mapping || DEFAULT_JSON_MAPPING : null,
+  }
+  const validationErrors = validateNewsSource(draft)
+  const preview = fixture ? previewMutation.data : undefined
+  const checkedWith = previewMutation.variables?.source
+  const previewIsStale = checkedWith !== undefined && parseSettingsKey(checkedWith) !== parseSettingsKey(draft)
+
+  const setMapping = (key: keyof JsonFeedMapping, value: string) => {
+    setForm({ ...form, json_mapping: { ...(form.json_mapping || DEFAULT_JSON_MAPPING), [key]: value } })
+  }
+
+  const handleFixture = async (file: File | undefined) => {
+    if (!file) return
+    const content = await file.text()
+    setFixture({ name: file.name, content })
+    previewMutation.mutate({ source: draft, content })
+  }
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (validationErrors.length > 0) return
+    saveMutation.mutate(draft)
+  }
+
+  const mapping = form.json_mapping || DEFAULT_JSON_MAPPING
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">News Sources</h1>
+          <p className="text-gray-600 mt-2">Feeds polled into the news cache</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => refreshAllMutation.mutate()}
+            disabled={refreshAllMutation.isPending}
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${refreshAllMutation.isPending ? 'animate-spin' : ''}`} />
+            Refresh All
+          </button>
+          <button
+            onClick={() => openEditor()}
+            className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+          >
+            <Plus className="w-5 h-5" />
+            Add Source
+          </button>
+        </div>
+      </div>
+
+      {refreshAllResult && (
+        <div className="flex items-center gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700">
+          {refreshAllResult}
+          <button onClick={() => setRefreshAllResult('')} className="ml-auto text-gray-500 hover:text-gray-700">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Source list */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading sources</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading sources...</div>
+        ) : sources.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <Rss className="w-8 h-8 text-gray-300" />
+            No news sources yet
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 text-left">Source</th>
+                <th className="px-4 py-3 text-left">Polling</th>
+                <th className="px-4 py-3 text-right">Articles</th>
+                <th className="px-4 py-3 text-left">Last Poll</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {sources.map(source => {
+                const isRefreshing = refreshMutation.isPending && refreshMutation.variables?.id === source.id
+                return (
+                  <tr key={source.id} className={`align-top ${source.enabled ? '' : 'bg-gray-50 text-gray-500'}`}>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{source.name}</span>
+                        <span className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">
+                          {NEWS_SOURCE_TYPES.find(t => t.key === source.type)?.label}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 truncate max-w-md" title={source.url}>{source.url}</div>
+                      {source.default_tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {source.default_tags.map(tag => (
+                            <span key={tag} className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">{tag}</span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <label className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={source.enabled}
+                          disabled={toggleMutation.isPending}
+                          onChange={() => toggleMutation.mutate(source)}
+                        />
+                        {source.enabled ? formatInterval(source.poll_interval_minutes) : 'Disabled'}
+                      </label>
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{source.article_count}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {source.last_polled_at ? formatDateTime(source.last_polled_at) : <span className="text-gray-400">Never</span>}
+                      {source.last_error && (
+                        <div className="flex items-start gap-1 mt-1 text-xs text-red-600">
+                          <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                          {source.last_error}
+                        </div>
+                      )}
+                      {refreshResults[source.id] && (
+                        <div className="mt-1 text-xs text-gray-600">{refreshResults[source.id]}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <button
+                          onClick={() => refreshMutation.mutate(source)}
+                          disabled={refreshMutation.isPending}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                          title="Poll this source now"
+                        >
+                          <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                        </button>
+                        <button onClick={() => openEditor(source)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Remove "${source.name}"? Articles already cached from it are kept.`)) {
+                              deleteMutation.mutate(source.id)
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete source"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New News Source' : 'Edit News Source'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="CoinDesk"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Shown as the source of every article from this feed</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={form.type}
+                    onChange={(e) => setForm({ ...form, type: e.target.value as NewsSourceInput['type'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  >
+                    {NEWS_SOURCE_TYPES.map(type => (
+                      <option key={type.key} value={type.key}>{type.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">URL</label>
+                <input
+                  type="url"
+                  value={form.url}
+                  onChange={(e) => setForm({ ...form, url: e.target.value })}
+                  placeholder="https://www.coindesk.com/arc/outboundfeeds/rss/"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Poll every (minutes)</label>
+                  <input
+                    type="number"
+                    min={MIN_POLL_INTERVAL_MINUTES}
+                    max={MAX_POLL_INTERVAL_MINUTES}
+                    value={form.poll_interval_minutes}
+                    onChange={(e) => setForm({ ...form, poll_interval_minutes: Number(e.target.value) })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Default tags</label>
+                  <TagInput
+                    tags={form.default_tags}
+                    onChange={(default_tags) => setForm({ ...form, default_tags })}
+                    placeholder="Added to every article from this feed"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.enabled}
+                  onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+                />
+                Enabled (polled automatically and by Refresh All)
+              </label>
+
+              {form.type === 'json' && (
+                <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">Field mapping</div>
+                    <p className="text-xs text-gray-500">Dot-separated paths into the response, e.g. "data.items" or "media.0.url"</p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    {JSON_MAPPING_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-xs font-medium text-gray-700 mb-1">
+                          {field.label}{field.required && ' *'}
+                        </label>
+                        <input
+                          type="text"
+                          value={mapping[field.key] || ''}
+                          onChange={(e) => setMapping(field.key, e.target.value)}
+                          placeholder={field.key === 'items' ? 'Empty if the response is an array' : undefined}
+                          className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="text-sm font-medium text-gray-900">Ticker extraction</div>
+                <div className="flex gap-6 text-sm text-gray-700">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.ticker_extraction.categories}
+                      onChange={(e) => setForm({ ...form, ticker_extraction: { ...form.ticker_extraction, categories: e.target.checked } })}
+                    />
+                    {form.type === 'json' ? 'Tickers field and categories' : 'Categories that look like symbols'}
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.ticker_extraction.cashtags}
+                      onChange={(e) => setForm({ ...form, ticker_extraction: { ...form.ticker_extraction, cashtags: e.target.checked } })}
+                    />
+                    $CASHTAGS in title and text
+                  </label>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Symbols to match in title and text</label>
+                  <input
+                    type="text"
+                    value={symbolInput}
+                    onChange={(e) => setSymbolInput(e.target.value)}
+                    placeholder="BTC, ETH, SOL"
+                    className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Name aliases (one per line)</label>
+                  <textarea
+                    value={aliasInput}
+                    onChange={(e) => setAliasInput(e.target.value)}
+                    rows={3}
+                    placeholder={'bitcoin = BTC\nethereum = ETH'}
+                    className="w-full px-3 py-1.5 text-sm font-mono border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                </div>
+              </div>
+
+              {/* Offline check against a saved copy of the feed */}
+              <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">Check with a feed file</div>
+                    <p className="text-xs text-gray-500">The backend parses a saved copy of the feed with these settings, as polling would. Nothing is fetched or saved.</p>
+                  </div>
+                  <label className="flex items-center gap-2 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 cursor-pointer">
+                    <FileUp className="w-4 h-4" />
+                    {fixture ? 'Change file' : 'Choose file'}
+                    <input
+                      type="file"
+                      accept=".xml,.rss,.atom,.json,.txt"
+                      className="hidden"
+                      onChange={(e) => {
+                        handleFixture(e.target.files?.[0])
+                        e.target.value = ''
+                      }}
+                    />
+                  </label>
+                </div>
+
+                {fixture && previewMutation.isPending && (
+                  <div className="text-sm text-gray-500">Checking {fixture.name}...</div>
+                )}
+                {fixture && previewMutation.isError && (
+                  <div className="text-sm text-red-600">Failed to check {fixture.name}</div>
+                )}
+                {fixture && !previewMutation.isPending && (previewIsStale || previewMutation.isError) && (
+                  <div className="flex items-center gap-2 text-xs text-gray-600">
+                    {previewIsStale && 'Settings changed since this check.'}
+                    <button
+                      type="button"
+                      onClick={() => previewMutation.mutate({ source: draft, content: fixture.content })}
+                      className="flex items-center gap-1 text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      <RefreshCw className="w-3 h-3" />
+                      Check again
+                    </button>
+                  </div>
+                )}
+                {fixture && preview && !previewMutation.isPending && (
+                  <div className="space-y-2">
+                    <div className="text-sm text-gray-700">
+                      <span className="font-medium">{fixture.name}</span>: {preview.articles.length} articles
+                      {preview.errors.length > 0 && <span className="text-red-600">, {preview.errors.length} problems</span>}
+                    </div>
+                    {preview.errors.length > 0 && (
+                      <ul className="text-xs text-red-600 space-y-0.5 max-h-24 overflow-y-auto">
+                        {preview.errors.map(problem => <li key={problem}>{problem}</li>)}
+                      </ul>
+                    )}
+                    {preview.articles.length > 0 && (
+                      <table className="w-full text-xs">
+                        <thead className="text-gray-500 uppercase">
+                          <tr>
+                            <th className="py-1 text-left">Date</th>
+                            <th className="py-1 text-left">Title</th>
+                            <th className="py-1 text-left">Tickers</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {preview.articles.slice(0, PREVIEW_LIMIT).map(article => (
+                            <tr key={article.article_url} className="align-top">
+                              <td className="py-1 pr-2 whitespace-nowrap text-gray-500">{formatDateTime(article.date)}</td>
+                              <td className="py-1 pr-2 text-gray-900">{article.title}</td>
+                              <td className="py-1">
+                                {article.tickers.length > 0
+                                  ? article.tickers.join(', ')
+                                  : <span className="text-gray-400">none</span>}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    {preview.articles.length > PREVIEW_LIMIT && (
+                      <p className="text-xs text-gray-500">Showing the first {PREVIEW_LIMIT}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {validationErrors.length > 0 && (draft.name || draft.url) && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {validationErrors.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={validationErrors.length > 0 || saveMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save Source'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
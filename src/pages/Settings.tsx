@@ -1,6 +1,7 @@
 import { useState } from 'react'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { api } from '../lib/api'
+import { NewsRetentionSettings } from '../components/NewsRetentionSettings'
 import { Database, Download, Upload, Clock, FileText, AlertCircle, CheckCircle } from 'lucide-react'
 
 interface BackupFile {
@@ -177,6 +178,8 @@ export function Settings() {
         </div>
       </div>
 
+      <NewsRetentionSettings />
+
       {/* System Settings */}
       <div className="bg-white rounded-lg border border-gray-200 p-6">
         <h2 className="text-xl font-semibold text-gray-900 mb-4">System Settings</h2>
@@ -0,0 +1,500 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { createTagDefinition, deleteTagDefinition, fetchTagTaxonomy, mergeTags, updateTagDefinition } from '../lib/api'
+import {
+  UNCATEGORISED,
+  areSimilarTags,
+  buildTagRows,
+  findTagConflicts,
+  getTagCategories,
+  normaliseTag,
+  uniqueTags,
+  type TagRow,
+} from '../lib/tagTaxonomy'
+import type { TagDefinition, TagDefinitionInput } from '../types'
+import { CheckCircle, GitMerge, Pencil, Plus, Search, Star, Tags, Trash2, X } from 'lucide-react'
+
+const EMPTY_TAG: TagDefinitionInput = {
+  name: '',
+  synonyms: [],
+  category: null,
+}
+
+export function TagTaxonomy() {
+  const queryClient = useQueryClient()
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  // null = editor closed, 'new' = creating, number = editing that definition
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<TagDefinitionInput>(EMPTY_TAG)
+  const [synonymInput, setSynonymInput] = useState('')
+  const [saveError, setSaveError] = useState('')
+  const [mergeSources, setMergeSources] = useState<string[] | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [keepAsSynonyms, setKeepAsSynonyms] = useState(true)
+  const [mergeMessage, setMergeMessage] = useState('')
+
+  const { data: taxonomy, isLoading, error } = useQuery({
+    queryKey: ['tag-taxonomy'],
+    queryFn: fetchTagTaxonomy,
+  })
+
+  const definitions = taxonomy?.tags || []
+  const rows = taxonomy ? buildTagRows(taxonomy) : []
+  const categories = getTagCategories(definitions)
+
+  const query = normaliseTag(search)
+  const visibleRows = rows.filter(row => {
+    if (query && !normaliseTag(row.tag).includes(query) && !row.definition?.synonyms.some(s => normaliseTag(s).includes(query))) {
+      return false
+    }
+    if (category === UNCATEGORISED) return !row.definition?.category
+    return !category || row.definition?.category === category
+  })
+
+  // Group by category; tags in use without a definition fall under Uncategorised
+  const groups = [...categories, UNCATEGORISED]
+    .map(name => ({
+      name,
+      rows: visibleRows.filter(row => (row.definition?.category || UNCATEGORISED) === name),
+    }))
+    .filter(group => group.rows.length > 0)
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['tag-taxonomy'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (tag: TagDefinitionInput) =>
+      editingId === 'new' || editingId === null
+        ? createTagDefinition(tag)
+        : updateTagDefinition(editingId, tag),
+    onSuccess: () => {
+      invalidate()
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save tag')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTagDefinition,
+    onSuccess: invalidate,
+  })
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ sources, target }: { sources: string[]; target: string }) => mergeTags(sources, target, keepAsSynonyms),
+    onSuccess: (result, { sources, target }) => {
+      invalidate()
+      // Rewritten tags change what alert and article lists show
+      queryClient.invalidateQueries({ queryKey: ['alerts'] })
+      queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+      setMergeSources(null)
+      setSelected(new Set())
+      setMergeMessage(
+        `Merged ${sources.join(', ')} into "${target}": ${result.alertsUpdated} alerts and ${result.articlesUpdated} articles updated`
+      )
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to merge tags')
+    },
+  })
+
+  const openEditor = (definition?: TagDefinition, name = '') => {
+    setForm(definition
+      ? { name: definition.name, synonyms: definition.synonyms, category: definition.category }
+      : { ...EMPTY_TAG, name: normaliseTag(name) })
+    setSynonymInput(definition ? definition.synonyms.join(', ') : '')
+    setSaveError('')
+    setEditingId(definition ? definition.id : 'new')
+  }
+
+  const openMerge = (sources: string[], target = '') => {
+    setMergeSources(sources)
+    // Default to the canonical tag among the sources, else the most used one
+    const ranked = rows.filter(row => sources.includes(row.tag))
+    const canonical = ranked.find(row => row.definition)
+    setMergeTarget(target || canonical?.tag || normaliseTag(ranked[0]?.tag || sources[0]))
+    setKeepAsSynonyms(true)
+  }
+
+  const toggleSelected = (tag: string) => {
+    const next = new Set(selected)
+    if (next.has(tag)) {
+      next.delete(tag)
+    } else {
+      next.add(tag)
+    }
+    setSelected(next)
+  }
+
+  const formInput = { name: normaliseTag(form.name), synonyms: uniqueTags(synonymInput.split(',')) }
+  const conflicts = findTagConflicts(formInput, definitions, editingId === 'new' ? undefined : editingId ?? undefined)
+  const canSave = Boolean(formInput.name) && conflicts.length === 0
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    saveMutation.mutate({
+      name: formInput.name,
+      synonyms: formInput.synonyms.filter(s => s !== formInput.name),
+      category: form.category?.trim() || null,
+    })
+  }
+
+  const mergeRows = rows.filter(row => mergeSources?.includes(row.tag))
+  const normalisedTarget = normaliseTag(mergeTarget)
+
+  // Unmerged spellings of canonical tags, e.g. "Hack" next to "hack"
+  const strayCount = rows.filter(row => row.synonymOf || (!row.definition && definitions.some(d => areSimilarTags(row.tag, d.name)))).length
+
+  const renderRow = (row: TagRow) => {
+    const similar = !row.definition && !row.synonymOf
+      ? definitions.find(d => areSimilarTags(row.tag, d.name))
+      : undefined
+    const mergeInto = row.synonymOf || similar?.name
+
+    return (
+      <tr key={row.tag} className={`hover:bg-gray-50 ${selected.has(row.tag) ? 'bg-primary-50' : ''}`}>
+        <td className="px-4 py-3">
+          <input type="checkbox" checked={selected.has(row.tag)} onChange={() => toggleSelected(row.tag)} />
+        </td>
+        <td className="px-4 py-3">
+          <div className="flex items-center gap-2">
+            {row.definition && <Star className="w-3 h-3 text-primary-600 fill-current" aria-label="Canonical tag" />}
+            <span className="font-medium text-gray-900">{row.tag}</span>
+            {row.synonymOf && (
+              <span className="text-xs text-gray-500">synonym of {row.synonymOf}</span>
+            )}
+            {similar && (
+              <span className="text-xs text-amber-700">looks like {similar.name}</span>
+            )}
+          </div>
+          {row.definition && row.definition.synonyms.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-1">
+              {row.definition.synonyms.map(synonym => (
+                <span key={synonym} className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">{synonym}</span>
+              ))}
+            </div>
+          )}
+        </td>
+        <td className="px-4 py-3 text-right text-sm text-gray-700">{row.alerts}</td>
+        <td className="px-4 py-3 text-right text-sm text-gray-700">{row.articles}</td>
+        <td className="px-4 py-3">
+          <div className="flex items-center justify-end gap-3 text-sm">
+            {mergeInto && (
+              <button
+                onClick={() => openMerge([row.tag], mergeInto)}
+                className="flex items-center gap-1 text-primary-600 hover:text-primary-900"
+              >
+                <GitMerge className="w-4 h-4" />
+                Merge into {mergeInto}
+              </button>
+            )}
+            {row.definition ? (
+              <>
+                <button onClick={() => openEditor(row.definition)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (confirm(`Remove "${row.tag}" from the canonical list? Alerts keep the tag.`)) {
+                      deleteMutation.mutate(row.definition!.id)
+                    }
+                  }}
+                  className="text-red-600 hover:text-red-900"
+                  title="Delete definition"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            ) : !row.synonymOf && (
+              <button onClick={() => openEditor(undefined, row.tag)} className="text-gray-600 hover:text-gray-900">
+                Make canonical
+              </button>
+            )}
+          </div>
+        </td>
+      </tr>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Tag Taxonomy</h1>
+          <p className="text-gray-600 mt-2">
+            Canonical tags, synonyms and categories for alert tags and article topics
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+        >
+          <Plus className="w-5 h-5" />
+          New Canonical Tag
+        </button>
+      </div>
+
+      {mergeMessage && (
+        <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          <CheckCircle className="w-4 h-4" />
+          {mergeMessage}
+          <button onClick={() => setMergeMessage('')} className="ml-auto text-green-700 hover:text-green-900">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search tags and synonyms..."
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+        >
+          <option value="">All categories</option>
+          {[...categories, UNCATEGORISED].map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        {strayCount > 0 && (
+          <span className="text-sm text-amber-700">{strayCount} tags look like spellings of a canonical tag</span>
+        )}
+      </div>
+
+      {/* Merge toolbar */}
+      {selected.size > 0 && (
+        <div className="flex items-center gap-3 p-3 bg-primary-50 border border-primary-200 rounded-lg text-sm">
+          <span className="font-medium text-primary-900">{selected.size} selected</span>
+          <button
+            onClick={() => openMerge([...selected])}
+            disabled={selected.size < 2}
+            className="flex items-center gap-1 px-3 py-1 bg-primary-600 hover:bg-primary-700 text-white rounded disabled:opacity-50"
+          >
+            <GitMerge className="w-4 h-4" />
+            Merge tags
+          </button>
+          <button onClick={() => setSelected(new Set())} className="ml-auto text-primary-700 hover:text-primary-900">
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {/* Tag list */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading tags</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading tags...</div>
+        ) : groups.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <Tags className="w-8 h-8 text-gray-300" />
+            {rows.length === 0 ? 'No tags in use yet' : 'No tags match your search'}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 w-8"></th>
+                <th className="px-4 py-3 text-left">Tag</th>
+                <th className="px-4 py-3 text-right">Alerts</th>
+                <th className="px-4 py-3 text-right">Articles</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            {groups.map(group => (
+              <tbody key={group.name} className="divide-y divide-gray-200">
+                <tr className="bg-gray-50">
+                  <td colSpan={5} className="px-4 py-2 text-xs font-semibold text-gray-600 uppercase">
+                    {group.name} ({group.rows.length})
+                  </td>
+                </tr>
+                {group.rows.map(renderRow)}
+              </tbody>
+            ))}
+          </table>
+        )}
+      </div>
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Canonical Tag' : 'Edit Canonical Tag'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="hack"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                {form.name && formInput.name !== form.name && (
+                  <p className="text-xs text-gray-500 mt-1">Saved as "{formInput.name}"</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Synonyms (comma-separated)</label>
+                <input
+                  type="text"
+                  value={synonymInput}
+                  onChange={(e) => setSynonymInput(e.target.value)}
+                  placeholder="hacked, exploit, security-breach"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Typing a synonym in an alert form adds the canonical tag instead. Use merge to rewrite existing alerts.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <input
+                  type="text"
+                  list="tag-categories"
+                  value={form.category || ''}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  placeholder="Security, Exchange, Governance..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                <datalist id="tag-categories">
+                  {categories.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+
+              {conflicts.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+                </ul>
+              )}
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!canSave || saveMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save Tag'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Merge confirmation */}
+      {mergeSources && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">Merge Tags</h2>
+              <button onClick={() => setMergeSources(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase">
+                    <th className="text-left font-medium py-1">Tag</th>
+                    <th className="text-right font-medium py-1">Alerts</th>
+                    <th className="text-right font-medium py-1">Articles</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {mergeRows.map(row => (
+                    <tr key={row.tag} className="text-gray-700">
+                      <td className="py-1 font-medium">{row.tag}</td>
+                      <td className="py-1 text-right">{row.alerts}</td>
+                      <td className="py-1 text-right">{row.articles}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Merge into</label>
+                <input
+                  type="text"
+                  list="canonical-tags"
+                  value={mergeTarget}
+                  onChange={(e) => setMergeTarget(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                <datalist id="canonical-tags">
+                  {definitions.map(d => <option key={d.id} value={d.name} />)}
+                </datalist>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={keepAsSynonyms} onChange={(e) => setKeepAsSynonyms(e.target.checked)} />
+                Keep the merged names as synonyms of "{normalisedTarget || '...'}"
+              </label>
+
+              <p className="text-sm text-gray-600">
+                Rewrites the tag on {mergeRows.reduce((sum, row) => sum + row.alerts, 0)} alerts and the topic
+                on {mergeRows.reduce((sum, row) => sum + row.articles, 0)} articles. This can't be undone from here.
+              </p>
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  onClick={() => setMergeSources(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => mergeMutation.mutate({
+                    sources: mergeSources.filter(tag => tag !== normalisedTarget),
+                    target: normalisedTarget,
+                  })}
+                  disabled={!normalisedTarget || mergeMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {mergeMutation.isPending ? 'Merging...' : 'Merge'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,455 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  createTickerDefinition,
+  deleteTickerDefinition,
+  fetchTickerRegistry,
+  ignoreTickers,
+  mapUnknownTickers,
+  unignoreTicker,
+  updateTickerDefinition,
+} from '../lib/api'
+import { buildTickerIndex, findTickerConflicts, getTickerChains, tickerKey } from '../lib/tickerRegistry'
+import type { TickerDefinition, TickerDefinitionInput } from '../types'
+import { Ban, CheckCircle, Coins, GitMerge, Pencil, Plus, RotateCcw, Search, Trash2, X } from 'lucide-react'
+
+const EMPTY_TICKER: TickerDefinitionInput = {
+  symbol: '',
+  name: '',
+  aliases: [],
+  chain: null,
+}
+
+export function TickerRegistry() {
+  const queryClient = useQueryClient()
+  const [search, setSearch] = useState('')
+  const [chain, setChain] = useState('')
+  // null = editor closed, 'new' = creating, number = editing that definition
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<TickerDefinitionInput>(EMPTY_TICKER)
+  const [aliasInput, setAliasInput] = useState('')
+  const [saveError, setSaveError] = useState('')
+  // Symbol typed next to each queued ticker
+  const [mapTargets, setMapTargets] = useState<Record<string, string>>({})
+  const [message, setMessage] = useState('')
+
+  const { data: registry, isLoading, error } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+  })
+
+  const definitions = registry?.tickers || []
+  const unknown = registry?.unknown || []
+  const ignored = registry?.ignored || []
+  const chains = getTickerChains(definitions)
+  const index = buildTickerIndex(definitions)
+
+  const query = tickerKey(search)
+  const visibleTickers = definitions
+    .filter(d => !query || [d.symbol, d.name, ...d.aliases].some(value => tickerKey(value).includes(query)))
+    .filter(d => !chain || d.chain === chain)
+    .sort((a, b) => a.symbol.localeCompare(b.symbol))
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['ticker-registry'] })
+    // Rewritten tickers change what the News Feed and stats show
+    queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+    queryClient.invalidateQueries({ queryKey: ['news-stats'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (ticker: TickerDefinitionInput) =>
+      editingId === 'new' || editingId === null
+        ? createTickerDefinition(ticker)
+        : updateTickerDefinition(editingId, ticker),
+    onSuccess: () => {
+      invalidate()
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save ticker')
+    },
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteTickerDefinition,
+    onSuccess: invalidate,
+  })
+
+  const mapMutation = useMutation({
+    mutationFn: ({ ticker, symbol }: { ticker: string; symbol: string }) => mapUnknownTickers([ticker], symbol),
+    onSuccess: (result, { ticker, symbol }) => {
+      invalidate()
+      setMessage(`${ticker} is now an alias of ${symbol}: ${result.articlesUpdated} articles updated`)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to map ticker')
+    },
+  })
+
+  const ignoreMutation = useMutation({
+    mutationFn: (ticker: string) => ignoreTickers([ticker]),
+    onSuccess: (result, ticker) => {
+      invalidate()
+      setMessage(`Ignoring ${ticker}: removed from ${result.articlesUpdated} articles`)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      alert(error.response?.data?.error || 'Failed to ignore ticker')
+    },
+  })
+
+  const unignoreMutation = useMutation({
+    mutationFn: unignoreTicker,
+    onSuccess: invalidate,
+  })
+
+  const openEditor = (definition?: TickerDefinition, symbol = '') => {
+    setForm(definition
+      ? { symbol: definition.symbol, name: definition.name, aliases: definition.aliases, chain: definition.chain }
+      : { ...EMPTY_TICKER, symbol: tickerKey(symbol) })
+    setAliasInput(definition ? definition.aliases.join(', ') : '')
+    setSaveError('')
+    setEditingId(definition ? definition.id : 'new')
+  }
+
+  const formInput = {
+    symbol: tickerKey(form.symbol),
+    name: form.name.trim(),
+    aliases: Array.from(new Set(aliasInput.split(',').map(tickerKey).filter(Boolean))),
+  }
+  const conflicts = findTickerConflicts(formInput, definitions, editingId === 'new' ? undefined : editingId ?? undefined)
+  const canSave = Boolean(formInput.symbol && formInput.name) && !formInput.symbol.includes(' ') && conflicts.length === 0
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!canSave) return
+    saveMutation.mutate({
+      symbol: formInput.symbol,
+      name: formInput.name,
+      aliases: formInput.aliases.filter(alias => alias !== formInput.symbol),
+      chain: form.chain?.trim().toLowerCase() || null,
+    })
+  }
+
+  const handleMap = (ticker: string) => {
+    const symbol = index.get(tickerKey(mapTargets[ticker] || ''))
+    if (!symbol) {
+      alert(`Add ${tickerKey(mapTargets[ticker] || '') || 'the symbol'} to the registry first`)
+      return
+    }
+    mapMutation.mutate({ ticker, symbol })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Ticker Registry</h1>
+          <p className="text-gray-600 mt-2">
+            Canonical symbols for article tickers, stats and alert tokens
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor()}
+          className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+        >
+          <Plus className="w-5 h-5" />
+          New Ticker
+        </button>
+      </div>
+
+      {message && (
+        <div className="flex items-center gap-2 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          <CheckCircle className="w-4 h-4" />
+          {message}
+          <button onClick={() => setMessage('')} className="ml-auto text-green-700 hover:text-green-900">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Review queue */}
+      {unknown.length > 0 && (
+        <div className="bg-white rounded-lg border border-amber-200 overflow-hidden">
+          <div className="px-4 py-3 bg-amber-50 border-b border-amber-200">
+            <h2 className="font-semibold text-amber-900">Unknown tickers ({unknown.length})</h2>
+            <p className="text-sm text-amber-800">
+              Seen in articles but not in the registry. Map each to a symbol, add it as a new ticker or ignore it.
+            </p>
+          </div>
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 text-left">Ticker</th>
+                <th className="px-4 py-3 text-right">Articles</th>
+                <th className="px-4 py-3 text-left">Last seen</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {unknown.map(item => (
+                <tr key={item.ticker} className="hover:bg-gray-50">
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{item.ticker}</div>
+                    {item.sample_title && (
+                      <div className="text-xs text-gray-500 line-clamp-1">{item.sample_title}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm text-gray-700">{item.articles}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{new Date(item.last_seen).toLocaleDateString()}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-3 text-sm">
+                      <input
+                        type="text"
+                        list="registry-symbols"
+                        value={mapTargets[item.ticker] || ''}
+                        onChange={(e) => setMapTargets({ ...mapTargets, [item.ticker]: e.target.value })}
+                        placeholder="Symbol"
+                        className="w-24 px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      />
+                      <button
+                        onClick={() => handleMap(item.ticker)}
+                        disabled={!mapTargets[item.ticker] || mapMutation.isPending}
+                        className="flex items-center gap-1 text-primary-600 hover:text-primary-900 disabled:opacity-50"
+                      >
+                        <GitMerge className="w-4 h-4" />
+                        Map
+                      </button>
+                      <button onClick={() => openEditor(undefined, item.ticker)} className="text-gray-600 hover:text-gray-900">
+                        Add as new
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Ignore "${item.ticker}"? It is removed from ${item.articles} articles and dropped from new ones.`)) {
+                            ignoreMutation.mutate(item.ticker)
+                          }
+                        }}
+                        className="flex items-center gap-1 text-red-600 hover:text-red-900"
+                      >
+                        <Ban className="w-4 h-4" />
+                        Ignore
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <datalist id="registry-symbols">
+            {definitions.map(d => <option key={d.id} value={d.symbol}>{d.name}</option>)}
+          </datalist>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search symbols, names and aliases..."
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+        </div>
+        <select
+          value={chain}
+          onChange={(e) => setChain(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+        >
+          <option value="">All chains</option>
+          {chains.map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Registry */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading tickers</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading tickers...</div>
+        ) : visibleTickers.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <Coins className="w-8 h-8 text-gray-300" />
+            {definitions.length === 0 ? 'No tickers defined yet' : 'No tickers match your search'}
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 text-left">Symbol</th>
+                <th className="px-4 py-3 text-left">Name</th>
+                <th className="px-4 py-3 text-left">Aliases</th>
+                <th className="px-4 py-3 text-left">Chain</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleTickers.map(definition => (
+                <tr key={definition.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-3 font-medium text-gray-900">{definition.symbol}</td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{definition.name}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {definition.aliases.map(alias => (
+                        <span key={alias} className="px-1.5 py-0.5 text-xs bg-gray-100 text-gray-600 rounded">{alias}</span>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-700">{definition.chain || '—'}</td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-3">
+                      <button onClick={() => openEditor(definition)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (confirm(`Remove ${definition.symbol} from the registry? Articles and alerts keep the symbol.`)) {
+                            deleteMutation.mutate(definition.id)
+                          }
+                        }}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Ignored */}
+      {ignored.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h2 className="text-sm font-semibold text-gray-700 mb-2">Ignored tickers</h2>
+          <div className="flex flex-wrap gap-2">
+            {ignored.map(ticker => (
+              <span key={ticker} className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-600 rounded">
+                {ticker}
+                <button
+                  onClick={() => unignoreMutation.mutate(ticker)}
+                  title={`Stop ignoring ${ticker}`}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Ticker' : 'Edit Ticker'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Symbol</label>
+                  <input
+                    type="text"
+                    value={form.symbol}
+                    onChange={(e) => setForm({ ...form, symbol: e.target.value })}
+                    placeholder="BTC"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                  {form.symbol && formInput.symbol !== form.symbol && (
+                    <p className="text-xs text-gray-500 mt-1">Saved as "{formInput.symbol}"</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Bitcoin"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Aliases (comma-separated)</label>
+                <input
+                  type="text"
+                  value={aliasInput}
+                  onChange={(e) => setAliasInput(e.target.value)}
+                  placeholder="XBT, WBTC"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The symbol, name and aliases all resolve to the symbol, with or without a leading $.
+                  Queued tickers that match are resolved when you save.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Chain</label>
+                <input
+                  type="text"
+                  list="ticker-chains"
+                  value={form.chain || ''}
+                  onChange={(e) => setForm({ ...form, chain: e.target.value })}
+                  placeholder="bitcoin, ethereum, solana..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                />
+                <datalist id="ticker-chains">
+                  {chains.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+
+              {formInput.symbol.includes(' ') && (
+                <p className="text-xs text-red-600">Enter one symbol without spaces; put other spellings in aliases</p>
+              )}
+              {conflicts.length > 0 && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+                </ul>
+              )}
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!canSave || saveMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save Ticker'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,438 @@
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { Link } from 'react-router-dom'
+import {
+  createWatchRule,
+  deleteWatchRule,
+  fetchAdminStats,
+  fetchNewsPage,
+  fetchTickerRegistry,
+  fetchWatchRuleHits,
+  fetchWatchRules,
+  updateWatchRule,
+} from '../lib/api'
+import {
+  EMPTY_WATCH_RULE,
+  describeWatchRule,
+  hasConditions,
+  matchWatchRule,
+  parseRuleConditions,
+  validateWatchRule,
+} from '../lib/watchRules'
+import { getTriageLabel } from '../lib/newsTriage'
+import { RuleConditionsFields } from '../components/RuleConditionsFields'
+import type { NewsTriageStatus, WatchRule, WatchRuleInput } from '../types'
+import { ChevronDown, ChevronRight, ExternalLink, Flag, FlaskConical, Pencil, Plus, Trash2, X } from 'lucide-react'
+
+// Recent articles a rule is tried against before saving
+const TEST_SAMPLE_SIZE = 100
+const PREVIEW_LIMIT = 10
+
+// Share of ignored hits above which a rule is probably too broad
+const NOISY_IGNORED_SHARE = 0.5
+
+const toInput = (rule: WatchRule): WatchRuleInput => ({
+  name: rule.name,
+  enabled: rule.enabled,
+  conditions: rule.conditions,
+})
+
+const formatDateTime = (dateStr: string) => {
+  return new Date(dateStr).toLocaleString('en-GB', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+/**
+ * Articles a rule flagged and what admins did with them
+ */
+function RuleHistory({ ruleId }: { ruleId: number }) {
+  const { data: hits = [], isLoading, error } = useQuery({
+    queryKey: ['watch-rule-hits', ruleId],
+    queryFn: () => fetchWatchRuleHits(ruleId),
+  })
+
+  if (error) return <div className="text-sm text-red-600">Error loading hits</div>
+  if (isLoading) return <div className="text-sm text-gray-500">Loading hits...</div>
+  if (hits.length === 0) return <div className="text-sm text-gray-500">No articles flagged yet</div>
+
+  const byStatus = hits.reduce<Partial<Record<NewsTriageStatus, number>>>((counts, hit) => {
+    counts[hit.triage_status] = (counts[hit.triage_status] || 0) + 1
+    return counts
+  }, {})
+  const ignoredShare = (byStatus.ignored || 0) / hits.length
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span>Last {hits.length} hits:</span>
+        {(['new', 'reviewed', 'ignored', 'actioned'] as const).map(status => (
+          <span key={status}>{getTriageLabel(status)}: {byStatus[status] || 0}</span>
+        ))}
+        {ignoredShare > NOISY_IGNORED_SHARE && (
+          <span className="text-amber-700 font-medium">
+            Noisy: {Math.round(ignoredShare * 100)}% of hits were ignored
+          </span>
+        )}
+      </div>
+      <ul className="divide-y divide-gray-100 text-sm">
+        {hits.map(hit => (
+          <li key={hit.article_url} className="py-2">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="font-medium">{hit.source_name}</span>
+              <span>•</span>
+              <span>{formatDateTime(hit.date)}</span>
+              <span>•</span>
+              <span>{getTriageLabel(hit.triage_status)}</span>
+              {hit.deleted && <span className="text-gray-400">• No longer cached</span>}
+            </div>
+            <a
+              href={hit.article_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-gray-900 hover:text-primary-600"
+            >
+              {hit.title}
+            </a>
+            <div className="flex flex-wrap gap-1 mt-1">
+              {hit.matched.map(reason => (
+                <span key={reason} className="px-1.5 py-0.5 text-xs bg-amber-50 text-amber-800 rounded">{reason}</span>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export function WatchRules() {
+  const queryClient = useQueryClient()
+  // null = editor closed, 'new' = creating, number = editing that rule
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null)
+  const [form, setForm] = useState<WatchRuleInput>(EMPTY_WATCH_RULE)
+  const [keywordInput, setKeywordInput] = useState('')
+  const [tickerInput, setTickerInput] = useState('')
+  const [saveError, setSaveError] = useState('')
+  const [testing, setTesting] = useState(false)
+  const [expandedRule, setExpandedRule] = useState<number | null>(null)
+
+  const { data: rules = [], isLoading, error } = useQuery({
+    queryKey: ['watch-rules'],
+    queryFn: fetchWatchRules,
+  })
+
+  const { data: tickerRegistry } = useQuery({
+    queryKey: ['ticker-registry'],
+    queryFn: fetchTickerRegistry,
+    enabled: editingId !== null,
+  })
+
+  // Watchlist counts, needed to test the minimum watchers condition
+  const { data: adminStats } = useQuery({
+    queryKey: ['admin-stats'],
+    queryFn: fetchAdminStats,
+    enabled: testing,
+  })
+
+  const { data: sample, isFetching: isLoadingSample } = useQuery({
+    queryKey: ['news-cache', 'watch-rule-sample'],
+    queryFn: () => fetchNewsPage({ page: 1, limit: TEST_SAMPLE_SIZE }),
+    enabled: testing,
+  })
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['watch-rules'] })
+    queryClient.invalidateQueries({ queryKey: ['watch-rule-hits'] })
+    // Saving re-flags the cache
+    queryClient.invalidateQueries({ queryKey: ['news-cache'] })
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: (rule: WatchRuleInput) =>
+      editingId === 'new' || editingId === null
+        ? createWatchRule(rule)
+        : updateWatchRule(editingId, rule),
+    onSuccess: () => {
+      invalidate()
+      setEditingId(null)
+    },
+    onError: (err: unknown) => {
+      const error = err as { response?: { data?: { error?: string } } }
+      setSaveError(error.response?.data?.error || 'Failed to save rule')
+    },
+  })
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: WatchRule) => updateWatchRule(rule.id, { ...toInput(rule), enabled: !rule.enabled }),
+    onSuccess: invalidate,
+  })
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteWatchRule,
+    onSuccess: invalidate,
+  })
+
+  const openEditor = (rule?: WatchRule) => {
+    const input = rule ? toInput(rule) : EMPTY_WATCH_RULE
+    setForm(input)
+    setKeywordInput(input.conditions.keywords.join(', '))
+    setTickerInput(input.conditions.tickers.join(', '))
+    setSaveError('')
+    setTesting(false)
+    setEditingId(rule ? rule.id : 'new')
+  }
+
+  // The form as it would be saved, with the free-text fields parsed
+  const draft: WatchRuleInput = {
+    ...form,
+    name: form.name.trim(),
+    conditions: parseRuleConditions(form.conditions, keywordInput, tickerInput, tickerRegistry?.tickers || []),
+  }
+  const validationErrors = validateWatchRule(draft)
+
+  const testMatches = testing && sample && validationErrors.length === 0
+    ? sample.articles.flatMap(article => {
+        const reasons = matchWatchRule(article, draft.conditions, adminStats?.users.watchlistTokens)
+        return reasons ? [{ article, reasons }] : []
+      })
+    : []
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (validationErrors.length > 0) return
+    saveMutation.mutate(draft)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Watch Rules</h1>
+          <p className="text-gray-600 mt-2">Flag incoming articles by keyword, pattern, ticker, source or sentiment</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Link
+            to="/news?flagged=any&status=all"
+            className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+          >
+            <Flag className="w-4 h-4" />
+            Flagged Articles
+          </Link>
+          <button
+            onClick={() => openEditor()}
+            className="flex items-center gap-2 bg-primary-600 hover:bg-primary-700 text-white px-4 py-2 rounded-lg transition"
+          >
+            <Plus className="w-5 h-5" />
+            New Rule
+          </button>
+        </div>
+      </div>
+
+      {/* Rule list */}
+      <div className="bg-white rounded-lg border border-gray-200 overflow-hidden">
+        {error ? (
+          <div className="p-8 text-center text-red-600">Error loading rules</div>
+        ) : isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-8 text-center text-gray-500 flex flex-col items-center gap-2">
+            <Flag className="w-8 h-8 text-gray-300" />
+            No watch rules yet
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr className="text-xs font-medium text-gray-500 uppercase">
+                <th className="px-4 py-3 text-left">Rule</th>
+                <th className="px-4 py-3 text-left">Enabled</th>
+                <th className="px-4 py-3 text-right">Hits (7d)</th>
+                <th className="px-4 py-3 text-right">Hits (all)</th>
+                <th className="px-4 py-3 text-left">Last Hit</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            {rules.map(rule => {
+              const isExpanded = expandedRule === rule.id
+              return (
+                <tbody key={rule.id} className="divide-y divide-gray-200 border-b border-gray-200">
+                  <tr className={`align-top ${rule.enabled ? '' : 'bg-gray-50 text-gray-500'}`}>
+                    <td className="px-4 py-3">
+                      <button
+                        onClick={() => setExpandedRule(isExpanded ? null : rule.id)}
+                        className="flex items-center gap-1 font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {rule.name}
+                      </button>
+                      <div className="ml-5 text-xs text-gray-500">{describeWatchRule(rule.conditions)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        disabled={toggleMutation.isPending}
+                        onChange={() => toggleMutation.mutate(rule)}
+                      />
+                    </td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{rule.hits_7d}</td>
+                    <td className="px-4 py-3 text-right text-sm text-gray-700">{rule.hit_count}</td>
+                    <td className="px-4 py-3 text-sm">
+                      {rule.last_hit_at ? formatDateTime(rule.last_hit_at) : <span className="text-gray-400">Never</span>}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-3">
+                        <Link
+                          to={`/news?flagged=${rule.id}&status=all`}
+                          className="text-gray-600 hover:text-gray-900"
+                          title="Show flagged articles in the News Feed"
+                        >
+                          <ExternalLink className="w-4 h-4" />
+                        </Link>
+                        <button onClick={() => openEditor(rule)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm(`Delete "${rule.name}"? Its flags are removed from articles.`)) {
+                              deleteMutation.mutate(rule.id)
+                            }
+                          }}
+                          className="text-red-600 hover:text-red-900"
+                          title="Delete rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr>
+                      <td colSpan={6} className="px-9 py-3 bg-gray-50">
+                        <RuleHistory ruleId={rule.id} />
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              )
+            })}
+          </table>
+        )}
+      </div>
+
+      {/* Editor */}
+      {editingId !== null && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {editingId === 'new' ? 'New Watch Rule' : 'Edit Watch Rule'}
+              </h2>
+              <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSave} className="p-6 space-y-4">
+              <div className="flex items-end gap-4">
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Exploits and drained funds"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  />
+                </div>
+                <label className="flex items-center gap-2 pb-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} />
+                  Enabled
+                </label>
+              </div>
+
+              <p className="text-sm text-gray-600">
+                Articles are flagged when every condition you fill in matches. Within a condition, any value may match.
+              </p>
+
+              <RuleConditionsFields
+                conditions={form.conditions}
+                keywordInput={keywordInput}
+                tickerInput={tickerInput}
+                onChange={(changes) => setForm({ ...form, conditions: { ...form.conditions, ...changes } })}
+                onKeywordInputChange={setKeywordInput}
+                onTickerInputChange={setTickerInput}
+              />
+
+              {/* Try the rule on recent articles */}
+              <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-700">Test on recent articles</span>
+                  <button
+                    type="button"
+                    onClick={() => setTesting(true)}
+                    disabled={validationErrors.length > 0}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <FlaskConical className="w-4 h-4" />
+                    Test rule
+                  </button>
+                </div>
+                {testing && (isLoadingSample && !sample ? (
+                  <p className="text-sm text-gray-500">Loading articles...</p>
+                ) : sample && (
+                  <>
+                    <p className="text-sm text-gray-600">
+                      Matches {testMatches.length} of the {sample.articles.length} most recent articles
+                    </p>
+                    <ul className="divide-y divide-gray-100 text-sm">
+                      {testMatches.slice(0, PREVIEW_LIMIT).map(({ article, reasons }) => (
+                        <li key={article.article_url} className="py-1.5">
+                          <span className="font-medium text-gray-900">{article.source_name}</span>{' '}
+                          <span className="text-gray-700">{article.title}</span>
+                          <div className="text-xs text-amber-700">{reasons.join(', ')}</div>
+                        </li>
+                      ))}
+                    </ul>
+                    {testMatches.length > PREVIEW_LIMIT && (
+                      <p className="text-xs text-gray-500">and {testMatches.length - PREVIEW_LIMIT} more</p>
+                    )}
+                  </>
+                ))}
+              </div>
+
+              {validationErrors.length > 0 && (draft.name || hasConditions(draft.conditions)) && (
+                <ul className="text-xs text-red-600 space-y-0.5">
+                  {validationErrors.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+              {saveError && <div className="text-sm text-red-600">{saveError}</div>}
+
+              <div className="flex justify-end gap-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setEditingId(null)}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={validationErrors.length > 0 || saveMutation.isPending}
+                  className="px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition disabled:opacity-50"
+                >
+                  {saveMutation.isPending ? 'Saving...' : 'Save Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,9 @@ import { persist } from 'zustand/middleware'
 
 interface AuthState {
   token: string | null
+  adminName: string | null        // Recorded as the author of edits and approvals
   isAuthenticated: boolean
-  login: (token: string) => void
+  login: (token: string, adminName: string) => void
   logout: () => void
 }
 
@@ -12,14 +13,17 @@ export const useAuthStore = create<AuthState>()(
   persist(
     (set) => ({
       token: null as string | null,
+      adminName: null as string | null,
       isAuthenticated: false as boolean,
-      login: (token: string) => {
+      login: (token: string, adminName: string) => {
         localStorage.setItem('admin_token', token)
-        set({ token, isAuthenticated: true })
+        localStorage.setItem('admin_name', adminName)
+        set({ token, adminName, isAuthenticated: true })
       },
       logout: () => {
         localStorage.removeItem('admin_token')
-        set({ token: null, isAuthenticated: false })
+        localStorage.removeItem('admin_name')
+        set({ token: null, adminName: null, isAuthenticated: false })
       },
     }),
     {
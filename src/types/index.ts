@@ -10,23 +10,230 @@ export interface NewsArticle {
   tickers: string[]             // Array of token symbols ["BTC", "ETH"]
   topics: string[]              // Array of topics (future use)
   image_url: string | null
-  expires_at: string            // ISO datetime
+  expires_at: string            // ISO datetime; ignored while pinned or linked to an alert
+  pinned?: boolean              // Pinned articles never expire
   created_at: string            // ISO datetime
   alert_created?: boolean       // Whether an alert has been created from this article
+  linked_alerts?: ArticleAlertLink[]  // Alerts citing this article as a source
+  triage_status?: NewsTriageStatus  // Missing means 'new'
+  triaged_at?: string | null    // When the status last changed
+  triaged_by?: string | null    // Admin who changed it; null when set automatically
+  flags?: ArticleFlag[]         // Watch rules the article matched
 }
 
+export interface ArticleFlag {
+  rule_id: number
+  rule_name: string
+  matched: string[]             // Why it matched, e.g. ['"exploit"', 'negative']
+}
+
+export type NewsTriageStatus = 'new' | 'reviewed' | 'ignored' | 'actioned'
+
+export interface NewsPage {
+  articles: NewsArticle[]
+  total: number                 // Articles matching every filter, across all pages
+  page: number
+  limit: number
+  counts: {
+    bySentiment: Record<'positive' | 'neutral' | 'negative' | 'none', number>  // Respects every filter
+    bySource: Array<{ source_name: string; count: number }>                    // Ignores the source filter so every source stays selectable
+    byStatus?: Record<NewsTriageStatus, number>                                 // Ignores the status filter
+  }
+}
+
+export interface ArticleAlertLink {
+  id: number
+  title: string
+  severity: 'critical' | 'warning' | 'info'
+  status: AlertStatus
+}
+
+/**
+ * A news article an alert was based on. Article fields are copied when the link
+ * is made, so provenance survives the article expiring from the news cache.
+ */
+export interface AlertSource {
+  article_url: string
+  title: string
+  source_name: string
+  date: string                  // Article publish date, ISO datetime
+  sentiment: 'positive' | 'neutral' | 'negative' | null
+  in_cache: boolean             // false once the article has expired or been deleted
+  linked_by: string | null      // Admin name from the X-Admin-User header
+  linked_at: string
+}
+
+export type AlertStatus = 'draft' | 'pending_approval' | 'changes_requested' | 'scheduled' | 'published' | 'expired' | 'archived'
+
 export interface Alert {
   id: number
-  token: string                 // e.g., 'BTC', 'ETH', 'SOL'
+  token: string                 // Primary token, e.g., 'BTC', 'ETH', 'SOL'
+  tokens: string[]              // Every targeted token, primary first ["ETH", "ARB", "OP"]
   title: string
   body: string | null
   severity: 'critical' | 'warning' | 'info'
   tags: string[]                // Array of tags ["hack", "exploit"]
-  deadline: string | null       // ISO datetime
+  deadline: string | null       // ISO datetime; alert expires then and is archived afterwards
+  status: AlertStatus
+  publish_at: string | null     // ISO datetime a scheduled alert goes live
+  submitted_by?: string | null  // Admin who last submitted the alert for approval
+  submitted_at?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Payload for creating an alert
+export interface NewAlertInput {
+  token: string                 // Primary token
+  tokens?: string[]             // All targeted tokens including the primary
+  title: string
+  body?: string                 // Markdown
+  body_plain?: string           // Plain-text fallback for channels that can't render Markdown
+  severity: 'critical' | 'warning' | 'info'
+  tags?: string[]
+  deadline?: string
+  source_url?: string           // News article the alert came from
+  source_urls?: string[]        // Every news article the alert is based on; linked as provenance
+  status?: 'draft' | 'pending_approval' | 'scheduled' | 'published'  // Defaults to published on the backend
+  publish_at?: string           // Required when status is 'scheduled'
+}
+
+export interface AlertPage<T = Alert> {
+  alerts: T[]
+  total: number                 // Alerts matching every filter, across all pages
+  page: number
+  limit: number
+  counts: {
+    byStatus: Record<AlertStatus, number>                       // Ignores the status filter so tabs show totals
+    bySeverity: Record<'critical' | 'warning' | 'info', number> // Respects every filter
+  }
+}
+
+export type AlertBulkAction =
+  | { type: 'severity'; severity: 'critical' | 'warning' | 'info' }
+  | { type: 'add_tags'; tags: string[] }
+  | { type: 'remove_tags'; tags: string[] }
+  | { type: 'shift_deadline'; days: number }    // Negative days move deadlines earlier
+  | { type: 'archive' }
+  | { type: 'delete' }
+
+export type NewsBulkAction =
+  | { type: 'sentiment'; sentiment: 'positive' | 'neutral' | 'negative' }
+  | { type: 'add_tickers'; tickers: string[] }
+  | { type: 'remove_tickers'; tickers: string[] }
+  | { type: 'shift_expiry'; days: number }      // Negative days expire articles sooner
+  | { type: 'pin'; pinned: boolean }
+  | { type: 'triage'; status: NewsTriageStatus }
+  | { type: 'delete' }
+
+export interface BulkActionResult {
+  id: string | number
+  ok: boolean
+  error?: string                // Why this item was not changed
+}
+
+export interface AlertRevision {
+  id: number
+  alert_id: string | number
+  revision: number              // 1 = as first saved, increments on every edit
+  snapshot: {
+    token: string
+    tokens?: string[]
+    title: string
+    description: string | null
+    severity: 'critical' | 'warning' | 'info'
+    tags: string[]
+    deadline: string | null
+  }
+  edited_by: string | null      // Admin name from the X-Admin-User header
+  created_at: string            // ISO datetime the revision was saved
+}
+
+export type ApprovalSeverity = 'critical' | 'warning'
+
+export interface ApprovalPolicy {
+  severities: ApprovalSeverity[]  // Severities that need a second admin before going live; always includes critical
+}
+
+export interface AlertApprovalDecision {
+  id: number
+  alert_id: string | number
+  decision: 'submitted' | 'approved' | 'changes_requested'
+  comment: string | null
+  decided_by: string            // Admin name from the X-Admin-User header
+  created_at: string
+}
+
+export interface AlertTemplate {
+  id: number
+  name: string                  // e.g. "Exchange withdrawal pause"
+  title: string                 // May contain {{token}}, {{date}} and {{url}} placeholders
+  body: string
+  severity: 'critical' | 'warning' | 'info'
+  tags: string[]
+  created_at: string
+  updated_at: string
+}
+
+export type AlertTemplateInput = Pick<AlertTemplate, 'name' | 'title' | 'body' | 'severity' | 'tags'>
+
+export interface TagDefinition {
+  id: number
+  name: string                  // Canonical tag, lowercase
+  synonyms: string[]            // Variants that are rewritten to name
+  category: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type TagDefinitionInput = Pick<TagDefinition, 'name' | 'synonyms' | 'category'>
+
+export interface TagUsage {
+  tag: string                   // Exactly as stored on alerts and articles
+  alerts: number                // Alerts carrying the tag
+  articles: number              // Articles carrying it as a topic
+}
+
+export interface TagTaxonomy {
+  tags: TagDefinition[]
+  usage: TagUsage[]
+}
+
+export interface TagMergeResult {
+  alertsUpdated: number
+  articlesUpdated: number
+}
+
+export interface TickerDefinition {
+  id: number
+  symbol: string                // Canonical symbol, uppercase without $
+  name: string                  // e.g. "Bitcoin"
+  aliases: string[]             // Other symbols and names rewritten to symbol, e.g. "XBT", "bitcoin"
+  chain: string | null          // e.g. "bitcoin", "ethereum"
   created_at: string
   updated_at: string
 }
 
+export type TickerDefinitionInput = Pick<TickerDefinition, 'symbol' | 'name' | 'aliases' | 'chain'>
+
+export interface UnknownTicker {
+  ticker: string                // As received from a feed, upper-cased
+  articles: number              // Articles carrying it
+  first_seen: string
+  last_seen: string
+  sample_title: string | null   // Title of the latest article carrying it
+}
+
+export interface TickerRegistry {
+  tickers: TickerDefinition[]
+  unknown: UnknownTicker[]      // Review queue
+  ignored: string[]             // Dropped on ingestion, e.g. "CEO"
+}
+
+export interface TickerMapResult {
+  articlesUpdated: number
+}
+
 export interface AdminStats {
   alerts: {
     total: number
@@ -38,7 +245,7 @@ export interface AdminStats {
   news: {
     totalCached: number
     freshToday: number
-    expiringIn7Days: number
+    expiringIn7Days: number      // Excludes pinned articles and articles linked to alerts
     topSources: Array<{ name: string; count: number }>
     byToken: Record<string, number>
   }
@@ -49,15 +256,178 @@ export interface AdminStats {
   }
 }
 
+export type NewsSourceType = 'rss' | 'atom' | 'json'
+
+/**
+ * How tickers are pulled out of a feed item. Every match is merged into the article's tickers.
+ */
+export interface TickerExtractionSettings {
+  categories: boolean           // Use RSS/Atom categories (and the JSON tickers field) as tickers
+  cashtags: boolean             // Match $BTC style mentions in the title and text
+  symbols: string[]             // Bare symbols to match as whole words in the title and text ["BTC", "ETH"]
+  aliases: Record<string, string>  // Names matched case-insensitively, mapped to a symbol {"bitcoin": "BTC"}
+}
+
+/**
+ * Where each article field lives in a JSON API response. Paths are dot-separated, e.g. "data.items".
+ */
+export interface JsonFeedMapping {
+  items: string                 // Path to the array of items; empty when the response is the array
+  url: string
+  title: string
+  date: string                  // ISO string or Unix timestamp (seconds or milliseconds)
+  text?: string
+  image?: string
+  tickers?: string              // Array of symbols, used when ticker extraction reads categories
+}
+
+export interface NewsSource {
+  id: number
+  name: string                  // Stored as source_name on every article from this feed
+  type: NewsSourceType
+  url: string
+  poll_interval_minutes: number
+  default_tags: string[]        // Added to the topics of every article from this feed
+  enabled: boolean
+  ticker_extraction: TickerExtractionSettings
+  json_mapping: JsonFeedMapping | null  // Required for 'json' feeds
+  last_polled_at: string | null
+  last_error: string | null     // Error from the last poll, null when it succeeded
+  article_count: number         // Articles from this feed currently in the news cache
+  created_at: string
+  updated_at: string
+}
+
+export type NewsSourceInput = Pick<
+  NewsSource,
+  'name' | 'type' | 'url' | 'poll_interval_minutes' | 'default_tags' | 'enabled' | 'ticker_extraction' | 'json_mapping'
+>
+
+/**
+ * A feed file parsed by the backend ingester without saving anything
+ */
+export interface NewsFeedPreview {
+  articles: Array<{
+    article_url: string
+    title: string
+    text: string | null
+    date: string                // ISO datetime
+    image_url: string | null
+    tickers: string[]
+    topics: string[]            // The source's default tags
+  }>
+  errors: string[]              // One per skipped item, or a single entry when the whole feed is unreadable
+}
+
+// How many days articles stay cached after they are fetched
+export interface NewsRetentionPolicy {
+  default_days: number
+  sources: Array<{
+    source_name: string
+    retention_days: number | null   // null uses default_days
+    article_count: number           // Articles from this source currently in the cache
+  }>
+}
+
+export interface NewsRetentionInput {
+  default_days: number
+  sources: Array<{ source_name: string; retention_days: number | null }>
+}
+
+export interface NewsRefreshResult {
+  added: number
+  updated: number
+}
+
+// Every condition that is set must match; within a condition any value may match
+export interface WatchRuleConditions {
+  keywords: string[]            // Whole words or phrases in the title or text, case-insensitive
+  pattern: string | null        // Regular expression over the title and text, case-insensitive
+  match_in: 'title' | 'title_and_text'  // Where keywords and pattern are looked for
+  tickers: string[]             // Canonical symbols
+  min_watchers: number | null   // Any ticker on at least this many user watchlists
+  sources: string[]             // source_name
+  sentiments: Array<'positive' | 'neutral' | 'negative'>
+}
+
+export interface WatchRule {
+  id: number
+  name: string
+  enabled: boolean
+  conditions: WatchRuleConditions
+  hit_count: number             // Articles flagged since the rule was created
+  hits_7d: number
+  last_hit_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type WatchRuleInput = Pick<WatchRule, 'name' | 'enabled' | 'conditions'>
+
+export interface WatchRuleHit {
+  article_url: string
+  title: string
+  source_name: string
+  date: string
+  matched: string[]
+  flagged_at: string
+  triage_status: NewsTriageStatus
+  deleted: boolean              // Article has since left the news cache
+}
+
+// Alert fields a draft rule fills in; title and body may contain {{token}}, {{title}},
+// {{source}}, {{url}} and {{date}} placeholders taken from the matched article
+export type AlertDraftTemplate = Pick<NewAlertInput, 'title' | 'body' | 'severity' | 'tags'>
+
+// Turns matching articles into draft alerts. Drafts are never published without review.
+export interface AlertDraftRule {
+  id: number
+  name: string
+  enabled: boolean
+  conditions: WatchRuleConditions
+  alert: AlertDraftTemplate
+  match_count: number           // Articles matched since the rule was enabled
+  draft_count: number           // Draft alerts created; lower when matches were skipped
+  last_draft_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type AlertDraftRuleInput = Pick<AlertDraftRule, 'name' | 'enabled' | 'conditions' | 'alert'>
+
+export interface AlertDraftRuleMatch {
+  article_url: string
+  title: string
+  source_name: string
+  date: string
+  matched: string[]
+  matched_at: string
+  alert: { id: number; title: string; status: AlertStatus } | null  // Draft created from the article
+  skipped_reason: string | null // Why no draft was created, e.g. the article already had an alert
+}
+
 export interface NewsStats {
   totalCached: number
   byToken: Array<{ token: string; count: number }>
   avgAgeSeconds: number
-  expiringSoon: number
+  expiringSoon: number          // Within 7 days; excludes pinned articles and articles linked to alerts
   oldestArticle: string | null
   newestArticle: string | null
 }
 
+export interface AdminUser {
+  id: string
+  email: string
+  name: string
+  username: string
+  avatar: string
+  isGoogleUser: boolean         // false = anonymous device user
+  created_at: string | null
+  watchlistCount: number
+  watchlist: string[]           // Watched token symbols
+  lastActivity: string | null
+}
+
 export interface AdminInfo {
   counts: {
     alerts: number